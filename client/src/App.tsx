@@ -3,15 +3,22 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { useState } from "react";
-import { AuthContext, useAuth } from "@/context/auth";
+import { AuthProvider, useAuth } from "@/context/auth";
 import Home from "@/pages/home";
 import Auth from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 
 function Router() {
-  const { user } = useAuth();
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center" data-testid="auth-loading">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
 
   if (user) {
     return (
@@ -33,15 +40,13 @@ function Router() {
 }
 
 function App() {
-  const [user, setUser] = useState<User | null>(null);
-
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <AuthContext.Provider value={{ user, setUser }}>
+        <AuthProvider>
           <Toaster />
           <Router />
-        </AuthContext.Provider>
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,30 @@
+import { useState, type ReactNode } from "react";
+import { Ban } from "lucide-react";
+
+interface BlockedMessageProps {
+  blocked: boolean;
+  children: ReactNode;
+}
+
+// Collapses a message from a blocked user behind a placeholder until it is asked for
+export default function BlockedMessage({ blocked, children }: BlockedMessageProps) {
+  const [revealed, setRevealed] = useState(false);
+
+  if (!blocked || revealed) {
+    return <>{children}</>;
+  }
+  return (
+    <div className="flex items-center space-x-2 p-2 text-sm text-muted-foreground" data-testid="blocked-message">
+      <Ban className="w-4 h-4" />
+      <span className="italic">Blocked message</span>
+      <button
+        type="button"
+        className="text-xs text-primary hover:underline"
+        onClick={() => setRevealed(true)}
+        data-testid="button-show-blocked-message"
+      >
+        Show message
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Trash2 } from "lucide-react";
+import {
+  CHANNEL_PERMISSIONS,
+  PERMISSION_LABELS,
+  fromPermissionBits,
+  hasPermissionBit,
+  type Permission,
+} from "@shared/permissions";
+import type { Channel, ChannelOverwrite, Role, ServerWithChannels } from "@shared/schema";
+
+type OverwriteState = "allow" | "inherit" | "deny";
+
+interface ChannelSettingsProps {
+  channel: Channel;
+  server: ServerWithChannels;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ChannelSettings({ channel, server, open, onOpenChange }: ChannelSettingsProps) {
+  const [newTarget, setNewTarget] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: overwrites = [] } = useQuery<ChannelOverwrite[]>({
+    queryKey: ["/api/channels", channel.id, "overwrites"],
+    enabled: open,
+  });
+
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/servers", server.id, "roles"],
+    enabled: open,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/channels", channel.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/servers", server.id] });
+  };
+
+  const updateChannelMutation = useMutation({
+    mutationFn: async (data: { isPrivate: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/channels/${channel.id}`, data);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update channel"),
+  });
+
+  const setOverwriteMutation = useMutation({
+    mutationFn: async ({ targetType, targetId, allow, deny }: { targetType: string; targetId: string; allow: Permission[]; deny: Permission[] }) => {
+      const response = await apiRequest("PUT", `/api/channels/${channel.id}/overwrites/${targetType}/${targetId}`, { allow, deny });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update permissions"),
+  });
+
+  const deleteOverwriteMutation = useMutation({
+    mutationFn: async ({ targetType, targetId }: { targetType: string; targetId: string }) => {
+      await apiRequest("DELETE", `/api/channels/${channel.id}/overwrites/${targetType}/${targetId}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to remove permissions"),
+  });
+
+  const targetLabel = (overwrite: { targetType: string; targetId: string }) => {
+    if (overwrite.targetType === "everyone") return "@everyone";
+    if (overwrite.targetType === "role") {
+      return roles.find(r => r.id === overwrite.targetId)?.name ?? "Unknown role";
+    }
+    return server.members.find(m => m.userId === overwrite.targetId)?.user.username ?? "Unknown member";
+  };
+
+  const stateOf = (overwrite: ChannelOverwrite, permission: Permission): OverwriteState => {
+    if (hasPermissionBit(overwrite.allow, permission)) return "allow";
+    if (hasPermissionBit(overwrite.deny, permission)) return "deny";
+    return "inherit";
+  };
+
+  const changePermission = (overwrite: ChannelOverwrite, permission: Permission, state: OverwriteState) => {
+    const allow = fromPermissionBits(overwrite.allow).filter(p => p !== permission);
+    const deny = fromPermissionBits(overwrite.deny).filter(p => p !== permission);
+    if (state === "allow") allow.push(permission);
+    if (state === "deny") deny.push(permission);
+    setOverwriteMutation.mutate({ targetType: overwrite.targetType, targetId: overwrite.targetId, allow, deny });
+  };
+
+  const addTarget = () => {
+    const [targetType, targetId] = newTarget.split(":");
+    if (!targetType || !targetId) return;
+    setOverwriteMutation.mutate({ targetType, targetId, allow: [], deny: [] });
+    setNewTarget("");
+  };
+
+  const existing = new Set(overwrites.map(o => `${o.targetType}:${o.targetId}`));
+  const candidates = [
+    { value: "everyone:everyone", label: "@everyone" },
+    ...roles.map(r => ({ value: `role:${r.id}`, label: r.name })),
+    ...server.members.map(m => ({ value: `member:${m.userId}`, label: m.user.username })),
+  ].filter(c => !existing.has(c.value));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>#{channel.name} Permissions</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-3 rounded border border-border">
+            <div>
+              <Label htmlFor="channel-private">Private Channel</Label>
+              <p className="text-xs text-muted-foreground">
+                Only roles and members allowed below can see this channel.
+              </p>
+            </div>
+            <Switch
+              id="channel-private"
+              checked={channel.isPrivate}
+              onCheckedChange={(isPrivate) => updateChannelMutation.mutate({ isPrivate })}
+              data-testid="switch-channel-private"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Select value={newTarget} onValueChange={setNewTarget}>
+              <SelectTrigger className="flex-1" data-testid="select-overwrite-target">
+                <SelectValue placeholder="Add a role or member" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.value} value={candidate.value}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addTarget} disabled={!newTarget} data-testid="button-add-overwrite">
+              Add
+            </Button>
+          </div>
+
+          {overwrites.map((overwrite) => (
+            <div
+              key={overwrite.id}
+              className="p-3 rounded border border-border space-y-2"
+              data-testid={`overwrite-${overwrite.targetType}-${overwrite.targetId}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-foreground">{targetLabel(overwrite)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-8 h-8"
+                  onClick={() => deleteOverwriteMutation.mutate({ targetType: overwrite.targetType, targetId: overwrite.targetId })}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {CHANNEL_PERMISSIONS.map((permission) => (
+                  <div key={permission} className="flex items-center justify-between text-sm">
+                    <span>{PERMISSION_LABELS[permission]}</span>
+                    <Select
+                      value={stateOf(overwrite, permission)}
+                      onValueChange={(state: OverwriteState) => changePermission(overwrite, permission, state)}
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="allow">Allow</SelectItem>
+                        <SelectItem value="inherit">Inherit</SelectItem>
+                        <SelectItem value="deny">Deny</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
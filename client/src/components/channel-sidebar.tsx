@@ -1,15 +1,21 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth";
 import { apiRequest } from "@/lib/queryClient";
 import UserAvatar from "./user-avatar";
 import VoiceControls from "@/components/voice-controls";
-import { Hash, Volume2, Plus, ChevronDown, Mic, MicOff, Headphones, Settings } from "lucide-react";
+import ServerSettings from "@/components/server-settings";
+import ChannelSettings from "@/components/channel-settings";
+import { Switch } from "@/components/ui/switch";
+import { hasPermissionBit } from "@shared/permissions";
+import { Hash, Volume2, Plus, ChevronDown, Mic, MicOff, Headphones, Settings, LogOut, Lock } from "lucide-react";
 import type { ServerWithChannels, Channel, User } from "@shared/schema";
 
 interface ChannelSidebarProps {
@@ -32,13 +38,17 @@ export default function ChannelSidebar({
   const [showCreateChannel, setShowCreateChannel] = useState(false);
   const [channelName, setChannelName] = useState("");
   const [channelType, setChannelType] = useState<"text" | "voice">("text");
+  const [channelPrivate, setChannelPrivate] = useState(false);
+  const [settingsChannel, setSettingsChannel] = useState<Channel | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   const [isDeafened, setIsDeafened] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const { toast } = useToast();
+  const { logout } = useAuth();
   const queryClient = useQueryClient();
 
   const createChannelMutation = useMutation({
-    mutationFn: async (data: { name: string; type: string; serverId: string }) => {
+    mutationFn: async (data: { name: string; type: string; serverId: string; isPrivate: boolean }) => {
       const response = await apiRequest("POST", "/api/channels", data);
       return response.json();
     },
@@ -47,6 +57,7 @@ export default function ChannelSidebar({
       onChannelSelect(newChannel);
       setShowCreateChannel(false);
       setChannelName("");
+      setChannelPrivate(false);
       toast({
         title: "Channel created!",
         description: `#${newChannel.name} has been created.`,
@@ -61,12 +72,24 @@ export default function ChannelSidebar({
     },
   });
 
+  const { data: permissionData } = useQuery<{ permissions: number }>({
+    queryKey: ["/api/servers", server?.id, "permissions"],
+    enabled: !!server?.id,
+  });
+  const permissions = permissionData?.permissions ?? 0;
+  const canManageChannels = hasPermissionBit(permissions, "manageChannels");
+  const canOpenSettings =
+    hasPermissionBit(permissions, "manageRoles") ||
+    hasPermissionBit(permissions, "kickMembers") ||
+    hasPermissionBit(permissions, "banMembers");
+
   const handleCreateChannel = () => {
     if (channelName.trim() && server) {
       createChannelMutation.mutate({
         name: channelName.trim(),
         type: channelType,
         serverId: server.id,
+        isPrivate: channelPrivate,
       });
     }
   };
@@ -105,12 +128,33 @@ export default function ChannelSidebar({
   return (
     <div className="w-60 bg-card flex flex-col" data-testid="channel-sidebar">
       {/* Server Header */}
-      <div className="h-12 px-4 flex items-center justify-between border-b border-border cursor-pointer hover:bg-secondary">
+      <div
+        className="h-12 px-4 flex items-center justify-between border-b border-border cursor-pointer hover:bg-secondary"
+        onClick={() => canOpenSettings && setShowSettings(true)}
+        data-testid="button-server-settings"
+      >
         <h2 className="font-semibold text-foreground" data-testid="text-server-name">
           {server.name}
         </h2>
         <ChevronDown className="w-4 h-4 text-muted-foreground" />
       </div>
+      {settingsChannel && (
+        <ChannelSettings
+          channel={server.channels.find(c => c.id === settingsChannel.id) ?? settingsChannel}
+          server={server}
+          open={!!settingsChannel}
+          onOpenChange={(open) => !open && setSettingsChannel(null)}
+        />
+      )}
+      {canOpenSettings && (
+        <ServerSettings
+          server={server}
+          user={user}
+          permissions={permissions}
+          open={showSettings}
+          onOpenChange={setShowSettings}
+        />
+      )}
 
       {/* Channels */}
       <div className="flex-1 overflow-y-auto p-2">
@@ -118,61 +162,72 @@ export default function ChannelSidebar({
         <div className="mb-4">
           <div className="flex items-center justify-between px-2 py-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
             <span>Text Channels</span>
-            <Dialog open={showCreateChannel} onOpenChange={setShowCreateChannel}>
-              <DialogTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="w-4 h-4 hover:text-foreground"
-                  data-testid="button-add-text-channel"
-                >
-                  <Plus className="w-3 h-3" />
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Create Channel</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="channel-name">Channel Name</Label>
-                    <Input
-                      id="channel-name"
-                      value={channelName}
-                      onChange={(e) => setChannelName(e.target.value)}
-                      placeholder="general"
-                      data-testid="input-channel-name"
-                    />
-                  </div>
-                  <div>
-                    <Label>Channel Type</Label>
-                    <Select value={channelType} onValueChange={(value: "text" | "voice") => setChannelType(value)}>
-                      <SelectTrigger data-testid="select-channel-type">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="text">Text Channel</SelectItem>
-                        <SelectItem value="voice">Voice Channel</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+            {canManageChannels && (
+              <Dialog open={showCreateChannel} onOpenChange={setShowCreateChannel}>
+                <DialogTrigger asChild>
                   <Button
-                    onClick={handleCreateChannel}
-                    disabled={!channelName.trim() || createChannelMutation.isPending}
-                    className="w-full"
-                    data-testid="button-create-channel-submit"
+                    variant="ghost"
+                    size="icon"
+                    className="w-4 h-4 hover:text-foreground"
+                    data-testid="button-add-text-channel"
                   >
-                    {createChannelMutation.isPending ? "Creating..." : "Create Channel"}
+                    <Plus className="w-3 h-3" />
                   </Button>
-                </div>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create Channel</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="channel-name">Channel Name</Label>
+                      <Input
+                        id="channel-name"
+                        value={channelName}
+                        onChange={(e) => setChannelName(e.target.value)}
+                        placeholder="general"
+                        data-testid="input-channel-name"
+                      />
+                    </div>
+                    <div>
+                      <Label>Channel Type</Label>
+                      <Select value={channelType} onValueChange={(value: "text" | "voice") => setChannelType(value)}>
+                        <SelectTrigger data-testid="select-channel-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="text">Text Channel</SelectItem>
+                          <SelectItem value="voice">Voice Channel</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="channel-private-create">Private Channel</Label>
+                      <Switch
+                        id="channel-private-create"
+                        checked={channelPrivate}
+                        onCheckedChange={setChannelPrivate}
+                        data-testid="switch-create-channel-private"
+                      />
+                    </div>
+                    <Button
+                      onClick={handleCreateChannel}
+                      disabled={!channelName.trim() || createChannelMutation.isPending}
+                      className="w-full"
+                      data-testid="button-create-channel-submit"
+                    >
+                      {createChannelMutation.isPending ? "Creating..." : "Create Channel"}
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
 
           {textChannels.map((channel) => (
             <div
               key={channel.id}
-              className={`channel-item flex items-center px-2 py-1 rounded cursor-pointer ${
+              className={`channel-item group flex items-center px-2 py-1 rounded cursor-pointer ${
                 selectedChannel?.id === channel.id
                   ? "bg-secondary text-foreground"
                   : "text-muted-foreground hover:text-foreground"
@@ -180,13 +235,23 @@ export default function ChannelSidebar({
               onClick={() => onChannelSelect(channel)}
               data-testid={`channel-${channel.name}`}
             >
-              <Hash className="w-4 h-4 mr-2" />
+              {channel.isPrivate ? <Lock className="w-4 h-4 mr-2" /> : <Hash className="w-4 h-4 mr-2" />}
               <span className="text-sm">{channel.name}</span>
-              {connectedPeers.size > 0 && selectedChannel?.id === channel.id && (
-                <div className="ml-auto flex items-center space-x-1">
+              <div className="ml-auto flex items-center space-x-1">
+                {connectedPeers.size > 0 && selectedChannel?.id === channel.id && (
                   <div className="w-2 h-2 bg-accent rounded-full p2p-indicator" title="P2P Connected" />
-                </div>
-              )}
+                )}
+                {canManageChannels && (
+                  <Settings
+                    className="w-3 h-3 opacity-0 group-hover:opacity-100 hover:text-foreground"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSettingsChannel(channel);
+                    }}
+                    data-testid={`button-channel-settings-${channel.name}`}
+                  />
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -195,24 +260,26 @@ export default function ChannelSidebar({
         <div className="mb-4">
           <div className="flex items-center justify-between px-2 py-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
             <span>Voice Channels</span>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="w-4 h-4 hover:text-foreground"
-              onClick={() => {
-                setChannelType("voice");
-                setShowCreateChannel(true);
-              }}
-              data-testid="button-add-voice-channel"
-            >
-              <Plus className="w-3 h-3" />
-            </Button>
+            {canManageChannels && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-4 h-4 hover:text-foreground"
+                onClick={() => {
+                  setChannelType("voice");
+                  setShowCreateChannel(true);
+                }}
+                data-testid="button-add-voice-channel"
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            )}
           </div>
 
           {voiceChannels.map((channel) => (
             <div key={channel.id}>
               <div
-                className={`channel-item flex items-center px-2 py-1 rounded cursor-pointer ${
+                className={`channel-item group flex items-center px-2 py-1 rounded cursor-pointer ${
                   selectedChannel?.id === channel.id
                     ? "bg-secondary text-accent"
                     : "text-muted-foreground hover:text-foreground"
@@ -220,9 +287,19 @@ export default function ChannelSidebar({
                 onClick={() => onChannelSelect(channel)}
                 data-testid={`voice-channel-${channel.name}`}
               >
-                <Volume2 className="w-4 h-4 mr-2" />
+                {channel.isPrivate ? <Lock className="w-4 h-4 mr-2" /> : <Volume2 className="w-4 h-4 mr-2" />}
                 <span className="text-sm">{channel.name}</span>
                 <div className="ml-auto flex items-center space-x-1">
+                  {canManageChannels && (
+                    <Settings
+                      className="w-3 h-3 opacity-0 group-hover:opacity-100 hover:text-foreground"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSettingsChannel(channel);
+                      }}
+                      data-testid={`button-channel-settings-${channel.name}`}
+                    />
+                  )}
                   {connectedPeers.size > 0 && selectedChannel?.id === channel.id && (
                     <div className="voice-indicator w-2 h-2 rounded-full" />
                   )}
@@ -277,12 +354,30 @@ export default function ChannelSidebar({
           </div>
         </div>
 
-        <VoiceControls
-          isMuted={isMuted}
-          isDeafened={isDeafened}
-          onMuteToggle={() => setIsMuted(!isMuted)}
-          onDeafenToggle={() => setIsDeafened(!isDeafened)}
-        />
+        <div className="flex items-center">
+          <VoiceControls
+            isMuted={isMuted}
+            isDeafened={isDeafened}
+            onMuteToggle={() => setIsMuted(!isMuted)}
+            onDeafenToggle={() => setIsDeafened(!isDeafened)}
+          />
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-8 h-8 hover:bg-card rounded"
+                onClick={() => logout()}
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Log Out</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
       </div>
     </div>
   );
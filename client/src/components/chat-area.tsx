@@ -1,50 +1,166 @@
-import { useState, useRef, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useEffect, useLayoutEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import UserAvatar from "./user-avatar";
-import { Hash, Phone, Video, Monitor, Pin, Users, Search, Plus, Smile, Gift, StickyNote } from "lucide-react";
-import type { Channel, MessageWithAuthor, User } from "@shared/schema";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { mergeCachedMessage, replaceCachedMessage, updateCachedThread } from "@/hooks/use-realtime";
+import { useToggleReaction } from "@/hooks/use-reactions";
+import { useTogglePin } from "@/hooks/use-pins";
+import { useBlockedUserIds } from "@/hooks/use-blocking";
+import type { FileTransferControls } from "@/hooks/use-webrtc";
+import { MAX_P2P_FILE_SIZE } from "@/lib/file-transfer";
+import { isPendingMessage, MessageStore } from "@/lib/message-store";
+import { isServerUnreachable, queueOfflineMessage } from "@/lib/outbox";
+import MessageRow from "./message-row";
+import BlockedMessage from "./blocked-message";
+import EmojiPicker from "./emoji-picker";
+import ReactionBar from "./reaction-bar";
+import PinnedMessages from "./pinned-messages";
+import MessageAttachments, { formatFileSize } from "./message-attachments";
+import FileTransfers from "./file-transfers";
+import { Hash, Phone, Video, Monitor, Pin, PinOff, Users, Search, Plus, Upload, Share2, Smile, Gift, StickyNote, Pencil, Trash2, ArrowDown, Reply, MessagesSquare, X, SmilePlus, ShieldAlert } from "lucide-react";
+import { hasPermissionBit } from "@shared/permissions";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  type Channel,
+  type MessageWithAuthor,
+  type ServerMember,
+  type Thread,
+  type User,
+} from "@shared/schema";
 
 interface ChatAreaProps {
   channel: Channel | null;
   messages: MessageWithAuthor[];
   isLoading: boolean;
+  hasOlderMessages: boolean;
+  isLoadingOlderMessages: boolean;
+  onLoadOlderMessages: () => void;
+  hasNewerMessages: boolean;
+  isLoadingNewerMessages: boolean;
+  onLoadNewerMessages: () => void;
+  onJumpToPresent: () => void;
+  jumpTargetId: string | null;
+  onJumpToMessage: (messageId: string) => void;
+  onJumpComplete: () => void;
+  onSearch: (query: string) => void;
   user: User;
   onToggleMembersList: () => void;
   showMembersList: boolean;
   connectedPeers: Set<string>;
-  onSendMessage: (content: string) => void;
+  onSendMessage: (message: MessageWithAuthor) => void;
+  onOpenThread: (threadId: string) => void;
+  fileTransfers: FileTransferControls;
+  members: (ServerMember & { user: User })[];
 }
 
 export default function ChatArea({
   channel,
   messages,
   isLoading,
+  hasOlderMessages,
+  isLoadingOlderMessages,
+  onLoadOlderMessages,
+  hasNewerMessages,
+  isLoadingNewerMessages,
+  onLoadNewerMessages,
+  onJumpToPresent,
+  jumpTargetId,
+  onJumpToMessage,
+  onJumpComplete,
+  onSearch,
   user,
   onToggleMembersList,
   showMembersList,
   connectedPeers,
-  onSendMessage
+  onSendMessage,
+  onOpenThread,
+  fileTransfers,
+  members
 }: ChatAreaProps) {
   const [messageContent, setMessageContent] = useState("");
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [replyingTo, setReplyingTo] = useState<MessageWithAuthor | null>(null);
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+  const [isScrolledUp, setIsScrolledUp] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const p2pFileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const blockedUserIds = useBlockedUserIds();
+
+  const { data: permissionData } = useQuery<{ permissions: number }>({
+    queryKey: ["/api/channels", channel?.id, "permissions"],
+    enabled: !!channel?.id,
+  });
+  const canSend = hasPermissionBit(permissionData?.permissions ?? 0, "sendMessages");
+  const canUseVoice = hasPermissionBit(permissionData?.permissions ?? 0, "connect") &&
+    hasPermissionBit(permissionData?.permissions ?? 0, "speak");
+  const canManageMessages = hasPermissionBit(permissionData?.permissions ?? 0, "manageMessages");
+  const canReact = hasPermissionBit(permissionData?.permissions ?? 0, "addReactions");
+  const canAttach = canSend && hasPermissionBit(permissionData?.permissions ?? 0, "attachFiles");
+  const toggleReaction = useToggleReaction();
+  const togglePin = useTogglePin();
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (data: { content: string; authorId: string; channelId: string }) => {
-      const response = await apiRequest("POST", "/api/messages", data);
+    mutationFn: async ({ files, ...data }: { content: string; channelId: string; replyToId?: string; nonce: string; files: File[] }) => {
+      if (files.length === 0) {
+        const response = await apiRequest("POST", "/api/messages", data);
+        return response.json();
+      }
+
+      const form = new FormData();
+      Object.entries(data).forEach(([key, value]) => value !== undefined && form.append(key, value));
+      files.forEach(file => form.append("files", file));
+      const response = await apiUpload("POST", "/api/messages", form);
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/channels", channel?.id, "messages"] });
+    onSuccess: (message: MessageWithAuthor) => {
+      if (hasNewerMessages) {
+        onJumpToPresent();
+      }
+      stickToBottomRef.current = true;
+      mergeCachedMessage(queryClient, message);
       setMessageContent("");
+      setReplyingTo(null);
+      setPendingFiles([]);
+      // Relay the stored copy to connected peers so it carries the server ID
+      onSendMessage(message);
     },
-    onError: (error: any) => {
+    onError: async (error: any, { files, ...data }) => {
+      // Text messages are kept locally and shared with peers until the server is back
+      if (isServerUnreachable(error) && files.length === 0) {
+        stickToBottomRef.current = true;
+        const pending = await queueOfflineMessage(
+          queryClient,
+          MessageStore.forUser(user.id),
+          { ...data, queuedAt: Date.now() },
+          user,
+          replyingTo,
+        );
+        setMessageContent("");
+        setReplyingTo(null);
+        onSendMessage(pending);
+        return;
+      }
       toast({
         title: "Failed to send message",
         description: error.message,
@@ -53,18 +169,144 @@ export default function ChatArea({
     },
   });
 
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/messages/${id}`, { content });
+      return response.json();
+    },
+    onSuccess: (message) => {
+      replaceCachedMessage(queryClient, message);
+      setEditingMessageId(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to edit message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/messages/${id}`);
+      return response.json();
+    },
+    onSuccess: (message) => {
+      replaceCachedMessage(queryClient, message);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createThreadMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      const response = await apiRequest("POST", `/api/messages/${messageId}/thread`, {});
+      return response.json();
+    },
+    onSuccess: (thread: Thread) => {
+      updateCachedThread(queryClient, thread);
+      onOpenThread(thread.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to start thread",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (message: MessageWithAuthor) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, message: MessageWithAuthor) => {
+    if (e.key === "Escape") {
+      setEditingMessageId(null);
+    } else if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      const content = editContent.trim();
+      if (!content || content === message.content) {
+        setEditingMessageId(null);
+        return;
+      }
+      editMessageMutation.mutate({ id: message.id, content });
+    }
+  };
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (messageContent.trim() && channel) {
-      // Send via P2P first
-      onSendMessage(messageContent.trim());
-      
-      // Also save to server for persistence
+    if ((messageContent.trim() || pendingFiles.length > 0) && channel && canSend) {
       sendMessageMutation.mutate({
         content: messageContent.trim(),
-        authorId: user.id,
         channelId: channel.id,
+        replyToId: replyingTo?.id,
+        nonce: crypto.randomUUID(),
+        files: pendingFiles,
+      });
+    }
+  };
+
+  // Checks picked files against the server's limits before queueing them
+  const queueUploads = (selected: File[]) => {
+    const tooLarge = selected.find(file => file.size > MAX_ATTACHMENT_SIZE);
+    const unsupported = selected.find(file => !ALLOWED_ATTACHMENT_TYPES.includes(file.type));
+    if (tooLarge || unsupported) {
+      toast({
+        title: "Cannot attach file",
+        description: tooLarge
+          ? `${tooLarge.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+          : `${unsupported!.name} is not a supported file type`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (pendingFiles.length + selected.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({
+        title: "Cannot attach file",
+        description: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPendingFiles(prev => [...prev, ...selected]);
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    queueUploads(selected);
+  };
+
+  // Offers files straight to connected peers, falling back to a server upload when there are none
+  const handleP2PFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const tooLarge = selected.find(file => file.size > MAX_P2P_FILE_SIZE);
+    if (tooLarge) {
+      toast({
+        title: "Cannot send file",
+        description: `${tooLarge.name} is larger than ${formatFileSize(MAX_P2P_FILE_SIZE)}`,
+        variant: "destructive",
       });
+      return;
+    }
+
+    const unsent = selected.filter(file => fileTransfers.sendFile(file) === 0);
+    if (unsent.length > 0) {
+      toast({
+        title: "No peers connected",
+        description: "The file will be uploaded to the server instead.",
+      });
+      queueUploads(unsent);
     }
   };
 
@@ -75,10 +317,121 @@ export default function ChatArea({
     }
   };
 
-  // Scroll to bottom when new messages arrive
-  useEffect(() => {
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    stickToBottomRef.current = distanceFromBottom < 80 && !hasNewerMessages;
+    setIsScrolledUp(distanceFromBottom > container.clientHeight);
+
+    if (container.scrollTop < 200 && hasOlderMessages && !isLoadingOlderMessages) {
+      prependAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      onLoadOlderMessages();
+    }
+    if (distanceFromBottom < 200 && hasNewerMessages && !isLoadingNewerMessages) {
+      onLoadNewerMessages();
+    }
+  };
+
+  const jumpToPresent = () => {
+    if (hasNewerMessages) {
+      onJumpToPresent();
+    }
+    stickToBottomRef.current = true;
+    setIsScrolledUp(false);
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchInput.trim()) {
+      onSearch(searchInput.trim());
+    }
+  };
+
+  // Scroll to a requested message once its history window has loaded, then flash it
+  useEffect(() => {
+    if (!jumpTargetId) return;
+    stickToBottomRef.current = false;
+    const element = scrollContainerRef.current?.querySelector(`[data-testid="message-${jumpTargetId}"]`);
+    if (element) {
+      element.scrollIntoView({ block: "center" });
+      setHighlightedMessageId(jumpTargetId);
+      onJumpComplete();
+    }
+  }, [messages, jumpTargetId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // A new channel starts at the latest message
+  useEffect(() => {
+    setReplyingTo(null);
+    setPendingFiles([]);
+    stickToBottomRef.current = true;
+    prependAnchorRef.current = null;
+    setIsScrolledUp(false);
+  }, [channel?.id]);
+
+  // Keep the viewport steady when older history is prepended, and follow
+  // new messages only while the reader is already at the bottom
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const anchor = prependAnchorRef.current;
+    if (anchor && !isLoadingOlderMessages) {
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      prependAnchorRef.current = null;
+    } else if (stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages, isLoadingOlderMessages]);
+
+  // Pin notices render as a single line pointing back at the pinned message
+  const renderPinNotice = (message: MessageWithAuthor) => (
+    <div
+      key={message.id}
+      className={`group relative flex items-center space-x-3 px-2 py-1 rounded text-sm text-muted-foreground ${highlightedMessageId === message.id ? "bg-primary/10" : ""}`}
+      data-testid={`message-${message.id}`}
+    >
+      <div className="w-10 flex justify-center">
+        <Pin className="w-4 h-4" />
+      </div>
+      <p className="flex-1" data-testid="text-pin-notice">
+        <span className="font-medium text-foreground">{message.author.username}</span> pinned{" "}
+        {message.replyTo && !message.replyTo.deletedAt ? (
+          <button
+            type="button"
+            className="font-medium text-foreground hover:underline"
+            onClick={() => onJumpToMessage(message.replyTo!.id)}
+            data-testid={`button-jump-to-pinned-${message.replyTo.id}`}
+          >
+            a message
+          </button>
+        ) : (
+          "a message"
+        )}{" "}
+        to this channel.
+        <span className="ml-2 text-xs">{new Date(message.createdAt!).toLocaleTimeString()}</span>
+      </p>
+      {(message.authorId === user.id || canManageMessages) && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="w-7 h-7 hidden group-hover:flex"
+          onClick={() => deleteMessageMutation.mutate(message.id)}
+          data-testid={`button-delete-message-${message.id}`}
+        >
+          <Trash2 className="w-3.5 h-3.5 text-destructive" />
+        </Button>
+      )}
+    </div>
+  );
 
   if (!channel) {
     return (
@@ -112,7 +465,7 @@ export default function ChatArea({
         <div className="flex items-center space-x-1">
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-voice-call">
+              <Button variant="ghost" size="icon" className="w-8 h-8" disabled={!canUseVoice} data-testid="button-voice-call">
                 <Phone className="w-4 h-4 text-muted-foreground hover:text-foreground" />
               </Button>
             </TooltipTrigger>
@@ -123,7 +476,7 @@ export default function ChatArea({
 
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-video-call">
+              <Button variant="ghost" size="icon" className="w-8 h-8" disabled={!canUseVoice} data-testid="button-video-call">
                 <Video className="w-4 h-4 text-muted-foreground hover:text-foreground" />
               </Button>
             </TooltipTrigger>
@@ -134,7 +487,7 @@ export default function ChatArea({
 
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-screen-share">
+              <Button variant="ghost" size="icon" className="w-8 h-8" disabled={!canUseVoice} data-testid="button-screen-share">
                 <Monitor className="w-4 h-4 text-muted-foreground hover:text-foreground" />
               </Button>
             </TooltipTrigger>
@@ -144,11 +497,13 @@ export default function ChatArea({
           </Tooltip>
 
           <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-pinned">
-                <Pin className="w-4 h-4 text-muted-foreground hover:text-foreground" />
-              </Button>
-            </TooltipTrigger>
+            <PinnedMessages channel={channel} canManageMessages={canManageMessages} onJumpToMessage={onJumpToMessage}>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-pinned">
+                  <Pin className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                </Button>
+              </TooltipTrigger>
+            </PinnedMessages>
             <TooltipContent>
               <p>Pinned Messages</p>
             </TooltipContent>
@@ -171,71 +526,258 @@ export default function ChatArea({
             </TooltipContent>
           </Tooltip>
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid="button-search">
-                <Search className="w-4 h-4 text-muted-foreground hover:text-foreground" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>Search</p>
-            </TooltipContent>
-          </Tooltip>
+          <form onSubmit={handleSearch} className="relative ml-1">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search"
+              className="h-7 w-44 pr-7 text-sm bg-secondary border-none focus-visible:ring-0"
+              data-testid="input-search"
+            />
+            <button
+              type="submit"
+              className="absolute right-2 top-1/2 -translate-y-1/2"
+              data-testid="button-search"
+            >
+              <Search className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+            </button>
+          </form>
         </div>
       </div>
 
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {isLoading ? (
-          <div className="space-y-4">
-            {[1, 2, 3].map((i) => (
-              <div key={i} className="flex items-start space-x-3">
-                <div className="w-10 h-10 bg-muted rounded-full animate-pulse" />
-                <div className="flex-1 space-y-2">
-                  <div className="h-4 bg-muted rounded animate-pulse w-1/4" />
-                  <div className="h-4 bg-muted rounded animate-pulse w-3/4" />
+      <div className="relative flex-1 flex flex-col min-h-0">
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto p-4 space-y-4"
+          data-testid="messages-scroll"
+        >
+          {isLoadingOlderMessages && (
+            <p className="text-center text-xs text-muted-foreground" data-testid="text-loading-older">
+              Loading older messages...
+            </p>
+          )}
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="flex items-start space-x-3">
+                  <div className="w-10 h-10 bg-muted rounded-full animate-pulse" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 bg-muted rounded animate-pulse w-1/4" />
+                    <div className="h-4 bg-muted rounded animate-pulse w-3/4" />
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center">
-              <Hash className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-xl font-semibold text-foreground mb-2">
-                Welcome to #{channel.name}!
-              </h3>
-              <p className="text-muted-foreground">
-                This is the beginning of the #{channel.name} channel.
-              </p>
+              ))}
             </div>
-          </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className="flex items-start space-x-3 message-hover p-2 rounded"
-              data-testid={`message-${message.id}`}
-            >
-              <UserAvatar user={message.author} size="lg" />
-              <div className="flex-1">
-                <div className="flex items-center space-x-2 mb-1">
-                  <span className="font-medium text-foreground" data-testid="text-message-author">
-                    {message.author.username}
-                  </span>
-                  <span className="text-xs text-muted-foreground" data-testid="text-message-time">
-                    {new Date(message.createdAt!).toLocaleTimeString()}
-                  </span>
-                  <div className="w-1 h-1 bg-accent rounded-full" title="P2P Message" />
-                </div>
-                <p className="text-foreground" data-testid="text-message-content">
-                  {message.content}
+          ) : messages.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <Hash className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-foreground mb-2">
+                  Welcome to #{channel.name}!
+                </h3>
+                <p className="text-muted-foreground">
+                  This is the beginning of the #{channel.name} channel.
                 </p>
               </div>
             </div>
-          ))
+          ) : (
+            messages.map((message) => message.type === "pin" && !message.deletedAt ? renderPinNotice(message) : (
+              <BlockedMessage key={message.id} blocked={blockedUserIds.has(message.authorId)}>
+                <MessageRow
+                  author={message.author}
+                  createdAt={message.createdAt}
+                  className={`${highlightedMessageId === message.id ? "bg-primary/10" : ""} ${isPendingMessage(message) ? "opacity-60" : ""}`}
+                  data-testid={`message-${message.id}`}
+                  toolbar={!message.deletedAt && !isPendingMessage(message) && editingMessageId !== message.id && (
+                    <div
+                      className={`absolute right-2 -top-3 ${reactingMessageId === message.id ? "flex" : "hidden group-hover:flex"} items-center bg-card border border-border rounded shadow-sm`}
+                    >
+                      {canReact && (
+                        <EmojiPicker
+                          onSelect={(emoji) => toggleReaction(message, emoji, false)}
+                          onOpenChange={(open) => setReactingMessageId(open ? message.id : null)}
+                        >
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="w-7 h-7"
+                            data-testid={`button-react-message-${message.id}`}
+                          >
+                            <SmilePlus className="w-3.5 h-3.5 text-muted-foreground" />
+                          </Button>
+                        </EmojiPicker>
+                      )}
+                      {canSend && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-7 h-7"
+                          onClick={() => setReplyingTo(message)}
+                          data-testid={`button-reply-message-${message.id}`}
+                        >
+                          <Reply className="w-3.5 h-3.5 text-muted-foreground" />
+                        </Button>
+                      )}
+                      {(message.thread || canSend) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-7 h-7"
+                          onClick={() => message.thread ? onOpenThread(message.thread.id) : createThreadMutation.mutate(message.id)}
+                          data-testid={`button-thread-message-${message.id}`}
+                        >
+                          <MessagesSquare className="w-3.5 h-3.5 text-muted-foreground" />
+                        </Button>
+                      )}
+                      {canManageMessages && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-7 h-7"
+                          onClick={() => togglePin(message, !!message.pinnedAt)}
+                          data-testid={`button-pin-message-${message.id}`}
+                        >
+                          {message.pinnedAt ? (
+                            <PinOff className="w-3.5 h-3.5 text-muted-foreground" />
+                          ) : (
+                            <Pin className="w-3.5 h-3.5 text-muted-foreground" />
+                          )}
+                        </Button>
+                      )}
+                      {message.authorId === user.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-7 h-7"
+                          onClick={() => startEditing(message)}
+                          data-testid={`button-edit-message-${message.id}`}
+                        >
+                          <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                        </Button>
+                      )}
+                      {(message.authorId === user.id || canManageMessages) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="w-7 h-7"
+                          onClick={() => deleteMessageMutation.mutate(message.id)}
+                          data-testid={`button-delete-message-${message.id}`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  preface={message.replyToId && (
+                    <div className="flex items-center space-x-1 text-xs text-muted-foreground mb-1" data-testid="text-reply-preview">
+                      <Reply className="w-3 h-3 -scale-x-100" />
+                      {message.replyTo && !message.replyTo.deletedAt ? (
+                        <>
+                          <span className="font-medium text-foreground">@{message.replyTo.author.username}</span>
+                          <span className="truncate max-w-md">{message.replyTo.content}</span>
+                        </>
+                      ) : (
+                        <span className="italic">Original message was deleted</span>
+                      )}
+                    </div>
+                  )}
+                  badges={<>
+                    {isPendingMessage(message) && (
+                      <span className="text-xs text-muted-foreground italic" data-testid="text-message-pending">
+                        Waiting for server...
+                      </span>
+                    )}
+                    {message.unverified && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span className="flex items-center text-xs text-yellow-500" data-testid="text-message-unverified">
+                            <ShieldAlert className="w-3 h-3 mr-1" />
+                            Unverified
+                          </span>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>This copy came from a peer and could not be checked against {message.author.username}'s signing key</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    {message.pinnedAt && (
+                      <span title="Pinned" data-testid="icon-message-pinned">
+                        <Pin className="w-3 h-3 text-muted-foreground" />
+                      </span>
+                    )}
+                    <div className="w-1 h-1 bg-accent rounded-full" title="P2P Message" />
+                  </>}
+                >
+                  {message.deletedAt ? (
+                    <p className="text-muted-foreground italic" data-testid="text-message-deleted">
+                      This message has been deleted.
+                    </p>
+                  ) : editingMessageId === message.id ? (
+                    <div className="space-y-1">
+                      <Input
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        onKeyDown={(e) => handleEditKeyDown(e, message)}
+                        disabled={editMessageMutation.isPending}
+                        autoFocus
+                        data-testid="input-edit-message"
+                      />
+                      <span className="text-xs text-muted-foreground">
+                        Escape to cancel, Enter to save
+                      </span>
+                    </div>
+                  ) : (
+                    <>
+                      {(message.content || message.editedAt) && (
+                        <p className="text-foreground" data-testid="text-message-content">
+                          {message.content}
+                          {message.editedAt && (
+                            <span className="ml-1 text-xs text-muted-foreground" title={new Date(message.editedAt).toLocaleString()}>
+                              (edited)
+                            </span>
+                          )}
+                        </p>
+                      )}
+                      <MessageAttachments attachments={message.attachments} scope="messages" messageId={message.id} />
+                    </>
+                  )}
+                  {!message.deletedAt && (
+                    <ReactionBar message={message} userId={user.id} canReact={canReact} />
+                  )}
+                  {message.thread && (
+                    <button
+                      type="button"
+                      className="mt-1 flex items-center space-x-1 text-xs text-primary hover:underline"
+                      onClick={() => onOpenThread(message.thread!.id)}
+                      data-testid={`button-open-thread-${message.thread.id}`}
+                    >
+                      <MessagesSquare className="w-3 h-3" />
+                      <span className="font-medium">{message.thread.name}</span>
+                      <span className="text-muted-foreground">
+                        {message.thread.messageCount} {message.thread.messageCount === 1 ? "reply" : "replies"}
+                      </span>
+                    </button>
+                  )}
+                </MessageRow>
+              </BlockedMessage>
+            ))
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {(isScrolledUp || hasNewerMessages) && (
+          <Button
+            size="sm"
+            className="absolute bottom-3 left-1/2 -translate-x-1/2 shadow-md"
+            onClick={jumpToPresent}
+            data-testid="button-jump-to-present"
+          >
+            <ArrowDown className="w-4 h-4 mr-1" />
+            Jump to present
+          </Button>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
       {/* Media Container for Voice/Video */}
@@ -244,47 +786,125 @@ export default function ChatArea({
 
       {/* Message Input */}
       <div className="p-4">
-        <form onSubmit={handleSendMessage}>
-          <div className="bg-secondary rounded-lg flex items-center space-x-3 px-4 py-3">
-            <Tooltip>
-              <TooltipTrigger asChild>
+        {replyingTo && (
+          <div className="flex items-center justify-between px-4 py-1 bg-secondary/60 rounded-t-lg text-xs text-muted-foreground" data-testid="reply-bar">
+            <span>
+              Replying to <span className="font-medium text-foreground">@{replyingTo.author.username}</span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="w-5 h-5"
+              onClick={() => setReplyingTo(null)}
+              data-testid="button-cancel-reply"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+        <FileTransfers fileTransfers={fileTransfers} members={members} />
+        {pendingFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2 px-4 py-2 bg-secondary/60 rounded-t-lg" data-testid="pending-attachments">
+            {pendingFiles.map((file, index) => (
+              <div
+                key={`${file.name}-${index}`}
+                className="flex items-center space-x-1 pl-2 pr-1 py-1 rounded bg-secondary text-xs text-foreground"
+                data-testid={`pending-attachment-${index}`}
+              >
+                <span className="truncate max-w-[12rem]">{file.name}</span>
+                <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
                 <Button
                   type="button"
                   variant="ghost"
                   size="icon"
-                  className="text-muted-foreground hover:text-foreground"
-                  data-testid="button-attach"
+                  className="w-5 h-5"
+                  onClick={() => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-attachment-${index}`}
                 >
-                  <Plus className="w-5 h-5" />
+                  <X className="w-3 h-3" />
                 </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Upload File via P2P</p>
-              </TooltipContent>
-            </Tooltip>
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleSendMessage}>
+          <div className="bg-secondary rounded-lg flex items-center space-x-3 px-4 py-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+              className="hidden"
+              onChange={handleFilesSelected}
+              data-testid="input-attachments"
+            />
+            <input
+              ref={p2pFileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleP2PFilesSelected}
+              data-testid="input-p2p-files"
+            />
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground hover:text-foreground"
+                      disabled={!canAttach || sendMessageMutation.isPending}
+                      data-testid="button-attach"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Upload File via P2P</p>
+                </TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="start" side="top">
+                <DropdownMenuItem onSelect={() => p2pFileInputRef.current?.click()} data-testid="menu-send-p2p">
+                  <Share2 className="w-4 h-4 mr-2" />
+                  Send to peers
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => fileInputRef.current?.click()} data-testid="menu-upload-file">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload to server
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
 
             <Input
               value={messageContent}
               onChange={(e) => setMessageContent(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder={`Message #${channel.name}`}
+              placeholder={canSend ? `Message #${channel.name}` : "You do not have permission to send messages in this channel"}
+              disabled={!canSend}
               className="flex-1 bg-transparent border-none outline-none focus-visible:ring-0 text-foreground placeholder-muted-foreground"
               data-testid="input-message"
             />
 
             <div className="flex items-center space-x-2">
               <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="text-muted-foreground hover:text-foreground"
-                    data-testid="button-emoji"
-                  >
-                    <Smile className="w-4 h-4" />
-                  </Button>
-                </TooltipTrigger>
+                <EmojiPicker onSelect={(emoji) => setMessageContent(prev => prev + emoji)}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground hover:text-foreground"
+                      disabled={!canSend}
+                      data-testid="button-emoji"
+                    >
+                      <Smile className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                </EmojiPicker>
                 <TooltipContent>
                   <p>Emoji</p>
                 </TooltipContent>
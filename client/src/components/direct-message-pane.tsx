@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { describeDecryptionFailure, useConversationEncryption, useDecryptedContent } from "@/hooks/use-e2ee";
+import { mergeCachedDirectMessage } from "@/hooks/use-realtime";
+import { useBlockedUserIds, useToggleBlock } from "@/hooks/use-blocking";
+import { DirectMessageCrypto } from "@/lib/e2ee";
+import { apiRequest } from "@/lib/queryClient";
+import MessageRow from "./message-row";
+import MessageAttachments from "./message-attachments";
+import SafetyNumberDialog from "./safety-number-dialog";
+import { AtSign, Ban, Lock, LockOpen, Send, ShieldAlert, ShieldCheck } from "lucide-react";
+import type { DirectMessageWithUsers, PublicUser, RealtimeDirectMessage, User } from "@shared/schema";
+
+interface DirectMessagePaneProps {
+  user: User;
+  peer: PublicUser;
+}
+
+function DirectMessageContent({ userId, message }: { userId: string; message: DirectMessageWithUsers }) {
+  const content = useDecryptedContent(userId, message);
+
+  if (!content) {
+    return <p className="text-muted-foreground italic">Decrypting...</p>;
+  }
+  if (!content.ok) {
+    return (
+      <p className="text-muted-foreground italic" data-testid="text-message-undecryptable">
+        {describeDecryptionFailure(content.reason)}
+      </p>
+    );
+  }
+  return (
+    <>
+      {content.text && (
+        <p className="text-foreground" data-testid="text-message-content">
+          {content.text}
+        </p>
+      )}
+      <MessageAttachments attachments={message.attachments} scope="direct-messages" messageId={message.id} />
+    </>
+  );
+}
+
+export default function DirectMessagePane({ user, peer }: DirectMessagePaneProps) {
+  const [messageContent, setMessageContent] = useState("");
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const encryption = useConversationEncryption(user.id, peer.id);
+  const block = useToggleBlock();
+  const isBlocked = useBlockedUserIds().has(peer.id);
+
+  const { data: messages = [], isLoading } = useQuery<DirectMessageWithUsers[]>({
+    queryKey: ["/api/direct-messages", peer.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/direct-messages?userId=${encodeURIComponent(peer.id)}`);
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async ({ content, encrypt }: { content: string; encrypt: boolean }) => {
+      const body = encrypt
+        ? { recipientId: peer.id, ...(await DirectMessageCrypto.forUser(user.id).encrypt(peer.id, content)) }
+        : { recipientId: peer.id, content };
+      const response = await apiRequest("POST", "/api/direct-messages", body);
+      return response.json();
+    },
+    onSuccess: (message: RealtimeDirectMessage) => {
+      mergeCachedDirectMessage(queryClient, user.id, message);
+      setMessageContent("");
+    },
+    onError: (error: any) => {
+      // A device list that changed under us shows up as a refused message; refetch it
+      encryption.refresh();
+      toast({
+        title: "Failed to send message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (messageContent.trim()) {
+      sendMessageMutation.mutate({ content: messageContent.trim(), encrypt: encryption.enabled });
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-background" data-testid="direct-message-pane">
+      <div className="h-12 px-4 flex items-center justify-between border-b border-border">
+        <div className="flex items-center space-x-2">
+          <AtSign className="w-5 h-5 text-muted-foreground" />
+          <h3 className="font-semibold text-foreground" data-testid="text-conversation-name">{peer.username}</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-8 h-8"
+                  disabled={!encryption.available}
+                  onClick={() => encryption.setEnabled(!encryption.enabled)}
+                  data-testid="button-toggle-encryption"
+                >
+                  {encryption.enabled ? (
+                    <Lock className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <LockOpen className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                  )}
+                </Button>
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>
+                {!encryption.available
+                  ? `${peer.username} has not set up encryption on any device`
+                  : encryption.enabled ? "End-to-end encryption is on" : "Turn on end-to-end encryption"}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+          {encryption.available && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-8 h-8"
+                  onClick={() => setShowSafetyNumber(true)}
+                  data-testid="button-safety-number"
+                >
+                  {encryption.verified ? (
+                    <ShieldCheck className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <ShieldAlert className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{encryption.verified ? "Safety number verified" : "Verify safety number"}</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-8 h-8"
+                disabled={block.isPending}
+                onClick={() => block.toggle(peer, isBlocked)}
+                data-testid="button-toggle-block"
+              >
+                <Ban className={`w-4 h-4 ${isBlocked ? "text-destructive" : "text-muted-foreground hover:text-foreground"}`} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{isBlocked ? `Unblock ${peer.username}` : `Block ${peer.username}`}</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+      <SafetyNumberDialog
+        userId={user.id}
+        peer={peer}
+        verified={encryption.verified}
+        open={showSafetyNumber}
+        onOpenChange={setShowSafetyNumber}
+      />
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4" data-testid="direct-messages-container">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="flex items-start space-x-3">
+                <div className="w-10 h-10 bg-muted rounded-full animate-pulse" />
+                <div className="flex-1 space-y-2">
+                  <div className="h-4 bg-muted rounded animate-pulse w-1/4" />
+                  <div className="h-4 bg-muted rounded animate-pulse w-3/4" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <AtSign className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{peer.username}</h3>
+              <p className="text-muted-foreground">
+                This is the beginning of your direct message history with {peer.username}.
+              </p>
+            </div>
+          </div>
+        ) : (
+          messages.map((message) => (
+            <MessageRow
+              key={message.id}
+              author={message.sender}
+              createdAt={message.createdAt}
+              data-testid={`direct-message-${message.id}`}
+              badges={message.encryption && (
+                <span title="End-to-end encrypted" data-testid="icon-message-encrypted">
+                  <Lock className="w-3 h-3 text-muted-foreground" />
+                </span>
+              )}
+            >
+              <DirectMessageContent userId={user.id} message={message} />
+            </MessageRow>
+          ))
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <div className="p-4">
+        <form onSubmit={handleSendMessage}>
+          <div className="bg-secondary rounded-lg flex items-center space-x-3 px-4 py-3">
+            <Input
+              type="text"
+              placeholder={isBlocked
+                ? `Unblock ${peer.username} to message them`
+                : encryption.enabled ? `Message @${peer.username} (encrypted)` : `Message @${peer.username}`}
+              value={messageContent}
+              onChange={(e) => setMessageContent(e.target.value)}
+              className="flex-1 bg-transparent border-none outline-none text-foreground placeholder-muted-foreground"
+              disabled={isBlocked || sendMessageMutation.isPending}
+              data-testid="input-direct-message"
+            />
+            <Button
+              type="submit"
+              variant="ghost"
+              size="icon"
+              className="w-6 h-6"
+              disabled={!messageContent.trim() || sendMessageMutation.isPending}
+              data-testid="button-send-direct-message"
+            >
+              <Send className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
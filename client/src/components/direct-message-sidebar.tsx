@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useAuth } from "@/context/auth";
+import { describeDecryptionFailure, useDecryptedContent } from "@/hooks/use-e2ee";
+import { updateCachedGroup } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import UserAvatar from "./user-avatar";
+import GroupIcon, { groupDisplayName } from "./group-icon";
+import { Lock, LogOut, Plus, Users } from "lucide-react";
+import {
+  MAX_GROUP_MEMBERS,
+  type DirectConversation,
+  type FriendRequests,
+  type GroupWithMembers,
+  type PublicUser,
+  type User,
+} from "@shared/schema";
+
+interface DirectMessageSidebarProps {
+  user: User;
+  conversations: DirectConversation[];
+  groups: GroupWithMembers[];
+  isLoading: boolean;
+  selectedUserId: string | null;
+  selectedGroupId: string | null;
+  friendsSelected: boolean;
+  onSelect: (user: PublicUser) => void;
+  onSelectGroup: (group: GroupWithMembers) => void;
+  onSelectFriends: () => void;
+}
+
+type SidebarEntry =
+  | { type: "direct"; conversation: DirectConversation; activeAt: number }
+  | { type: "group"; group: GroupWithMembers; activeAt: number };
+
+function ConversationPreview({ userId, conversation }: { userId: string; conversation: DirectConversation }) {
+  const { lastMessage } = conversation;
+  const content = useDecryptedContent(userId, lastMessage);
+  const prefix = lastMessage.senderId === userId ? "You: " : "";
+
+  let text: string;
+  if (!content) {
+    text = "Decrypting...";
+  } else if (!content.ok) {
+    text = describeDecryptionFailure(content.reason);
+  } else {
+    text = content.text || (lastMessage.attachments?.length ? "Sent an attachment" : "");
+  }
+
+  return (
+    <span className="flex items-center text-xs text-muted-foreground truncate" data-testid="text-conversation-preview">
+      {lastMessage.encryption && <Lock className="w-3 h-3 mr-1 shrink-0" />}
+      <span className="truncate">{prefix}{text}</span>
+    </span>
+  );
+}
+
+export default function DirectMessageSidebar({
+  user,
+  conversations,
+  groups,
+  isLoading,
+  selectedUserId,
+  selectedGroupId,
+  friendsSelected,
+  onSelect,
+  onSelectGroup,
+  onSelectFriends,
+}: DirectMessageSidebarProps) {
+  const [showNewMessage, setShowNewMessage] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [selectedFriendIds, setSelectedFriendIds] = useState<string[]>([]);
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: friends = [], isLoading: friendsLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/friends"],
+    enabled: showNewMessage,
+  });
+  const { data: requests } = useQuery<FriendRequests>({
+    queryKey: ["/api/friends/requests"],
+  });
+  const incomingCount = requests?.incoming.length ?? 0;
+  const matchingFriends = friends.filter(friend => friend.username.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  // Direct conversations and groups share one list, most recently active first
+  const entries: SidebarEntry[] = [
+    ...conversations.map((conversation): SidebarEntry => ({
+      type: "direct",
+      conversation,
+      activeAt: new Date(conversation.lastMessage.createdAt!).getTime(),
+    })),
+    ...groups.map((group): SidebarEntry => ({
+      type: "group",
+      group,
+      activeAt: new Date(group.lastMessageAt ?? group.createdAt!).getTime(),
+    })),
+  ].sort((a, b) => b.activeAt - a.activeAt);
+
+  const closeNewMessage = (open: boolean) => {
+    setShowNewMessage(open);
+    if (!open) {
+      setFilter("");
+      setSelectedFriendIds([]);
+    }
+  };
+
+  const toggleFriend = (friend: PublicUser, checked: boolean) => {
+    setSelectedFriendIds(ids => checked ? [...ids, friend.id] : ids.filter(id => id !== friend.id));
+  };
+
+  const createGroupMutation = useMutation({
+    mutationFn: async (memberIds: string[]) => {
+      const response = await apiRequest("POST", "/api/groups", { memberIds });
+      return response.json();
+    },
+    onSuccess: (group: GroupWithMembers) => {
+      updateCachedGroup(queryClient, user.id, group);
+      onSelectGroup(group);
+      closeNewMessage(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One friend opens the direct conversation; more start a group
+  const startConversation = () => {
+    if (selectedFriendIds.length === 1) {
+      onSelect(friends.find(friend => friend.id === selectedFriendIds[0])!);
+      closeNewMessage(false);
+    } else if (selectedFriendIds.length > 1) {
+      createGroupMutation.mutate(selectedFriendIds);
+    }
+  };
+
+  return (
+    <div className="w-60 bg-card flex flex-col" data-testid="direct-message-sidebar">
+      <div className="h-12 px-4 flex items-center justify-between border-b border-border">
+        <h2 className="font-semibold text-foreground">Direct Messages</h2>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="w-6 h-6"
+              onClick={() => setShowNewMessage(true)}
+              data-testid="button-new-direct-message"
+            >
+              <Plus className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>New Message</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      <Dialog open={showNewMessage} onOpenChange={closeNewMessage}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Message</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Search friends"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            autoFocus
+            data-testid="input-friend-filter"
+          />
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {friendsLoading ? (
+              <p className="text-sm text-muted-foreground p-2">Loading friends...</p>
+            ) : matchingFriends.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-2">
+                {friends.length === 0 ? "Add some friends to start a conversation." : "No friends match your search."}
+              </p>
+            ) : (
+              matchingFriends.map((friend) => {
+                const checked = selectedFriendIds.includes(friend.id);
+                return (
+                  <label
+                    key={friend.id}
+                    className="w-full flex items-center space-x-2 px-2 py-1.5 rounded hover:bg-secondary cursor-pointer"
+                    data-testid={`option-friend-${friend.username}`}
+                  >
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && selectedFriendIds.length >= MAX_GROUP_MEMBERS - 1}
+                      onCheckedChange={(value) => toggleFriend(friend, value === true)}
+                    />
+                    <UserAvatar user={friend} size="md" />
+                    <span className="text-sm text-foreground">{friend.username}</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+          <Button
+            disabled={selectedFriendIds.length === 0 || createGroupMutation.isPending}
+            onClick={startConversation}
+            data-testid="button-start-conversation"
+          >
+            {selectedFriendIds.length > 1 ? "Create Group" : "Message"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <div className="p-2 pb-0">
+        <button
+          type="button"
+          className={`w-full flex items-center justify-between px-2 py-2 rounded text-left ${
+            friendsSelected ? "bg-secondary text-foreground" : "text-muted-foreground hover:bg-secondary/60"
+          }`}
+          onClick={onSelectFriends}
+          data-testid="button-friends"
+        >
+          <span className="flex items-center space-x-3">
+            <Users className="w-5 h-5" />
+            <span className="text-sm font-medium">Friends</span>
+          </span>
+          {incomingCount > 0 && (
+            <span
+              className="px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs"
+              data-testid="badge-friend-requests"
+            >
+              {incomingCount}
+            </span>
+          )}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+        {isLoading ? (
+          [1, 2, 3].map((i) => (
+            <div key={i} className="flex items-center space-x-2 px-2 py-2">
+              <div className="w-8 h-8 bg-muted rounded-full animate-pulse" />
+              <div className="h-4 bg-muted rounded animate-pulse flex-1" />
+            </div>
+          ))
+        ) : entries.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">
+            No conversations yet.
+          </p>
+        ) : (
+          entries.map((entry) => entry.type === "group" ? (
+            <button
+              key={entry.group.id}
+              type="button"
+              className={`w-full flex items-center space-x-2 px-2 py-1.5 rounded text-left ${
+                selectedGroupId === entry.group.id ? "bg-secondary" : "hover:bg-secondary/60"
+              }`}
+              onClick={() => onSelectGroup(entry.group)}
+              data-testid={`button-group-${entry.group.id}`}
+            >
+              <GroupIcon group={entry.group} />
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm font-medium text-foreground truncate">{groupDisplayName(entry.group, user.id)}</span>
+                <span className="text-xs text-muted-foreground">{entry.group.members.length} Members</span>
+              </div>
+            </button>
+          ) : (
+            <button
+              key={entry.conversation.user.id}
+              type="button"
+              className={`w-full flex items-center space-x-2 px-2 py-1.5 rounded text-left ${
+                selectedUserId === entry.conversation.user.id ? "bg-secondary" : "hover:bg-secondary/60"
+              }`}
+              onClick={() => onSelect(entry.conversation.user)}
+              data-testid={`button-conversation-${entry.conversation.user.username}`}
+            >
+              <UserAvatar user={entry.conversation.user} size="md" />
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm font-medium text-foreground truncate">{entry.conversation.user.username}</span>
+                <ConversationPreview userId={user.id} conversation={entry.conversation} />
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* User Panel */}
+      <div className="h-14 bg-muted px-2 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <UserAvatar user={user} size="md" />
+          <span className="text-sm font-medium text-foreground" data-testid="text-username">
+            {user.username}
+          </span>
+        </div>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="w-8 h-8 hover:bg-card rounded"
+              onClick={() => logout()}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Log Out</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState, type ReactNode } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+const EMOJI_CATEGORIES: { label: string; emojis: string[] }[] = [
+  {
+    label: "Smileys",
+    emojis: ["😀", "😂", "🤣", "😊", "😍", "😘", "😎", "🤔", "😐", "🙄", "😴", "😭", "😡", "🤯", "🥳", "😱"],
+  },
+  {
+    label: "Gestures",
+    emojis: ["👍", "👎", "👏", "🙌", "🙏", "🤝", "👋", "💪", "✌️", "🤞", "👌", "👀"],
+  },
+  {
+    label: "Symbols",
+    emojis: ["❤️", "🧡", "💛", "💚", "💙", "💜", "💯", "🔥", "✨", "⭐", "✅", "❌"],
+  },
+  {
+    label: "Objects",
+    emojis: ["🎉", "🎁", "🏆", "🚀", "💡", "📌", "🔔", "☕", "🍕", "🎮", "🎵", "💻"],
+  },
+];
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  onOpenChange?: (open: boolean) => void;
+  children: ReactNode;
+}
+
+// Wraps a trigger element (passed as children) with a popover of common emoji
+export default function EmojiPicker({ onSelect, onOpenChange, children }: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const changeOpen = (next: boolean) => {
+    setOpen(next);
+    onOpenChange?.(next);
+  };
+
+  const select = (emoji: string) => {
+    onSelect(emoji);
+    changeOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={changeOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 p-2 space-y-2" align="end" data-testid="emoji-picker">
+        {EMOJI_CATEGORIES.map((category) => (
+          <div key={category.label}>
+            <div className="px-1 pb-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+              {category.label}
+            </div>
+            <div className="grid grid-cols-8 gap-1">
+              {category.emojis.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  className="h-8 w-8 rounded text-lg hover:bg-secondary"
+                  onClick={() => select(emoji)}
+                  data-testid={`emoji-${emoji}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
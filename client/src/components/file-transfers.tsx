@@ -0,0 +1,133 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowDownToLine, ArrowUpFromLine, Check, Download, X } from "lucide-react";
+import { formatFileSize } from "./message-attachments";
+import type { FileTransferControls } from "@/hooks/use-webrtc";
+import type { FileTransfer } from "@/lib/file-transfer";
+import type { ServerMember, User } from "@shared/schema";
+
+interface FileTransfersProps {
+  fileTransfers: FileTransferControls;
+  members: (ServerMember & { user: User })[];
+}
+
+function describeStatus(transfer: FileTransfer, peerName: string): string {
+  const incoming = transfer.direction === "incoming";
+  switch (transfer.status) {
+    case "offered":
+      return incoming ? `${peerName} wants to send you a file` : `Waiting for ${peerName} to accept`;
+    case "transferring":
+      return incoming ? `Receiving from ${peerName}` : `Sending to ${peerName}`;
+    case "interrupted":
+      return `Connection to ${peerName} lost; resumes when they reconnect`;
+    case "verifying":
+      return "Verifying file...";
+    case "completed":
+      return incoming ? `Received from ${peerName}` : `Delivered to ${peerName}`;
+    case "rejected":
+      return incoming ? "Declined" : `${peerName} declined the file`;
+    case "cancelled":
+      return "Cancelled";
+    case "failed":
+      return transfer.error ?? "Transfer failed";
+  }
+}
+
+// Peer-to-peer transfers for the current session, shown above the message composer
+export default function FileTransfers({ fileTransfers, members }: FileTransfersProps) {
+  const { transfers, accept, reject, cancel, dismiss } = fileTransfers;
+  if (transfers.length === 0) {
+    return null;
+  }
+
+  const peerName = (peerId: string) =>
+    members.find(member => member.userId === peerId)?.user.username ?? "A peer";
+
+  return (
+    <div className="mb-2 space-y-2" data-testid="file-transfers">
+      {transfers.map((transfer) => {
+        const active = ["offered", "transferring", "interrupted", "verifying"].includes(transfer.status);
+        const percent = transfer.size > 0 ? (transfer.bytesTransferred / transfer.size) * 100 : 100;
+        return (
+          <div
+            key={transfer.id}
+            className="flex items-center space-x-3 px-3 py-2 rounded border border-border bg-secondary/60"
+            data-testid={`file-transfer-${transfer.id}`}
+          >
+            {transfer.direction === "incoming" ? (
+              <ArrowDownToLine className="w-4 h-4 text-muted-foreground shrink-0" />
+            ) : (
+              <ArrowUpFromLine className="w-4 h-4 text-muted-foreground shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-foreground truncate">{transfer.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(transfer.size)}</span>
+              </div>
+              <p
+                className={`text-xs ${transfer.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+                data-testid={`text-transfer-status-${transfer.id}`}
+              >
+                {describeStatus(transfer, peerName(transfer.peerId))}
+              </p>
+              {(transfer.status === "transferring" || transfer.status === "interrupted") && (
+                <Progress value={percent} className="h-1.5 mt-1" />
+              )}
+            </div>
+
+            {transfer.direction === "incoming" && transfer.status === "offered" ? (
+              <>
+                <Button size="sm" className="h-7" onClick={() => accept(transfer.id)} data-testid={`button-accept-transfer-${transfer.id}`}>
+                  <Check className="w-3 h-3 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7"
+                  onClick={() => reject(transfer.id)}
+                  data-testid={`button-reject-transfer-${transfer.id}`}
+                >
+                  Decline
+                </Button>
+              </>
+            ) : active ? (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7"
+                onClick={() => cancel(transfer.id)}
+                data-testid={`button-cancel-transfer-${transfer.id}`}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <>
+                {transfer.url && (
+                  <a
+                    href={transfer.url}
+                    download={transfer.name}
+                    className="flex items-center text-xs text-primary hover:underline"
+                    data-testid={`link-download-transfer-${transfer.id}`}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    Save
+                  </a>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-6 h-6"
+                  onClick={() => dismiss(transfer.id)}
+                  data-testid={`button-dismiss-transfer-${transfer.id}`}
+                >
+                  <X className="w-3 h-3 text-muted-foreground" />
+                </Button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
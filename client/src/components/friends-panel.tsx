@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { useToggleBlock } from "@/hooks/use-blocking";
+import { apiRequest } from "@/lib/queryClient";
+import UserAvatar from "./user-avatar";
+import { Ban, Check, MessageSquare, Undo2, UserMinus, Users, X } from "lucide-react";
+import type { FriendRequests, PublicUser } from "@shared/schema";
+
+type FriendsFilter = "online" | "all" | "pending" | "blocked" | "add";
+
+interface FriendsPanelProps {
+  onMessage: (friend: PublicUser) => void;
+}
+
+const FILTERS: { value: Exclude<FriendsFilter, "add">; label: string }[] = [
+  { value: "online", label: "Online" },
+  { value: "all", label: "All" },
+  { value: "pending", label: "Pending" },
+  { value: "blocked", label: "Blocked" },
+];
+
+function IconAction({ label, onClick, disabled, children, "data-testid": testId }: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+  "data-testid"?: string;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="w-8 h-8 rounded-full bg-secondary"
+          disabled={disabled}
+          onClick={onClick}
+          data-testid={testId}
+        >
+          {children}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+export default function FriendsPanel({ onMessage }: FriendsPanelProps) {
+  const [filter, setFilter] = useState<FriendsFilter>("online");
+  const [username, setUsername] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const block = useToggleBlock();
+
+  const { data: friends = [], isLoading: friendsLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/friends"],
+  });
+  const { data: requests } = useQuery<FriendRequests>({
+    queryKey: ["/api/friends/requests"],
+  });
+  const { data: blocked = [], isLoading: blockedLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/friends/blocked"],
+    enabled: filter === "blocked",
+  });
+
+  // Every friends list shares the prefix, so one invalidation refreshes them all
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const sendRequestMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/friends", { username: name });
+      return response.json();
+    },
+    onSuccess: ({ status }: { status: "pending" | "accepted" }, name) => {
+      toast({
+        title: status === "accepted" ? "Friend added" : "Friend request sent",
+        description: status === "accepted"
+          ? `You and ${name} are now friends.`
+          : `Your request to ${name} is waiting for them to accept.`,
+      });
+      setUsername("");
+      refresh();
+    },
+    onError: onError("Failed to send friend request"),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("POST", `/api/friends/requests/${userId}/accept`),
+    onSuccess: refresh,
+    onError: onError("Failed to accept friend request"),
+  });
+
+  const dropRequestMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("DELETE", `/api/friends/requests/${userId}`),
+    onSuccess: refresh,
+    onError: onError("Failed to update friend request"),
+  });
+
+  const removeFriendMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("DELETE", `/api/friends/${userId}`),
+    onSuccess: refresh,
+    onError: onError("Failed to remove friend"),
+  });
+
+  const handleSendRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) {
+      sendRequestMutation.mutate(username.trim());
+    }
+  };
+
+  const incoming = requests?.incoming ?? [];
+  const outgoing = requests?.outgoing ?? [];
+  const shownFriends = filter === "online" ? friends.filter(friend => friend.status !== "offline") : friends;
+
+  const renderUser = (person: PublicUser, subtitle: string, actions: React.ReactNode) => (
+    <div
+      key={person.id}
+      className="flex items-center justify-between px-2 py-2 rounded border-t border-border hover:bg-secondary/60"
+      data-testid={`friend-row-${person.username}`}
+    >
+      <div className="flex items-center space-x-3 min-w-0">
+        <UserAvatar user={person} size="md" />
+        <div className="flex flex-col min-w-0">
+          <span className="text-sm font-medium text-foreground truncate">{person.username}</span>
+          <span className="text-xs text-muted-foreground">{subtitle}</span>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">{actions}</div>
+    </div>
+  );
+
+  const renderBlockAction = (person: PublicUser) => (
+    <IconAction
+      label="Block"
+      disabled={block.isPending}
+      onClick={() => block.toggle(person, false)}
+      data-testid={`button-block-${person.username}`}
+    >
+      <Ban className="w-4 h-4 text-destructive" />
+    </IconAction>
+  );
+
+  const renderEmpty = (text: string) => (
+    <p className="py-8 text-center text-sm text-muted-foreground" data-testid="text-friends-empty">{text}</p>
+  );
+
+  const renderList = () => {
+    if (filter === "pending") {
+      if (incoming.length === 0 && outgoing.length === 0) {
+        return renderEmpty("There are no pending friend requests.");
+      }
+      return (
+        <>
+          {incoming.map(request => renderUser(request.user, "Incoming Friend Request", (
+            <>
+              <IconAction
+                label="Accept"
+                disabled={acceptMutation.isPending}
+                onClick={() => acceptMutation.mutate(request.user.id)}
+                data-testid={`button-accept-friend-${request.user.username}`}
+              >
+                <Check className="w-4 h-4 text-green-500" />
+              </IconAction>
+              <IconAction
+                label="Decline"
+                disabled={dropRequestMutation.isPending}
+                onClick={() => dropRequestMutation.mutate(request.user.id)}
+                data-testid={`button-decline-friend-${request.user.username}`}
+              >
+                <X className="w-4 h-4 text-destructive" />
+              </IconAction>
+              {renderBlockAction(request.user)}
+            </>
+          )))}
+          {outgoing.map(request => renderUser(request.user, "Outgoing Friend Request", (
+            <IconAction
+              label="Cancel"
+              disabled={dropRequestMutation.isPending}
+              onClick={() => dropRequestMutation.mutate(request.user.id)}
+              data-testid={`button-cancel-friend-${request.user.username}`}
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </IconAction>
+          )))}
+        </>
+      );
+    }
+
+    if (filter === "blocked") {
+      if (blockedLoading) return renderEmpty("Loading...");
+      if (blocked.length === 0) return renderEmpty("You haven't blocked anyone.");
+      return blocked.map(person => renderUser(person, "Blocked", (
+        <IconAction
+          label="Unblock"
+          disabled={block.isPending}
+          onClick={() => block.toggle(person, true)}
+          data-testid={`button-unblock-${person.username}`}
+        >
+          <Undo2 className="w-4 h-4 text-muted-foreground" />
+        </IconAction>
+      )));
+    }
+
+    if (friendsLoading) return renderEmpty("Loading...");
+    if (shownFriends.length === 0) {
+      return renderEmpty(filter === "online" ? "None of your friends are online." : "You have no friends yet. Add some by username.");
+    }
+    return shownFriends.map(friend => renderUser(friend, friend.status, (
+      <>
+        <IconAction
+          label="Message"
+          onClick={() => onMessage(friend)}
+          data-testid={`button-message-${friend.username}`}
+        >
+          <MessageSquare className="w-4 h-4 text-muted-foreground" />
+        </IconAction>
+        <IconAction
+          label="Remove Friend"
+          disabled={removeFriendMutation.isPending}
+          onClick={() => removeFriendMutation.mutate(friend.id)}
+          data-testid={`button-remove-friend-${friend.username}`}
+        >
+          <UserMinus className="w-4 h-4 text-destructive" />
+        </IconAction>
+        {renderBlockAction(friend)}
+      </>
+    )));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-background" data-testid="friends-panel">
+      <div className="h-12 px-4 flex items-center space-x-4 border-b border-border">
+        <div className="flex items-center space-x-2">
+          <Users className="w-5 h-5 text-muted-foreground" />
+          <h3 className="font-semibold text-foreground">Friends</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          {FILTERS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant="ghost"
+              size="sm"
+              className={filter === value ? "bg-secondary text-foreground" : "text-muted-foreground"}
+              onClick={() => setFilter(value)}
+              data-testid={`button-friends-filter-${value}`}
+            >
+              {label}
+              {value === "pending" && incoming.length > 0 && (
+                <span className="ml-1 px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs">
+                  {incoming.length}
+                </span>
+              )}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant={filter === "add" ? "ghost" : "default"}
+            className={filter === "add" ? "text-green-500" : "bg-green-600 hover:bg-green-700 text-white"}
+            onClick={() => setFilter("add")}
+            data-testid="button-friends-add"
+          >
+            Add Friend
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {filter === "add" ? (
+          <form onSubmit={handleSendRequest} className="space-y-2">
+            <h4 className="font-semibold text-foreground">Add Friend</h4>
+            <p className="text-sm text-muted-foreground">You can add friends with their username.</p>
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Enter a username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+                data-testid="input-friend-username"
+              />
+              <Button
+                type="submit"
+                disabled={!username.trim() || sendRequestMutation.isPending}
+                data-testid="button-send-friend-request"
+              >
+                Send Friend Request
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+              {filter === "pending"
+                ? `Pending — ${incoming.length + outgoing.length}`
+                : filter === "blocked"
+                  ? `Blocked — ${blocked.length}`
+                  : `${filter === "online" ? "Online" : "All Friends"} — ${shownFriends.length}`}
+            </h4>
+            {renderList()}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
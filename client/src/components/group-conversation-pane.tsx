@@ -0,0 +1,422 @@
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { mergeCachedGroupMessage, updateCachedGroup } from "@/hooks/use-realtime";
+import { useBlockedUserIds } from "@/hooks/use-blocking";
+import { apiRequest } from "@/lib/queryClient";
+import MessageRow from "./message-row";
+import BlockedMessage from "./blocked-message";
+import MessageAttachments from "./message-attachments";
+import GroupIcon, { groupDisplayName } from "./group-icon";
+import GroupSettings from "./group-settings";
+import UserAvatar from "./user-avatar";
+import { Crown, LogOut, Pencil, Send, UserMinus, UserPlus, Users } from "lucide-react";
+import {
+  MAX_GROUP_MEMBERS,
+  MESSAGE_PAGE_SIZE,
+  type GroupWithMembers,
+  type MessageCursor,
+  type PublicUser,
+  type RealtimeGroupMessage,
+  type User,
+} from "@shared/schema";
+
+interface GroupConversationPaneProps {
+  user: User;
+  group: GroupWithMembers;
+}
+
+// One line describing a membership, name or icon change
+function describeNotice(message: RealtimeGroupMessage): string {
+  const target = message.target?.username ?? "someone";
+  switch (message.type) {
+    case "member-add":
+      return `added ${target} to the group.`;
+    case "member-remove":
+      return `removed ${target} from the group.`;
+    case "member-leave":
+      return "left the group.";
+    case "rename":
+      return message.content ? `renamed the group to ${message.content}.` : "removed the group name.";
+    case "icon":
+      return "changed the group icon.";
+    default:
+      return "";
+  }
+}
+
+export default function GroupConversationPane({ user, group }: GroupConversationPaneProps) {
+  const [messageContent, setMessageContent] = useState("");
+  const [showMembers, setShowMembers] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showAddMember, setShowAddMember] = useState(false);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const blockedUserIds = useBlockedUserIds();
+  const isOwner = group.ownerId === user.id;
+  const name = groupDisplayName(group, user.id);
+
+  // Pages are held oldest first; the initial page is the latest history
+  const {
+    data: messagePages,
+    isLoading,
+    fetchPreviousPage,
+    hasPreviousPage,
+    isFetchingPreviousPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/groups", group.id, "messages"],
+    queryFn: async ({ pageParam }): Promise<RealtimeGroupMessage[]> => {
+      const params = new URLSearchParams(pageParam as Record<string, string>);
+      const response = await apiRequest("GET", `/api/groups/${group.id}/messages?${params}`);
+      return response.json();
+    },
+    initialPageParam: {} as MessageCursor,
+    getPreviousPageParam: (firstPage): MessageCursor | undefined => {
+      if (firstPage.length < MESSAGE_PAGE_SIZE) return undefined;
+      return { before: firstPage[0].id };
+    },
+    getNextPageParam: () => undefined,
+  });
+
+  const messages = useMemo(() => messagePages?.pages.flat() ?? [], [messagePages]);
+
+  const { data: friends = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/friends"],
+    enabled: showAddMember,
+  });
+  const candidates = friends.filter(friend => !group.members.some(member => member.id === friend.id));
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("POST", `/api/groups/${group.id}/messages`, { content });
+      return response.json();
+    },
+    onSuccess: (message: RealtimeGroupMessage) => {
+      stickToBottomRef.current = true;
+      mergeCachedGroupMessage(queryClient, message);
+      setMessageContent("");
+    },
+    onError: onError("Failed to send message"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/groups/${group.id}/members`, { userId });
+      return response.json();
+    },
+    onSuccess: (updated: GroupWithMembers) => {
+      updateCachedGroup(queryClient, user.id, updated);
+      setShowAddMember(false);
+    },
+    onError: onError("Failed to add member"),
+  });
+
+  // Removing yourself leaves the group; the server pushes the new member list to everyone
+  const removeMemberMutation = useMutation({
+    mutationFn: async (member: PublicUser) => {
+      await apiRequest("DELETE", `/api/groups/${group.id}/members/${member.id}`);
+      return member;
+    },
+    onSuccess: (member) => {
+      updateCachedGroup(queryClient, user.id, {
+        ...group,
+        members: group.members.filter(m => m.id !== member.id),
+      });
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (messageContent.trim()) {
+      sendMessageMutation.mutate(messageContent.trim());
+    }
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    stickToBottomRef.current = distanceFromBottom < 80;
+    if (container.scrollTop < 200 && hasPreviousPage && !isFetchingPreviousPage) {
+      prependAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      fetchPreviousPage();
+    }
+  };
+
+  // Keep the viewport steady when older history is prepended, and follow
+  // new messages only while the reader is already at the bottom
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const anchor = prependAnchorRef.current;
+    if (anchor && !isFetchingPreviousPage) {
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      prependAnchorRef.current = null;
+    } else if (stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages, isFetchingPreviousPage]);
+
+  const renderNotice = (message: RealtimeGroupMessage) => (
+    <div
+      key={message.id}
+      className="flex items-center space-x-3 px-2 py-1 text-sm text-muted-foreground"
+      data-testid={`group-notice-${message.id}`}
+    >
+      <div className="w-10 flex justify-center">
+        {message.type === "member-add" ? (
+          <UserPlus className="w-4 h-4" />
+        ) : message.type === "member-remove" || message.type === "member-leave" ? (
+          <UserMinus className="w-4 h-4" />
+        ) : (
+          <Pencil className="w-4 h-4" />
+        )}
+      </div>
+      <p className="flex-1" data-testid="text-group-notice">
+        <span className="font-medium text-foreground">{message.author.username}</span> {describeNotice(message)}
+        <span className="ml-2 text-xs">{new Date(message.createdAt!).toLocaleTimeString()}</span>
+      </p>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="flex-1 flex flex-col bg-background" data-testid="group-conversation-pane">
+        <div className="h-12 px-4 flex items-center justify-between border-b border-border">
+          <div className="flex items-center space-x-2 min-w-0">
+            <GroupIcon group={group} />
+            <h3 className="font-semibold text-foreground truncate" data-testid="text-conversation-name">{name}</h3>
+          </div>
+          <div className="flex items-center space-x-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-8 h-8"
+                  onClick={() => setShowSettings(true)}
+                  data-testid="button-group-settings"
+                >
+                  <Pencil className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Edit Group</p>
+              </TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="w-8 h-8"
+                    disabled={group.members.length >= MAX_GROUP_MEMBERS}
+                    onClick={() => setShowAddMember(true)}
+                    data-testid="button-add-group-member"
+                  >
+                    <UserPlus className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                  </Button>
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{group.members.length >= MAX_GROUP_MEMBERS ? `Groups can have at most ${MAX_GROUP_MEMBERS} members` : "Add Friends"}</p>
+              </TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-8 h-8"
+                  onClick={() => setShowMembers(!showMembers)}
+                  data-testid="button-toggle-group-members"
+                >
+                  <Users className={`w-4 h-4 ${showMembers ? "text-foreground" : "text-muted-foreground hover:text-foreground"}`} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{showMembers ? "Hide" : "Show"} Member List</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto p-4 space-y-4"
+          data-testid="group-messages-container"
+        >
+          {isFetchingPreviousPage && (
+            <p className="text-center text-xs text-muted-foreground" data-testid="text-loading-older">
+              Loading older messages...
+            </p>
+          )}
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="flex items-start space-x-3">
+                  <div className="w-10 h-10 bg-muted rounded-full animate-pulse" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 bg-muted rounded animate-pulse w-1/4" />
+                    <div className="h-4 bg-muted rounded animate-pulse w-3/4" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-foreground mb-2">{name}</h3>
+                <p className="text-muted-foreground">This is the beginning of this group.</p>
+              </div>
+            </div>
+          ) : (
+            messages.map((message) => message.type !== "text" && message.type !== "file" ? renderNotice(message) : (
+              <BlockedMessage key={message.id} blocked={blockedUserIds.has(message.authorId)}>
+                <MessageRow
+                  author={message.author}
+                  createdAt={message.createdAt}
+                  data-testid={`group-message-${message.id}`}
+                >
+                  {message.content && (
+                    <p className="text-foreground" data-testid="text-message-content">
+                      {message.content}
+                    </p>
+                  )}
+                  <MessageAttachments attachments={message.attachments} scope="group-messages" messageId={message.id} />
+                </MessageRow>
+              </BlockedMessage>
+            ))
+          )}
+        </div>
+
+        <div className="p-4">
+          <form onSubmit={handleSendMessage}>
+            <div className="bg-secondary rounded-lg flex items-center space-x-3 px-4 py-3">
+              <Input
+                type="text"
+                placeholder={`Message ${name}`}
+                value={messageContent}
+                onChange={(e) => setMessageContent(e.target.value)}
+                className="flex-1 bg-transparent border-none outline-none text-foreground placeholder-muted-foreground"
+                disabled={sendMessageMutation.isPending}
+                data-testid="input-group-message"
+              />
+              <Button
+                type="submit"
+                variant="ghost"
+                size="icon"
+                className="w-6 h-6"
+                disabled={!messageContent.trim() || sendMessageMutation.isPending}
+                data-testid="button-send-group-message"
+              >
+                <Send className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {showMembers && (
+        <div className="w-60 bg-card flex flex-col" data-testid="group-members">
+          <div className="p-4 flex-1 overflow-y-auto">
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+              Members — {group.members.length}
+            </h3>
+            <div className="space-y-1">
+              {group.members.map((member) => (
+                <div
+                  key={member.id}
+                  className="group flex items-center justify-between px-2 py-1 rounded hover:bg-secondary/60"
+                  data-testid={`group-member-${member.username}`}
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <UserAvatar user={member} size="md" />
+                    <span className="text-sm text-foreground truncate">{member.username}</span>
+                    {member.id === group.ownerId && (
+                      <span title="Group owner">
+                        <Crown className="w-3 h-3 text-yellow-500 shrink-0" />
+                      </span>
+                    )}
+                  </div>
+                  {isOwner && member.id !== user.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-6 h-6 hidden group-hover:flex"
+                      disabled={removeMemberMutation.isPending}
+                      onClick={() => removeMemberMutation.mutate(member)}
+                      data-testid={`button-remove-group-member-${member.username}`}
+                    >
+                      <UserMinus className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="p-2 border-t border-border">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-destructive hover:text-destructive"
+              disabled={removeMemberMutation.isPending}
+              onClick={() => removeMemberMutation.mutate(user)}
+              data-testid="button-leave-group"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave Group
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <GroupSettings userId={user.id} group={group} open={showSettings} onOpenChange={setShowSettings} />
+
+      <Dialog open={showAddMember} onOpenChange={setShowAddMember}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Friends to {name}</DialogTitle>
+          </DialogHeader>
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-2">
+                {friends.length === 0 ? "Add some friends first." : "All of your friends are already here."}
+              </p>
+            ) : (
+              candidates.map((friend) => (
+                <button
+                  key={friend.id}
+                  type="button"
+                  className="w-full flex items-center space-x-2 px-2 py-1.5 rounded hover:bg-secondary text-left"
+                  disabled={addMemberMutation.isPending}
+                  onClick={() => addMemberMutation.mutate(friend.id)}
+                  data-testid={`button-add-friend-${friend.username}`}
+                >
+                  <UserAvatar user={friend} size="md" />
+                  <span className="text-sm text-foreground">{friend.username}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Users } from "lucide-react";
+import { groupIconUrl, type GroupWithMembers } from "@shared/schema";
+
+interface GroupIconProps {
+  group: GroupWithMembers;
+  size?: "md" | "lg";
+}
+
+// Unnamed groups go by the names of everyone else in them
+export function groupDisplayName(group: GroupWithMembers, userId: string): string {
+  if (group.name) return group.name;
+  const others = group.members.filter(member => member.id !== userId).map(member => member.username);
+  return others.length > 0 ? others.join(", ") : "Empty group";
+}
+
+export default function GroupIcon({ group, size = "md" }: GroupIconProps) {
+  const sizeClasses = {
+    md: "w-8 h-8",
+    lg: "w-10 h-10"
+  };
+
+  return (
+    <Avatar className={sizeClasses[size]} data-testid={`group-icon-${group.id}`}>
+      <AvatarImage src={groupIconUrl(group)} alt={group.name ?? "Group"} />
+      <AvatarFallback className="bg-accent text-accent-foreground">
+        <Users className="w-4 h-4" />
+      </AvatarFallback>
+    </Avatar>
+  );
+}
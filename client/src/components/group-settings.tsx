@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { updateCachedGroup } from "@/hooks/use-realtime";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import GroupIcon from "./group-icon";
+import { MAX_ATTACHMENT_SIZE, type GroupWithMembers } from "@shared/schema";
+
+interface GroupSettingsProps {
+  userId: string;
+  group: GroupWithMembers;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ICON_TYPES = "image/png,image/jpeg,image/gif,image/webp";
+
+export default function GroupSettings({ userId, group, open, onOpenChange }: GroupSettingsProps) {
+  const [name, setName] = useState(group.name ?? "");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) setName(group.name ?? "");
+  }, [open, group.name]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const onSuccess = (updated: GroupWithMembers) => updateCachedGroup(queryClient, userId, updated);
+
+  const renameMutation = useMutation({
+    mutationFn: async (name: string | null) => {
+      const response = await apiRequest("PATCH", `/api/groups/${group.id}`, { name });
+      return response.json();
+    },
+    onSuccess: (updated: GroupWithMembers) => {
+      onSuccess(updated);
+      onOpenChange(false);
+    },
+    onError: onError("Failed to rename group"),
+  });
+
+  const setIconMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const form = new FormData();
+      form.append("files", file);
+      const response = await apiUpload("PUT", `/api/groups/${group.id}/icon`, form);
+      return response.json();
+    },
+    onSuccess,
+    onError: onError("Failed to change icon"),
+  });
+
+  const removeIconMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/groups/${group.id}/icon`);
+      return response.json();
+    },
+    onSuccess,
+    onError: onError("Failed to remove icon"),
+  });
+
+  const handleIconSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: "Cannot use this image",
+        description: `Icons can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setIconMutation.mutate(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    renameMutation.mutate(name.trim() || null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group Settings</DialogTitle>
+        </DialogHeader>
+        <div className="flex items-center space-x-3">
+          <GroupIcon group={group} size="lg" />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ICON_TYPES}
+            className="hidden"
+            onChange={handleIconSelect}
+            data-testid="input-group-icon"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={setIconMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+            data-testid="button-change-group-icon"
+          >
+            Change Icon
+          </Button>
+          {group.icon && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={removeIconMutation.isPending}
+              onClick={() => removeIconMutation.mutate()}
+              data-testid="button-remove-group-icon"
+            >
+              Remove
+            </Button>
+          )}
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="group-name">Group Name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              maxLength={100}
+              placeholder="Unnamed group"
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-group-name"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={renameMutation.isPending} data-testid="button-save-group">
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { formatDistanceToNow } from "date-fns";
 import UserAvatar from "./user-avatar";
 import type { ServerMember, User } from "@shared/schema";
 
@@ -23,6 +24,12 @@ export default function MembersList({ members, connectedPeers }: MembersListProp
     }
   };
 
+  const getLastSeen = (user: User) => {
+    return user.lastSeenAt
+      ? `Last seen ${formatDistanceToNow(new Date(user.lastSeenAt), { addSuffix: true })}`
+      : "Offline";
+  };
+
   const getMemberActivity = (member: ServerMember & { user: User }) => {
     if (connectedPeers.has(member.user.id)) {
       return "In Voice Channel";
@@ -96,8 +103,8 @@ export default function MembersList({ members, connectedPeers }: MembersListProp
                   <span className="text-sm font-medium text-muted-foreground">
                     {member.user.username}
                   </span>
-                  <div className="text-xs text-muted-foreground">
-                    Last seen recently
+                  <div className="text-xs text-muted-foreground" data-testid={`text-last-seen-${member.user.username}`}>
+                    {getLastSeen(member.user)}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,76 @@
+import { Download, FileText } from "lucide-react";
+import { attachmentUrl, type Attachment } from "@shared/schema";
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[] | null;
+  scope: "messages" | "direct-messages" | "group-messages";
+  messageId: string;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Images, video and audio preview inline; other files render as a download card
+export default function MessageAttachments({ attachments, scope, messageId }: MessageAttachmentsProps) {
+  if (!attachments || attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 flex flex-col items-start space-y-2" data-testid={`attachments-${messageId}`}>
+      {attachments.map((attachment) => {
+        const url = attachmentUrl(scope, messageId, attachment);
+        if (attachment.contentType.startsWith("image/")) {
+          return (
+            <a key={attachment.id} href={url} target="_blank" rel="noreferrer" data-testid={`attachment-${attachment.id}`}>
+              <img
+                src={url}
+                alt={attachment.name}
+                width={attachment.width ?? undefined}
+                height={attachment.height ?? undefined}
+                loading="lazy"
+                className="max-w-sm max-h-80 w-auto h-auto rounded border border-border object-contain"
+              />
+            </a>
+          );
+        }
+        if (attachment.contentType.startsWith("video/")) {
+          return (
+            <video
+              key={attachment.id}
+              src={url}
+              controls
+              preload="metadata"
+              className="max-w-sm max-h-80 rounded border border-border"
+              data-testid={`attachment-${attachment.id}`}
+            />
+          );
+        }
+        if (attachment.contentType.startsWith("audio/")) {
+          return (
+            <audio key={attachment.id} src={url} controls preload="metadata" data-testid={`attachment-${attachment.id}`} />
+          );
+        }
+        return (
+          <a
+            key={attachment.id}
+            href={url}
+            download={attachment.name}
+            className="flex items-center space-x-3 px-3 py-2 rounded border border-border bg-secondary hover:bg-secondary/80 max-w-sm"
+            data-testid={`attachment-${attachment.id}`}
+          >
+            <FileText className="w-6 h-6 text-muted-foreground shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-primary truncate">{attachment.name}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+            </div>
+            <Download className="w-4 h-4 text-muted-foreground shrink-0" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { ReactNode } from "react";
+import UserAvatar from "./user-avatar";
+import type { PublicUser } from "@shared/schema";
+
+interface MessageRowProps {
+  author: PublicUser;
+  createdAt: Date | string | null;
+  className?: string;
+  toolbar?: ReactNode; // hover actions over the row's top right corner
+  preface?: ReactNode; // above the author line, e.g. a reply preview
+  badges?: ReactNode; // after the timestamp
+  children: ReactNode;
+  "data-testid"?: string;
+}
+
+// Avatar, author line and body, shared by channel and direct message histories
+export default function MessageRow({
+  author,
+  createdAt,
+  className = "",
+  toolbar,
+  preface,
+  badges,
+  children,
+  "data-testid": testId,
+}: MessageRowProps) {
+  return (
+    <div className={`group relative flex items-start space-x-3 message-hover p-2 rounded ${className}`} data-testid={testId}>
+      {toolbar}
+      <UserAvatar user={author} size="lg" />
+      <div className="flex-1">
+        {preface}
+        <div className="flex items-center space-x-2 mb-1">
+          <span className="font-medium text-foreground" data-testid="text-message-author">
+            {author.username}
+          </span>
+          <span className="text-xs text-muted-foreground" data-testid="text-message-time">
+            {new Date(createdAt!).toLocaleTimeString()}
+          </span>
+          {badges}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { useTogglePin } from "@/hooks/use-pins";
+import UserAvatar from "./user-avatar";
+import { PinOff } from "lucide-react";
+import { MAX_PINS_PER_CHANNEL, type Channel, type MessageWithAuthor } from "@shared/schema";
+
+interface PinnedMessagesProps {
+  channel: Channel;
+  canManageMessages: boolean;
+  onJumpToMessage: (messageId: string) => void;
+  children: ReactNode;
+}
+
+// Wraps the header trigger (passed as children) with a popover listing the channel's pins
+export default function PinnedMessages({ channel, canManageMessages, onJumpToMessage, children }: PinnedMessagesProps) {
+  const [open, setOpen] = useState(false);
+  const togglePin = useTogglePin();
+
+  const { data: pins = [], isLoading } = useQuery<MessageWithAuthor[]>({
+    queryKey: ["/api/channels", channel.id, "pins"],
+    enabled: open,
+  });
+
+  const jump = (messageId: string) => {
+    setOpen(false);
+    onJumpToMessage(messageId);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="end" data-testid="pinned-messages">
+        <div className="px-4 py-3 flex items-center justify-between border-b border-border">
+          <span className="font-semibold text-foreground">Pinned Messages</span>
+          <span className="text-xs text-muted-foreground" data-testid="text-pin-count">
+            {pins.length}/{MAX_PINS_PER_CHANNEL}
+          </span>
+        </div>
+        <div className="max-h-96 overflow-y-auto p-2 space-y-2">
+          {isLoading ? (
+            <p className="p-2 text-sm text-muted-foreground">Loading pins...</p>
+          ) : pins.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">
+              This channel doesn't have any pinned messages yet.
+            </p>
+          ) : (
+            pins.map((message) => (
+              <div
+                key={message.id}
+                className="group relative flex items-start space-x-2 p-2 rounded border border-border bg-secondary/40"
+                data-testid={`pinned-message-${message.id}`}
+              >
+                <UserAvatar user={message.author} size="sm" showStatus={false} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-foreground">{message.author.username}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(message.createdAt!).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-foreground break-words line-clamp-3">{message.content}</p>
+                </div>
+                <div className="absolute right-1 top-1 hidden group-hover:flex items-center space-x-1">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => jump(message.id)}
+                    data-testid={`button-jump-to-pin-${message.id}`}
+                  >
+                    Jump
+                  </Button>
+                  {canManageMessages && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-6 h-6"
+                      onClick={() => togglePin(message, true)}
+                      data-testid={`button-unpin-${message.id}`}
+                    >
+                      <PinOff className="w-3.5 h-3.5 text-muted-foreground" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
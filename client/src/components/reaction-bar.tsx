@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import EmojiPicker from "./emoji-picker";
+import { useToggleReaction } from "@/hooks/use-reactions";
+import { SmilePlus } from "lucide-react";
+import type { MessageWithAuthor } from "@shared/schema";
+
+interface ReactionBarProps {
+  message: MessageWithAuthor;
+  userId: string;
+  canReact: boolean;
+  // Keep the add button around (revealed on hover) even before the first reaction
+  alwaysShowPicker?: boolean;
+}
+
+export default function ReactionBar({ message, userId, canReact, alwaysShowPicker = false }: ReactionBarProps) {
+  const toggleReaction = useToggleReaction();
+  const reactions = message.reactions ?? [];
+
+  if (reactions.length === 0 && !(alwaysShowPicker && canReact)) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1" data-testid={`reactions-${message.id}`}>
+      {reactions.map((reaction) => {
+        const reacted = reaction.userIds.includes(userId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            className={`flex items-center space-x-1 px-1.5 h-6 rounded border text-xs ${
+              reacted ? "border-primary bg-primary/20 text-foreground" : "border-border bg-secondary text-muted-foreground"
+            }`}
+            disabled={!reacted && !canReact}
+            onClick={() => toggleReaction(message, reaction.emoji, reacted)}
+            data-testid={`reaction-${message.id}-${reaction.emoji}`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.count}</span>
+          </button>
+        );
+      })}
+      {canReact && (
+        <EmojiPicker onSelect={(emoji) => toggleReaction(message, emoji, false)}>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`w-6 h-6 ${reactions.length === 0 ? "opacity-0 group-hover:opacity-100" : ""}`}
+            data-testid={`button-add-reaction-${message.id}`}>
+            <SmilePlus className="w-3.5 h-3.5 text-muted-foreground" />
+          </Button>
+        </EmojiPicker>
+      )}
+    </div>
+  );
+}
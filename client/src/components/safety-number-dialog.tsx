@@ -0,0 +1,86 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { DirectMessageCrypto } from "@/lib/e2ee";
+import { ShieldCheck } from "lucide-react";
+import type { PublicUser } from "@shared/schema";
+
+interface SafetyNumberDialogProps {
+  userId: string;
+  peer: PublicUser;
+  verified: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Both users see the same number; comparing it in person or over a call proves that
+// no one has slipped their own device keys into the conversation
+export default function SafetyNumberDialog({ userId, peer, verified, open, onOpenChange }: SafetyNumberDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: safetyNumber, isLoading } = useQuery({
+    queryKey: ["e2ee", userId, "safety-number", peer.id],
+    queryFn: () => DirectMessageCrypto.forUser(userId).safetyNumber(peer.id),
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const setVerified = async (value: boolean) => {
+    try {
+      await DirectMessageCrypto.forUser(userId).setVerified(peer.id, value ? safetyNumber : undefined);
+      queryClient.invalidateQueries({ queryKey: ["e2ee", userId, "peers", peer.id] });
+    } catch (error: any) {
+      toast({
+        title: "Failed to save verification",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Safety number with {peer.username}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Compare these numbers with {peer.username}. If they match on both screens, your messages can
+          only be read on your devices and theirs. The number changes when either of you adds or
+          removes a device.
+        </p>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : safetyNumber ? (
+          <div className="grid grid-cols-4 gap-2 font-mono text-lg text-center py-2" data-testid="text-safety-number">
+            {safetyNumber.split(" ").map((group, index) => (
+              <span key={index}>{group}</span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-destructive">Could not load the safety number.</p>
+        )}
+        <div className="flex items-center justify-between">
+          {verified ? (
+            <span className="flex items-center text-sm text-green-500" data-testid="text-safety-verified">
+              <ShieldCheck className="w-4 h-4 mr-1" />
+              Verified
+            </span>
+          ) : (
+            <span className="text-sm text-muted-foreground">Not verified</span>
+          )}
+          <Button
+            variant={verified ? "outline" : "default"}
+            disabled={!safetyNumber}
+            onClick={() => setVerified(!verified)}
+            data-testid="button-toggle-verified"
+          >
+            {verified ? "Clear verification" : "Mark as verified"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
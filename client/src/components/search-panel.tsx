@@ -0,0 +1,163 @@
+import { useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import UserAvatar from "./user-avatar";
+import { Hash, MessageCircle, Search, X } from "lucide-react";
+import { parseSearchQuery, splitWords, SEARCH_RESULT_LIMIT } from "@shared/search";
+import type { SearchResult } from "@shared/schema";
+
+interface SearchPanelProps {
+  query: string;
+  userId: string;
+  serverId?: string;
+  onClose: () => void;
+  onOpenResult: (result: SearchResult) => void;
+}
+
+function HighlightedText({ text, terms }: { text: string; terms: Set<string> }) {
+  return (
+    <>
+      {splitWords(text).map((part, index) =>
+        index % 2 === 1 && terms.has(part.toLowerCase()) ? (
+          <mark key={index} className="bg-primary/30 text-foreground rounded-sm">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchPanel({ query, userId, serverId, onClose, onOpenResult }: SearchPanelProps) {
+  const [scope, setScope] = useState<"server" | "all">(serverId ? "server" : "all");
+  const scopedServerId = scope === "server" ? serverId : undefined;
+
+  const terms = useMemo(() => {
+    const parsed = parseSearchQuery(query);
+    return new Set("query" in parsed ? parsed.query.terms : []);
+  }, [query]);
+
+  const {
+    data,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/search", query, scopedServerId],
+    queryFn: async ({ pageParam }): Promise<SearchResult[]> => {
+      const params = new URLSearchParams({ q: query, offset: String(pageParam) });
+      if (scopedServerId) params.set("serverId", scopedServerId);
+      const response = await fetch(`/api/search?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message ?? response.statusText);
+      }
+      return response.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length < SEARCH_RESULT_LIMIT ? undefined : pages.reduce((count, page) => count + page.length, 0),
+    staleTime: 0,
+  });
+
+  const results = useMemo(() => data?.pages.flat() ?? [], [data]);
+
+  return (
+    <div className="w-96 bg-card flex flex-col border-l border-border" data-testid="search-panel">
+      {/* Search Header */}
+      <div className="h-12 px-4 flex items-center justify-between border-b border-border">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Search className="w-4 h-4 text-muted-foreground shrink-0" />
+          <span className="font-semibold text-foreground truncate" data-testid="text-search-query">{query}</span>
+        </div>
+        <Button variant="ghost" size="icon" className="w-8 h-8" onClick={onClose} data-testid="button-close-search">
+          <X className="w-4 h-4 text-muted-foreground" />
+        </Button>
+      </div>
+
+      {serverId && (
+        <div className="px-4 py-2 flex items-center space-x-1 border-b border-border">
+          <Button
+            variant={scope === "server" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setScope("server")}
+            data-testid="button-search-scope-server"
+          >
+            This server
+          </Button>
+          <Button
+            variant={scope === "all" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setScope("all")}
+            data-testid="button-search-scope-all"
+          >
+            Everywhere
+          </Button>
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Searching...</p>
+        ) : error ? (
+          <p className="text-xs text-destructive" data-testid="text-search-error">{(error as Error).message}</p>
+        ) : results.length === 0 ? (
+          <p className="text-xs text-muted-foreground" data-testid="text-search-empty">No results found.</p>
+        ) : (
+          results.map((result) => {
+            const author = result.type === "message" ? result.message.author : result.message.sender;
+            const location = result.type === "message"
+              ? result.channel.name
+              : `@${(result.message.senderId === userId ? result.message.recipient : result.message.sender).username}`;
+            const openable = result.type === "message";
+            return (
+              <button
+                key={result.message.id}
+                type="button"
+                className={`w-full text-left p-2 rounded border border-border bg-secondary/40 ${openable ? "hover:bg-secondary" : "cursor-default"}`}
+                onClick={() => openable && onOpenResult(result)}
+                data-testid={`search-result-${result.message.id}`}
+              >
+                <div className="flex items-center space-x-1 text-xs text-muted-foreground mb-1">
+                  {result.type === "message" ? <Hash className="w-3 h-3" /> : <MessageCircle className="w-3 h-3" />}
+                  <span className="truncate">{location}</span>
+                </div>
+                <div className="flex items-start space-x-2">
+                  <UserAvatar user={author} size="sm" showStatus={false} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-foreground">{author.username}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(result.message.createdAt!).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-foreground break-words">
+                      <HighlightedText text={result.message.content} terms={terms} />
+                    </p>
+                  </div>
+                </div>
+              </button>
+            );
+          })
+        )}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-load-more-results"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more results"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import UserAvatar from "./user-avatar";
+import { Trash2, UserMinus, Ban } from "lucide-react";
+import {
+  PERMISSION_NAMES,
+  PERMISSION_LABELS,
+  fromPermissionBits,
+  hasPermissionBit,
+  builtinRoleRank,
+  type Permission,
+} from "@shared/permissions";
+import type { ServerWithChannels, Role, User } from "@shared/schema";
+
+interface ServerSettingsProps {
+  server: ServerWithChannels;
+  user: User;
+  permissions: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ServerSettings({ server, user, permissions, open, onOpenChange }: ServerSettingsProps) {
+  const [roleName, setRoleName] = useState("");
+  const [roleColor, setRoleColor] = useState("#5865f2");
+  const [rolePermissions, setRolePermissions] = useState<Permission[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManageRoles = hasPermissionBit(permissions, "manageRoles");
+  const canKick = hasPermissionBit(permissions, "kickMembers");
+  const canBan = hasPermissionBit(permissions, "banMembers");
+  const me = server.members.find(m => m.userId === user.id);
+  const myRank = builtinRoleRank(me?.role ?? "member");
+
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/servers", server.id, "roles"],
+    enabled: open,
+  });
+
+  const refreshServer = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/servers", server.id] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createRoleMutation = useMutation({
+    mutationFn: async (data: { name: string; color: string; permissions: Permission[] }) => {
+      const response = await apiRequest("POST", `/api/servers/${server.id}/roles`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshServer();
+      setRoleName("");
+      setRolePermissions([]);
+    },
+    onError: onError("Failed to create role"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ roleId, permissions }: { roleId: string; permissions: Permission[] }) => {
+      const response = await apiRequest("PATCH", `/api/servers/${server.id}/roles/${roleId}`, { permissions });
+      return response.json();
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to update role"),
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (roleId: string) => {
+      await apiRequest("DELETE", `/api/servers/${server.id}/roles/${roleId}`);
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to delete role"),
+  });
+
+  const memberRoleMutation = useMutation({
+    mutationFn: async ({ userId, roleId, assigned }: { userId: string; roleId: string; assigned: boolean }) => {
+      await apiRequest(assigned ? "PUT" : "DELETE", `/api/servers/${server.id}/members/${userId}/roles/${roleId}`);
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to update member roles"),
+  });
+
+  const builtinRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      await apiRequest("PATCH", `/api/servers/${server.id}/members/${userId}`, { role });
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to change role"),
+  });
+
+  const kickMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/servers/${server.id}/members/${userId}`);
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to kick member"),
+  });
+
+  const banMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/servers/${server.id}/bans`, { userId });
+    },
+    onSuccess: refreshServer,
+    onError: onError("Failed to ban member"),
+  });
+
+  const toggleNewRolePermission = (permission: Permission, checked: boolean) => {
+    setRolePermissions(prev => checked ? [...prev, permission] : prev.filter(p => p !== permission));
+  };
+
+  const toggleRolePermission = (role: Role, permission: Permission, checked: boolean) => {
+    const current = fromPermissionBits(role.permissions);
+    updateRoleMutation.mutate({
+      roleId: role.id,
+      permissions: checked ? [...current, permission] : current.filter(p => p !== permission),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{server.name} Settings</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="roles">
+          <TabsList>
+            <TabsTrigger value="roles" data-testid="tab-roles">Roles</TabsTrigger>
+            <TabsTrigger value="members" data-testid="tab-members">Members</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="roles" className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {canManageRoles && (
+              <div className="space-y-3 p-3 rounded border border-border">
+                <div className="flex items-end space-x-2">
+                  <div className="flex-1">
+                    <Label htmlFor="role-name">New Role</Label>
+                    <Input
+                      id="role-name"
+                      value={roleName}
+                      onChange={(e) => setRoleName(e.target.value)}
+                      placeholder="Role name"
+                      data-testid="input-role-name"
+                    />
+                  </div>
+                  <Input
+                    type="color"
+                    value={roleColor}
+                    onChange={(e) => setRoleColor(e.target.value)}
+                    className="w-12 p-1"
+                    data-testid="input-role-color"
+                  />
+                  <Button
+                    onClick={() => createRoleMutation.mutate({ name: roleName.trim(), color: roleColor, permissions: rolePermissions })}
+                    disabled={!roleName.trim() || createRoleMutation.isPending}
+                    data-testid="button-create-role"
+                  >
+                    Create
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {PERMISSION_NAMES.map((permission) => (
+                    <label key={permission} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={rolePermissions.includes(permission)}
+                        disabled={!hasPermissionBit(permissions, permission)}
+                        onCheckedChange={(checked) => toggleNewRolePermission(permission, checked === true)}
+                        data-testid={`checkbox-new-role-${permission}`}
+                      />
+                      <span>{PERMISSION_LABELS[permission]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {roles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No custom roles yet.</p>
+            ) : (
+              roles.map((role) => (
+                <div key={role.id} className="p-3 rounded border border-border space-y-2" data-testid={`role-${role.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: role.color ?? undefined }} />
+                      <span className="font-medium text-foreground">{role.name}</span>
+                    </div>
+                    {canManageRoles && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-8 h-8"
+                        onClick={() => deleteRoleMutation.mutate(role.id)}
+                        data-testid={`button-delete-role-${role.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {PERMISSION_NAMES.map((permission) => (
+                      <label key={permission} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={hasPermissionBit(role.permissions, permission)}
+                          disabled={!canManageRoles || !hasPermissionBit(permissions, permission)}
+                          onCheckedChange={(checked) => toggleRolePermission(role, permission, checked === true)}
+                        />
+                        <span>{PERMISSION_LABELS[permission]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="members" className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {server.members.map((member) => {
+              const manageable = member.userId !== user.id && builtinRoleRank(member.role) < myRank;
+              return (
+                <div
+                  key={member.id}
+                  className="flex items-center space-x-3 p-2 rounded border border-border"
+                  data-testid={`settings-member-${member.user.username}`}
+                >
+                  <UserAvatar user={member.user} size="md" />
+                  <div className="flex-1 space-y-1">
+                    <span className="text-sm font-medium text-foreground">{member.user.username}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {roles.map((role) => {
+                        const assigned = member.roleIds.includes(role.id);
+                        return (
+                          <Badge
+                            key={role.id}
+                            variant={assigned ? "default" : "outline"}
+                            className={canManageRoles ? "cursor-pointer" : undefined}
+                            style={assigned && role.color ? { backgroundColor: role.color } : undefined}
+                            onClick={() => canManageRoles && memberRoleMutation.mutate({ userId: member.userId, roleId: role.id, assigned: !assigned })}
+                            data-testid={`badge-member-role-${role.id}`}
+                          >
+                            {role.name}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  {member.role === "owner" ? (
+                    <span className="text-xs text-muted-foreground">Owner</span>
+                  ) : (
+                    <Select
+                      value={member.role}
+                      disabled={!canManageRoles || !manageable}
+                      onValueChange={(role) => builtinRoleMutation.mutate({ userId: member.userId, role })}
+                    >
+                      <SelectTrigger className="w-32" data-testid={`select-member-role-${member.user.username}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(["admin", "moderator", "member"] as const).map((role) => (
+                          <SelectItem key={role} value={role} disabled={builtinRoleRank(role) >= myRank}>
+                            {role}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {canKick && manageable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-8 h-8"
+                      onClick={() => kickMutation.mutate(member.userId)}
+                      data-testid={`button-kick-${member.user.username}`}
+                    >
+                      <UserMinus className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  )}
+                  {canBan && manageable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-8 h-8"
+                      onClick={() => banMutation.mutate(member.userId)}
+                      data-testid={`button-ban-${member.user.username}`}
+                    >
+                      <Ban className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,7 +13,7 @@ import type { Server, User } from "@shared/schema";
 interface ServerSidebarProps {
   servers: Server[];
   selectedServer: Server | null;
-  onServerSelect: (server: Server) => void;
+  onServerSelect: (server: Server | null) => void;
   isLoading: boolean;
   user: User;
 }
@@ -34,7 +34,7 @@ export default function ServerSidebar({
   const queryClient = useQueryClient();
 
   const createServerMutation = useMutation({
-    mutationFn: async (data: { name: string; description?: string; ownerId: string }) => {
+    mutationFn: async (data: { name: string; description?: string }) => {
       const response = await apiRequest("POST", "/api/servers", data);
       return response.json();
     },
@@ -59,7 +59,7 @@ export default function ServerSidebar({
   });
 
   const joinServerMutation = useMutation({
-    mutationFn: async (data: { inviteCode: string; userId: string }) => {
+    mutationFn: async (data: { inviteCode: string }) => {
       const response = await apiRequest("POST", "/api/servers/join", data);
       return response.json();
     },
@@ -87,7 +87,6 @@ export default function ServerSidebar({
       createServerMutation.mutate({
         name: serverName.trim(),
         description: serverDescription.trim() || undefined,
-        ownerId: user.id,
       });
     }
   };
@@ -96,7 +95,6 @@ export default function ServerSidebar({
     if (inviteCode.trim()) {
       joinServerMutation.mutate({
         inviteCode: inviteCode.trim(),
-        userId: user.id,
       });
     }
   };
@@ -125,7 +123,7 @@ export default function ServerSidebar({
               variant="ghost"
               size="icon"
               className={`w-12 h-12 rounded-full server-icon ${!selectedServer ? 'active bg-primary text-primary-foreground' : 'bg-card text-card-foreground hover:bg-primary hover:text-primary-foreground'}`}
-              onClick={() => onServerSelect(null as any)}
+              onClick={() => onServerSelect(null)}
               data-testid="button-home"
             >
               <Home className="w-6 h-6" />
@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { mergeCachedMessage } from "@/hooks/use-realtime";
+import { useBlockedUserIds } from "@/hooks/use-blocking";
+import UserAvatar from "./user-avatar";
+import BlockedMessage from "./blocked-message";
+import ReactionBar from "./reaction-bar";
+import MessageAttachments from "./message-attachments";
+import { MessagesSquare, X } from "lucide-react";
+import { hasPermissionBit } from "@shared/permissions";
+import {
+  MESSAGE_PAGE_SIZE,
+  type MessageCursor,
+  type MessageWithAuthor,
+  type ThreadWithDetails,
+} from "@shared/schema";
+
+interface ThreadPanelProps {
+  threadId: string;
+  userId: string;
+  onClose: () => void;
+}
+
+export default function ThreadPanel({ threadId, userId, onClose }: ThreadPanelProps) {
+  const [messageContent, setMessageContent] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const blockedUserIds = useBlockedUserIds();
+
+  const { data: thread } = useQuery<ThreadWithDetails>({
+    queryKey: ["/api/threads", threadId],
+  });
+
+  const { data: permissionData } = useQuery<{ permissions: number }>({
+    queryKey: ["/api/channels", thread?.channelId, "permissions"],
+    enabled: !!thread?.channelId,
+  });
+  const canSend = hasPermissionBit(permissionData?.permissions ?? 0, "sendMessages");
+  const canReact = hasPermissionBit(permissionData?.permissions ?? 0, "addReactions");
+
+  const {
+    data: messagePages,
+    isLoading,
+    fetchPreviousPage,
+    hasPreviousPage,
+    isFetchingPreviousPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/threads", threadId, "messages"],
+    queryFn: async ({ pageParam }): Promise<MessageWithAuthor[]> => {
+      const params = new URLSearchParams(pageParam as Record<string, string>);
+      const response = await fetch(`/api/threads/${threadId}/messages?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    initialPageParam: {} as MessageCursor,
+    getPreviousPageParam: (firstPage): MessageCursor | undefined =>
+      firstPage.length < MESSAGE_PAGE_SIZE ? undefined : { before: firstPage[0].id },
+    getNextPageParam: (): MessageCursor | undefined => undefined,
+  });
+
+  const messages = useMemo(() => messagePages?.pages.flat() ?? [], [messagePages]);
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("POST", "/api/messages", {
+        content,
+        channelId: thread!.channelId,
+        threadId,
+      });
+      return response.json();
+    },
+    onSuccess: (message: MessageWithAuthor) => {
+      mergeCachedMessage(queryClient, message);
+      setMessageContent("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to send reply",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (messageContent.trim() && thread && canSend) {
+      sendMessageMutation.mutate(messageContent.trim());
+    }
+  };
+
+  const renderMessage = (message: MessageWithAuthor, reactable = true) => (
+    <div key={message.id} className="group flex items-start space-x-2" data-testid={`thread-message-${message.id}`}>
+      <UserAvatar user={message.author} size="sm" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium text-foreground">{message.author.username}</span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(message.createdAt!).toLocaleTimeString()}
+          </span>
+        </div>
+        {message.deletedAt ? (
+          <p className="text-sm text-muted-foreground italic">This message has been deleted.</p>
+        ) : (
+          <>
+            {(message.content || message.editedAt) && (
+              <p className="text-sm text-foreground break-words">
+                {message.content}
+                {message.editedAt && <span className="ml-1 text-xs text-muted-foreground">(edited)</span>}
+              </p>
+            )}
+            <MessageAttachments attachments={message.attachments} scope="messages" messageId={message.id} />
+          </>
+        )}
+        {reactable && !message.deletedAt && (
+          <ReactionBar message={message} userId={userId} canReact={canReact} alwaysShowPicker />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-80 bg-card flex flex-col border-l border-border" data-testid="thread-panel">
+      {/* Thread Header */}
+      <div className="h-12 px-4 flex items-center justify-between border-b border-border">
+        <div className="flex items-center space-x-2 min-w-0">
+          <MessagesSquare className="w-4 h-4 text-muted-foreground shrink-0" />
+          <span className="font-semibold text-foreground truncate" data-testid="text-thread-name">
+            {thread?.name ?? "Thread"}
+          </span>
+        </div>
+        <Button variant="ghost" size="icon" className="w-8 h-8" onClick={onClose} data-testid="button-close-thread">
+          <X className="w-4 h-4 text-muted-foreground" />
+        </Button>
+      </div>
+
+      {/* Participants */}
+      {thread && (
+        <div className="px-4 py-2 flex items-center space-x-1 border-b border-border" data-testid="thread-participants">
+          {thread.participants.slice(0, 8).map((participant) => (
+            <UserAvatar key={participant.id} user={participant} size="sm" />
+          ))}
+          <span className="text-xs text-muted-foreground pl-1">
+            {thread.participants.length} {thread.participants.length === 1 ? "participant" : "participants"}
+          </span>
+        </div>
+      )}
+
+      {/* Thread Messages */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {thread?.rootMessage && (
+          <div className="pb-3 border-b border-border">{renderMessage(thread.rootMessage, false)}</div>
+        )}
+        {hasPreviousPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => fetchPreviousPage()}
+            disabled={isFetchingPreviousPage}
+            data-testid="button-load-earlier-replies"
+          >
+            {isFetchingPreviousPage ? "Loading..." : "Load earlier replies"}
+          </Button>
+        )}
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading replies...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No replies yet. Start the conversation!</p>
+        ) : (
+          messages.map((message) => (
+            <BlockedMessage key={message.id} blocked={blockedUserIds.has(message.authorId)}>
+              {renderMessage(message)}
+            </BlockedMessage>
+          ))
+        )}
+      </div>
+
+      {/* Reply Input */}
+      <form onSubmit={handleSubmit} className="p-3">
+        <Input
+          value={messageContent}
+          onChange={(e) => setMessageContent(e.target.value)}
+          placeholder={canSend ? "Reply in thread" : "You do not have permission to send messages here"}
+          disabled={!canSend || !thread || sendMessageMutation.isPending}
+          data-testid="input-thread-message"
+        />
+      </form>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import type { User } from "@shared/schema";
+import type { PublicUser } from "@shared/schema";
 
 interface UserAvatarProps {
-  user: User;
+  user: PublicUser;
   size?: "sm" | "md" | "lg";
   showStatus?: boolean;
   className?: string;
@@ -1,17 +1,53 @@
-import { createContext, useContext } from "react";
+import { createContext, useContext, useCallback, type ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, AUTH_QUERY_KEY } from "@/lib/queryClient";
 import type { User } from "@shared/schema";
 
 export interface AuthContextType {
   user: User | null;
+  isLoading: boolean;
   setUser: (user: User | null) => void;
+  logout: () => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+
+  // Restore the signed-in user from the server session on load
+  const { data: user = null, isLoading } = useQuery<User | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: async (context) => {
+      const data = await getQueryFn<{ user: User } | null>({ on401: "returnNull" })(context);
+      return data?.user ?? null;
+    },
+  });
+
+  const setUser = useCallback((nextUser: User | null) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, nextUser);
+  }, [queryClient]);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } finally {
+      setUser(null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== AUTH_QUERY_KEY[0] });
+    }
+  }, [queryClient, setUser]);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, setUser, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) {
     throw new Error("useAuth must be used within AuthProvider");
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,45 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PublicUser } from "@shared/schema";
+
+// IDs of the users the signed-in user has blocked
+export function useBlockedUserIds(): Set<string> {
+  const { data: blocked } = useQuery<PublicUser[]>({
+    queryKey: ["/api/friends/blocked"],
+  });
+  return useMemo(() => new Set(blocked?.map(user => user.id)), [blocked]);
+}
+
+// Blocks or unblocks a user and refreshes the friends, requests and blocked lists
+export function useToggleBlock() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: ({ user, unblock }: { user: PublicUser; unblock: boolean }) =>
+      apiRequest(unblock ? "DELETE" : "PUT", `/api/friends/blocked/${user.id}`),
+    onSuccess: (_response, { user, unblock }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+      toast({
+        title: unblock ? "User unblocked" : "User blocked",
+        description: unblock
+          ? `${user.username} can message you again.`
+          : `${user.username} can no longer message you, and their messages are hidden.`,
+      });
+    },
+    onError: (error: any, { unblock }) => {
+      toast({
+        title: unblock ? "Failed to unblock user" : "Failed to block user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    toggle: (user: PublicUser, unblock: boolean) => mutation.mutate({ user, unblock }),
+    isPending: mutation.isPending,
+  };
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { DirectMessageCrypto, type DecryptedContent, type DecryptionFailure } from "@/lib/e2ee";
+import type { DirectMessage } from "@shared/schema";
+
+const FAILURE_DESCRIPTIONS: Record<DecryptionFailure, string> = {
+  "no-device": "Encrypted message. This browser has no encryption key.",
+  "not-for-device": "Encrypted message. It was sent before this device was set up.",
+  "unknown-sender-device": "Encrypted message. It was sent from a device that has since been removed.",
+  "sender-unavailable": "Encrypted message. The sender's keys could not be loaded.",
+  "corrupt": "Encrypted message. It could not be decrypted.",
+};
+
+export function describeDecryptionFailure(reason: DecryptionFailure): string {
+  return FAILURE_DESCRIPTIONS[reason];
+}
+
+// Decrypts a direct message for display; plain messages pass straight through.
+// Undefined while decryption is in progress.
+export function useDecryptedContent(
+  userId: string,
+  message: Pick<DirectMessage, "id" | "content" | "senderId" | "recipientId" | "encryption">,
+): DecryptedContent | undefined {
+  const { data } = useQuery({
+    queryKey: ["e2ee", userId, "messages", message.id],
+    queryFn: () => DirectMessageCrypto.forUser(userId).decrypt(message),
+    enabled: !!message.encryption,
+    staleTime: Infinity,
+  });
+  return message.encryption ? data : { ok: true, text: message.content };
+}
+
+// Whether the conversation with `peerId` can be and is encrypted, and whether the
+// safety number with them has been verified
+export function useConversationEncryption(userId: string, peerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["e2ee", userId, "peers", peerId];
+
+  const { data } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const crypto = DirectMessageCrypto.forUser(userId);
+      const [available, enabled, verified] = await Promise.all([
+        crypto.canEncryptTo(peerId),
+        crypto.isEncryptionEnabled(peerId),
+        crypto.isVerified(peerId).catch(() => false),
+      ]);
+      return { available, enabled, verified };
+    },
+    enabled: !!userId && !!peerId,
+  });
+
+  const setEnabled = useMutation({
+    mutationFn: (enabled: boolean) => DirectMessageCrypto.forUser(userId).setEncryptionEnabled(peerId, enabled),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error: any) => {
+      toast({
+        title: "Failed to change encryption",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    available: data?.available ?? false,
+    // Falls back to plain messages when the other side has no device to encrypt to
+    enabled: (data?.enabled ?? false) && (data?.available ?? false),
+    verified: data?.verified ?? false,
+    setEnabled: (enabled: boolean) => setEnabled.mutate(enabled),
+    refresh: () => queryClient.invalidateQueries({ queryKey }),
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { MessageStore } from "@/lib/message-store";
+import { persistChannelHistory } from "@/lib/message-sync";
+import { flushOutbox } from "@/lib/outbox";
+import type { MessageWithAuthor } from "@shared/schema";
+
+const OUTBOX_RETRY_MS = 15 * 1000;
+
+// Keeps loaded channel history in IndexedDB and posts messages queued while offline
+// whenever the server may be reachable again
+export function useOfflineHistory(socket: WebSocket | null, userId: string, relay: (message: MessageWithAuthor) => void) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+    return persistChannelHistory(queryClient, MessageStore.forUser(userId));
+  }, [queryClient, userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const store = MessageStore.forUser(userId);
+    const flush = () => {
+      flushOutbox(queryClient, store, relay).catch(error => console.error("Error sending queued messages:", error));
+    };
+
+    // A fresh socket means the server is back
+    flush();
+    const interval = setInterval(flush, OUTBOX_RETRY_MS);
+    window.addEventListener("online", flush);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", flush);
+    };
+  }, [queryClient, userId, socket, relay]);
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateCachedPins, replaceCachedMessage } from "@/hooks/use-realtime";
+import type { MessageWithAuthor, RealtimeMessage } from "@shared/schema";
+
+// Pins or unpins a channel message and refreshes the cached history and pin list
+export function useTogglePin() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: async ({ message, unpin }: { message: MessageWithAuthor; unpin: boolean }) => {
+      const response = await apiRequest(
+        unpin ? "DELETE" : "PUT",
+        `/api/channels/${message.channelId}/pins/${message.id}`,
+      );
+      return response.json();
+    },
+    onSuccess: (message: RealtimeMessage) => {
+      replaceCachedMessage(queryClient, message);
+      invalidateCachedPins(queryClient, message);
+    },
+    onError: (error: any, { unpin }) => {
+      toast({
+        title: unpin ? "Failed to unpin message" : "Failed to pin message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (message: MessageWithAuthor, unpin: boolean) => {
+    mutation.mutate({ message, unpin });
+  };
+}
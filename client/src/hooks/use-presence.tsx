@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import type { ActivityFrame } from "@shared/schema";
+
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "focus"] as const;
+
+// Tells the server when the user stops using this tab and when they come back; the server
+// shows them as away once every one of their tabs and devices has gone idle
+export function usePresence(socket: WebSocket | null) {
+  useEffect(() => {
+    if (!socket) return;
+
+    // A fresh socket counts as active
+    let idle = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const report = (nextIdle: boolean) => {
+      if (nextIdle === idle) return;
+      idle = nextIdle;
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: "activity", idle } as ActivityFrame));
+      }
+    };
+    const handleActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => report(true), IDLE_AFTER_MS);
+      report(false);
+    };
+
+    handleActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [socket]);
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { updateCachedReactions } from "@/hooks/use-realtime";
+import type { MessageWithAuthor, ReactionSummary } from "@shared/schema";
+
+// Adds or removes the current user's reaction and applies the returned totals to the cache
+export function useToggleReaction() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: async ({ message, emoji, remove }: { message: MessageWithAuthor; emoji: string; remove: boolean }) => {
+      const response = await apiRequest(
+        remove ? "DELETE" : "PUT",
+        `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`,
+      );
+      return response.json();
+    },
+    onSuccess: (reactions: ReactionSummary[], { message }) => {
+      updateCachedReactions(queryClient, message, reactions);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update reaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (message: MessageWithAuthor, emoji: string, remove: boolean) => {
+    mutation.mutate({ message, emoji, remove });
+  };
+}
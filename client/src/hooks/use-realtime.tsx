@@ -0,0 +1,359 @@
+import { useEffect } from "react";
+import { useQueryClient, type InfiniteData, type QueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { AUTH_QUERY_KEY } from "@/lib/queryClient";
+import type { RelayedMessage } from "@shared/p2p";
+import {
+  MESSAGE_PAGE_SIZE,
+  type DirectConversation,
+  type DirectMessageWithUsers,
+  type FriendRequests,
+  type GroupWithMembers,
+  type MessageCursor,
+  type MessageWithAuthor,
+  type PublicUser,
+  type RealtimeDirectMessage,
+  type RealtimeGroupMessage,
+  type RealtimeEvent,
+  type RealtimeMessage,
+  type ReactionSummary,
+  type SubscriptionFrame,
+  type ServerMemberWithUser,
+  type Thread,
+} from "@shared/schema";
+
+export type MessagePages = InfiniteData<MessageWithAuthor[], MessageCursor>;
+export type GroupMessagePages = InfiniteData<RealtimeGroupMessage[], MessageCursor>;
+
+// Thread replies live in their own history, separate from the channel's
+export function messagesQueryKey(message: Pick<RealtimeMessage, "channelId" | "threadId">) {
+  return message.threadId
+    ? ["/api/threads", message.threadId, "messages"]
+    : ["/api/channels", message.channelId, "messages"];
+}
+
+// Turns a message relayed by a peer into one the chat can show, taking the author from the
+// cached member lists and the quoted reply from the cached history instead of from the peer.
+// Returns undefined when the author is not a known member. Details the peer does not send,
+// like reactions, are left out so a merge keeps whatever the cache already has.
+export function fromRelayedMessage(queryClient: QueryClient, relayed: RelayedMessage): MessageWithAuthor | undefined {
+  const findAuthor = (userId: string) => queryClient
+    .getQueriesData<ServerMemberWithUser[]>({ queryKey: ["/api/servers"] })
+    .filter(([queryKey]) => queryKey[2] === "members")
+    .flatMap(([, members]) => members ?? [])
+    .find(member => member.userId === userId)?.user;
+
+  const author = findAuthor(relayed.authorId);
+  if (!author) return undefined;
+
+  const message: MessageWithAuthor = {
+    ...relayed,
+    attachments: relayed.attachments ?? null,
+    editedAt: relayed.editedAt ?? null,
+    deletedAt: relayed.deletedAt ?? null,
+    replyToId: relayed.replyToId ?? null,
+    threadId: relayed.threadId ?? null,
+    pinnedAt: relayed.pinnedAt ?? null,
+    pinnedById: relayed.pinnedById ?? null,
+    nonce: relayed.nonce ?? null,
+    author,
+  };
+
+  const quoted = relayed.replyToId && queryClient
+    .getQueryData<MessagePages>(messagesQueryKey(message))
+    ?.pages.flat().find(m => m.id === relayed.replyToId);
+  if (quoted) {
+    message.replyTo = {
+      id: quoted.id,
+      content: quoted.content,
+      authorId: quoted.authorId,
+      deletedAt: quoted.deletedAt,
+      author: quoted.author,
+    };
+  }
+  return message;
+}
+
+// Copies from the server and signed peer copies count as verified
+function isUnverified(message: RealtimeMessage | MessageWithAuthor): boolean {
+  return "unverified" in message && !!message.unverified;
+}
+
+// Swaps an updated message into its cached history, along with any reply previews quoting it.
+// A copy that could not be verified never replaces one that was.
+export function replaceCachedMessage(queryClient: QueryClient, message: RealtimeMessage | MessageWithAuthor) {
+  queryClient.setQueryData<MessagePages>(
+    messagesQueryKey(message),
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => page.map(m => {
+        if (m.id === message.id) {
+          if (isUnverified(message) && !m.unverified) return m;
+          return { ...m, unverified: undefined, ...message } as MessageWithAuthor;
+        }
+        if (m.replyTo?.id === message.id) {
+          return { ...m, replyTo: { ...m.replyTo, content: message.content, deletedAt: message.deletedAt } };
+        }
+        return m;
+      })),
+    },
+  );
+}
+
+// Replaces the aggregated reactions shown under a message
+export function updateCachedReactions(
+  queryClient: QueryClient,
+  message: Pick<RealtimeMessage, "id" | "channelId" | "threadId">,
+  reactions: ReactionSummary[],
+) {
+  queryClient.setQueryData<MessagePages>(
+    messagesQueryKey(message),
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => page.map(m => m.id === message.id ? { ...m, reactions } : m)),
+    },
+  );
+}
+
+// Pinned messages are listed separately; any change to a channel message may affect them
+export function invalidateCachedPins(queryClient: QueryClient, message: Pick<RealtimeMessage, "channelId" | "threadId">) {
+  if (!message.threadId) {
+    queryClient.invalidateQueries({ queryKey: ["/api/channels", message.channelId, "pins"] });
+  }
+}
+
+// Refreshes the reply count shown on a thread's root message
+export function updateCachedThread(queryClient: QueryClient, thread: Thread) {
+  queryClient.setQueryData<MessagePages>(
+    ["/api/channels", thread.channelId, "messages"],
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => page.map(m => m.id === thread.rootMessageId ? { ...m, thread } : m)),
+    },
+  );
+  queryClient.invalidateQueries({ queryKey: ["/api/threads", thread.id], exact: true });
+}
+
+// Adds a message to its cached history unless it is already there.
+// The same message can arrive from the POST response, the server push and a P2P peer.
+// Windows opened around older history are left alone; they pick it up when paged forward.
+export function mergeCachedMessage(queryClient: QueryClient, message: RealtimeMessage | MessageWithAuthor) {
+  queryClient.setQueryData<MessagePages>(
+    messagesQueryKey(message),
+    (data) => {
+      if (!data || data.pages.length === 0) return data;
+      const existing = data.pages.flat().find(m => m.id === message.id);
+      if (existing) {
+        // A verified copy takes over from an unverified one it arrived after
+        if (!existing.unverified || isUnverified(message)) return data;
+        return {
+          ...data,
+          pages: data.pages.map(page => page.map(m => m.id === message.id ? { ...m, unverified: undefined, ...message } as MessageWithAuthor : m)),
+        };
+      }
+
+      // A message sent while offline is shown under its nonce until the server confirms it
+      const { nonce } = message;
+      if (nonce && data.pages.some(page => page.some(m => m.id === nonce))) {
+        return {
+          ...data,
+          pages: data.pages.map(page => page.map(m => m.id === nonce ? { ...m, unverified: undefined, ...message } as MessageWithAuthor : m)),
+        };
+      }
+
+      const lastPage = data.pages[data.pages.length - 1];
+      const lastParam = data.pageParams[data.pageParams.length - 1] ?? {};
+      const reachesPresent = !lastParam.around && (!lastParam.after || lastPage.length < MESSAGE_PAGE_SIZE);
+      if (!reachesPresent) return data;
+
+      const pages = [...data.pages];
+      pages[pages.length - 1] = [...lastPage, message as MessageWithAuthor].sort(
+        (a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime(),
+      );
+      return { ...data, pages };
+    },
+  );
+}
+
+// Takes a message out of its cached history entirely, e.g. a pending send the server refused
+export function dropCachedMessage(queryClient: QueryClient, message: Pick<RealtimeMessage, "id" | "channelId" | "threadId">) {
+  queryClient.setQueryData<MessagePages>(
+    messagesQueryKey(message),
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => page.filter(m => m.id !== message.id)),
+    },
+  );
+}
+
+export function mergeCachedDirectMessage(queryClient: QueryClient, userId: string, message: RealtimeDirectMessage) {
+  const otherUserId = message.senderId === userId ? message.recipientId : message.senderId;
+  queryClient.setQueryData<DirectMessageWithUsers[]>(
+    ["/api/direct-messages", otherUserId],
+    (messages) => {
+      if (!messages || messages.some(m => m.id === message.id)) return messages;
+      return [...messages, message as DirectMessageWithUsers];
+    },
+  );
+  // The conversation list is ordered by latest message, so the conversation moves to the top
+  queryClient.setQueryData<DirectConversation[]>(
+    ["/api/direct-messages/conversations"],
+    (conversations) => conversations && [
+      {
+        user: message.senderId === userId ? message.recipient : message.sender,
+        lastMessage: message,
+      },
+      ...conversations.filter(c => c.user.id !== otherUserId),
+    ],
+  );
+}
+
+// Groups are listed most recently active first
+function groupActivity(group: GroupWithMembers): number {
+  return new Date(group.lastMessageAt ?? group.createdAt!).getTime();
+}
+
+// Stores a group's new state; a group the user is no longer a member of is dropped
+export function updateCachedGroup(queryClient: QueryClient, userId: string, group: GroupWithMembers) {
+  const isMember = group.members.some(member => member.id === userId);
+  queryClient.setQueryData<GroupWithMembers[]>(
+    ["/api/groups"],
+    (groups) => {
+      if (!groups) return groups;
+      const others = groups.filter(g => g.id !== group.id);
+      return isMember ? [...others, group].sort((a, b) => groupActivity(b) - groupActivity(a)) : others;
+    },
+  );
+  if (!isMember) {
+    queryClient.removeQueries({ queryKey: ["/api/groups", group.id] });
+  }
+}
+
+export function mergeCachedGroupMessage(queryClient: QueryClient, message: RealtimeGroupMessage) {
+  queryClient.setQueryData<GroupMessagePages>(
+    ["/api/groups", message.groupId, "messages"],
+    (data) => {
+      if (!data || data.pages.length === 0) return data;
+      if (data.pages.some(page => page.some(m => m.id === message.id))) return data;
+
+      const pages = [...data.pages];
+      pages[pages.length - 1] = [...pages[pages.length - 1], message];
+      return { ...data, pages };
+    },
+  );
+  queryClient.setQueryData<GroupWithMembers[]>(
+    ["/api/groups"],
+    (groups) => {
+      const group = groups?.find(g => g.id === message.groupId);
+      if (!groups || !group) return groups;
+      return [{ ...group, lastMessageAt: message.createdAt }, ...groups.filter(g => g !== group)];
+    },
+  );
+}
+
+type Presence = Pick<PublicUser, "status" | "lastSeenAt">;
+
+// Writes a user's new presence into every cached list that shows them: the signed-in user,
+// friends and requests, server member lists, DM conversations and group members
+function updateCachedPresence(queryClient: QueryClient, userId: string, presence: Presence) {
+  const apply = <T extends { id: string }>(user: T): T => user.id === userId ? { ...user, ...presence } : user;
+
+  queryClient.setQueryData<PublicUser | null>(AUTH_QUERY_KEY, (user) => user && apply(user));
+  queryClient.setQueryData<PublicUser[]>(["/api/friends"], (friends) => friends?.map(apply));
+  queryClient.setQueryData<FriendRequests>(
+    ["/api/friends/requests"],
+    (requests) => requests && {
+      incoming: requests.incoming.map(request => ({ ...request, user: apply(request.user) })),
+      outgoing: requests.outgoing.map(request => ({ ...request, user: apply(request.user) })),
+    },
+  );
+  queryClient.setQueriesData<ServerMemberWithUser[]>(
+    { predicate: (query) => query.queryKey[0] === "/api/servers" && query.queryKey[2] === "members" },
+    (members) => members?.map(member => member.userId === userId ? { ...member, user: apply(member.user) } : member),
+  );
+  queryClient.setQueryData<DirectConversation[]>(
+    ["/api/direct-messages/conversations"],
+    (conversations) => conversations?.map(c => ({ ...c, user: apply(c.user) })),
+  );
+  queryClient.setQueryData<GroupWithMembers[]>(
+    ["/api/groups"],
+    (groups) => groups?.map(group => ({ ...group, members: group.members.map(apply) })),
+  );
+}
+
+function sendFrame(socket: WebSocket, frame: SubscriptionFrame) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+// Subscribes the /ws socket to the given channels and the user's direct messages,
+// and applies the events the server pushes back to the query cache
+export function useRealtime(socket: WebSocket | null, userId: string, channelIds: string[]) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const subscriptionKey = channelIds.join(",");
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      let frame: RealtimeEvent;
+      try {
+        frame = JSON.parse(event.data);
+      } catch (error) {
+        return;
+      }
+
+      switch (frame.type) {
+        case "message.created":
+          mergeCachedMessage(queryClient, frame.message);
+          break;
+        case "message.updated":
+        case "message.deleted":
+          replaceCachedMessage(queryClient, frame.message);
+          invalidateCachedPins(queryClient, frame.message);
+          break;
+        case "reaction.updated":
+          updateCachedReactions(queryClient, frame.message, frame.reactions);
+          break;
+        case "thread.updated":
+          updateCachedThread(queryClient, frame.thread);
+          break;
+        case "direct-message.created":
+          mergeCachedDirectMessage(queryClient, userId, frame.message);
+          break;
+        case "group.message.created":
+          mergeCachedGroupMessage(queryClient, frame.message);
+          break;
+        case "group.updated":
+          updateCachedGroup(queryClient, userId, frame.group);
+          break;
+        case "friend-request.created":
+          queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+          toast({
+            title: "New friend request",
+            description: `${frame.request.user.username} wants to be your friend.`,
+          });
+          break;
+        case "friendship.updated":
+          queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+          break;
+        case "presence.update":
+          updateCachedPresence(queryClient, frame.userId, { status: frame.status, lastSeenAt: frame.lastSeenAt });
+          break;
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+    return () => socket.removeEventListener("message", handleMessage);
+  }, [socket, userId, queryClient, toast]);
+
+  useEffect(() => {
+    if (!socket || !userId) return;
+
+    const ids = subscriptionKey ? subscriptionKey.split(",") : [];
+    sendFrame(socket, { type: "subscribe", channelIds: ids, directMessages: true });
+    return () => sendFrame(socket, { type: "unsubscribe", channelIds: ids });
+  }, [socket, userId, subscriptionKey]);
+}
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from "react";
+import { SOCKET_CLOSE_CODES } from "@shared/schema";
 
 export function useSocket() {
   const [socket, setSocket] = useState<WebSocket | null>(null);
@@ -17,10 +18,15 @@ export function useSocket() {
       setSocket(ws);
     };
     
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       console.log("WebSocket disconnected");
       setIsConnected(false);
       setSocket(null);
+
+      // The server refused our session; retrying won't help until we sign in again
+      if (event.code === SOCKET_CLOSE_CODES.unauthorized) {
+        return;
+      }
       
       // Reconnect after 3 seconds
       reconnectTimeoutRef.current = setTimeout(() => {
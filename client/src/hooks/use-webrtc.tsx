@@ -1,15 +1,67 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { WebRTCManager } from "@/lib/webrtc";
-import type { WebRTCSignal } from "@shared/schema";
+import { FileTransferManager, type FileTransfer } from "@/lib/file-transfer";
+import { MessageStore } from "@/lib/message-store";
+import { MessageSync } from "@/lib/message-sync";
+import { Identity, KeyDirectory } from "@/lib/identity";
+import { toast } from "@/hooks/use-toast";
+import { toRelayedMessage } from "@shared/p2p";
+import { fromRelayedMessage, mergeCachedMessage } from "@/hooks/use-realtime";
+import type { MessageWithAuthor, WebRTCSignal } from "@shared/schema";
+
+export interface FileTransferControls {
+  transfers: FileTransfer[];
+  // Returns how many peers the file was offered to; zero means no peer is connected
+  sendFile: (file: File) => number;
+  accept: (id: string) => void;
+  reject: (id: string) => void;
+  cancel: (id: string) => void;
+  dismiss: (id: string) => void;
+}
 
 export function useWebRTC(socket: WebSocket | null, userId: string) {
   const webrtcManagerRef = useRef<WebRTCManager>();
+  // Kept across socket reconnects so interrupted transfers can resume
+  const fileTransferManagerRef = useRef<FileTransferManager>();
+  if (!fileTransferManagerRef.current) {
+    fileTransferManagerRef.current = new FileTransferManager();
+  }
+  const [transfers, setTransfers] = useState<FileTransfer[]>([]);
   const [connectedPeers, setConnectedPeers] = useState<Set<string>>(new Set());
   const [currentChannel, setCurrentChannel] = useState<string | null>(null);
+  const currentChannelRef = useRef<string | null>(null);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
+    let stopMessageSync: (() => void) | undefined;
     if (socket && userId) {
-      webrtcManagerRef.current = new WebRTCManager(userId, socket);
+      webrtcManagerRef.current = new WebRTCManager(userId, socket, fileTransferManagerRef.current!);
+      fileTransferManagerRef.current!.onChange = setTransfers;
+
+      // Make sure peers can check what this device signs
+      Identity.forUser(userId)
+        .then(identity => identity?.publish())
+        .catch(error => console.error("Error publishing signing key:", error));
+      KeyDirectory.forUser(userId).onKeyChange = (user) => {
+        toast({
+          title: "Security key changed",
+          description: `${user.username} has a new signing key. If they have not switched devices, someone may be impersonating them.`,
+          variant: "destructive",
+        });
+      };
+
+      // Peers reconcile recent channel history as soon as they can talk
+      const messageSync = new MessageSync(
+        webrtcManagerRef.current,
+        MessageStore.forUser(userId),
+        queryClient,
+        () => currentChannelRef.current
+      );
+      stopMessageSync = messageSync.start();
+      webrtcManagerRef.current.onDataChannelOpen = (peerId: string) => {
+        messageSync.syncWithPeer(peerId);
+      };
       
       // Listen for peer connection events
       webrtcManagerRef.current.onPeerConnected = (peerId: string) => {
@@ -23,18 +75,31 @@ export function useWebRTC(socket: WebSocket | null, userId: string) {
           return newSet;
         });
       };
+
+      // Peers relay each message they send (a pending copy while the server is unreachable,
+      // then the confirmed one); only accept messages the peer authored itself in the
+      // channel we are connected through. Unsigned copies are shown, marked unverified.
+      webrtcManagerRef.current.on('chat.message', (peerId, envelope, verified) => {
+        const relayed = envelope.payload;
+        if (relayed.authorId !== peerId) return;
+        if (envelope.channelId !== currentChannelRef.current || relayed.channelId !== envelope.channelId) return;
+        const message = fromRelayedMessage(queryClient, relayed);
+        if (message) mergeCachedMessage(queryClient, { ...message, unverified: !verified });
+      }, { acceptUnverified: true });
     }
     
     return () => {
+      stopMessageSync?.();
       if (webrtcManagerRef.current) {
         webrtcManagerRef.current.cleanup();
       }
     };
-  }, [socket, userId]);
+  }, [socket, userId, queryClient]);
 
   const joinChannel = useCallback((channelId: string) => {
     if (webrtcManagerRef.current && socket) {
       setCurrentChannel(channelId);
+      currentChannelRef.current = channelId;
       socket.send(JSON.stringify({
         type: 'join-channel',
         userId,
@@ -46,6 +111,7 @@ export function useWebRTC(socket: WebSocket | null, userId: string) {
   const leaveChannel = useCallback((channelId: string) => {
     if (webrtcManagerRef.current && socket) {
       setCurrentChannel(null);
+      currentChannelRef.current = null;
       socket.send(JSON.stringify({
         type: 'leave-channel',
         userId,
@@ -56,9 +122,9 @@ export function useWebRTC(socket: WebSocket | null, userId: string) {
     }
   }, [socket, userId]);
 
-  const sendMessage = useCallback((channelId: string, content: string) => {
-    if (webrtcManagerRef.current) {
-      webrtcManagerRef.current.sendMessage(content);
+  const sendMessage = useCallback((message: MessageWithAuthor) => {
+    if (webrtcManagerRef.current && message.channelId === currentChannelRef.current) {
+      webrtcManagerRef.current.send('chat.message', toRelayedMessage(message), message.channelId);
     }
   }, []);
 
@@ -80,8 +146,21 @@ export function useWebRTC(socket: WebSocket | null, userId: string) {
     }
   }, []);
 
+  const fileTransfers = useMemo<FileTransferControls>(() => {
+    const manager = fileTransferManagerRef.current!;
+    return {
+      transfers,
+      sendFile: (file) => webrtcManagerRef.current?.sendFile(file) ?? 0,
+      accept: (id) => manager.accept(id),
+      reject: (id) => manager.reject(id),
+      cancel: (id) => manager.cancel(id),
+      dismiss: (id) => manager.dismiss(id),
+    };
+  }, [transfers]);
+
   return {
     connectedPeers,
+    fileTransfers,
     currentChannel,
     joinChannel,
     leaveChannel,
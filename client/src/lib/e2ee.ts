@@ -0,0 +1,256 @@
+import type { DirectMessage, DirectMessageEncryption, KeyBundle } from '@shared/schema';
+import { apiRequest } from './queryClient';
+import { fromBase64, KEYS, openKeyDatabase, PEERS, request, toBase64 } from './identity';
+
+// End-to-end encryption for direct messages. Every message gets a fresh AES-GCM key,
+// which is wrapped for each device of both participants under a key agreed (ECDH, then
+// HKDF) between the sending device and that device, so the server only ever stores
+// ciphertext. Each device registers its own P-256 key pair; the private half is kept
+// in IndexedDB and cannot be exported.
+
+const AGREEMENT = { name: 'ECDH', namedCurve: 'P-256' };
+// Bundles are refetched after this long, or straight away when a device is missing
+const BUNDLE_TTL_MS = 60 * 1000;
+
+interface StoredDevice {
+  purpose: 'agreement';
+  keyPair: CryptoKeyPair;
+  deviceId: string | null; // assigned once the server has registered the public key
+}
+
+interface LocalDevice {
+  id: string;
+  keyPair: CryptoKeyPair;
+}
+
+// What the signed-in user has decided about a conversation partner
+interface PeerSettings {
+  userId: string;
+  encrypt?: boolean;
+  verifiedSafetyNumber?: string;
+}
+
+// Why an encrypted message cannot be shown
+export type DecryptionFailure =
+  | 'no-device' // this browser has no encryption key
+  | 'not-for-device' // sent before this device was registered
+  | 'unknown-sender-device' // the sending device has since been removed
+  | 'sender-unavailable' // the sender's device keys could not be fetched
+  | 'corrupt';
+
+export type DecryptedContent = { ok: true; text: string } | { ok: false; reason: DecryptionFailure };
+
+type EncryptableMessage = Pick<DirectMessage, 'content' | 'senderId' | 'recipientId' | 'encryption'>;
+
+const encoder = new TextEncoder();
+
+// Binds the ciphertext to its conversation, so it cannot be replayed into another one
+function additionalData(senderId: string, recipientId: string): Uint8Array {
+  return encoder.encode(`dm:${senderId}:${recipientId}`);
+}
+
+// Five-digit groups from a digest, the way Signal renders safety numbers
+function digitGroups(digest: Uint8Array, groups: number): string[] {
+  return Array.from({ length: groups }, (_, i) => {
+    const value = digest.slice(i * 5, i * 5 + 5).reduce((n, byte) => n * 256 + byte, 0);
+    return (value % 100000).toString().padStart(5, '0');
+  });
+}
+
+async function fingerprint(bundle: KeyBundle): Promise<string[]> {
+  const keys = bundle.devices.map(device => device.publicKey).sort();
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode([bundle.user.id, ...keys].join('\n')));
+  return digitGroups(new Uint8Array(digest), 6);
+}
+
+export class DirectMessageCrypto {
+  private static instances: Map<string, DirectMessageCrypto> = new Map();
+  private device?: Promise<LocalDevice | undefined>;
+  private bundles: Map<string, { bundle: Promise<KeyBundle>; fetchedAt: number }> = new Map();
+
+  private constructor(private userId: string) {}
+
+  static forUser(userId: string): DirectMessageCrypto {
+    let instance = DirectMessageCrypto.instances.get(userId);
+    if (!instance) {
+      instance = new DirectMessageCrypto(userId);
+      DirectMessageCrypto.instances.set(userId, instance);
+    }
+    return instance;
+  }
+
+  // Resolves to undefined where the browser cannot do ECDH or the device cannot be registered
+  public localDevice(): Promise<LocalDevice | undefined> {
+    if (!this.device) {
+      this.device = this.loadDevice().catch((error) => {
+        console.warn('Direct message encryption is unavailable:', error);
+        this.device = undefined;
+        return undefined;
+      });
+    }
+    return this.device;
+  }
+
+  private async loadDevice(): Promise<LocalDevice> {
+    const db = await openKeyDatabase(this.userId);
+    let stored: StoredDevice | undefined = await request(db.transaction([KEYS], 'readonly').objectStore(KEYS).get('agreement'));
+    if (!stored) {
+      const keyPair = await crypto.subtle.generateKey(AGREEMENT, false, ['deriveBits']) as CryptoKeyPair;
+      stored = { purpose: 'agreement', keyPair, deviceId: null };
+    }
+
+    // Registers the key, again if the device was removed from the account in the meantime
+    const own = await this.bundle(this.userId, true);
+    if (!stored.deviceId || !own.devices.some(device => device.id === stored!.deviceId)) {
+      const publicKey = toBase64(await crypto.subtle.exportKey('raw', stored.keyPair.publicKey));
+      const response = await apiRequest('POST', `/api/users/${this.userId}/devices`, { publicKey });
+      stored = { ...stored, deviceId: (await response.json()).id };
+      await request(db.transaction([KEYS], 'readwrite').objectStore(KEYS).put(stored));
+      this.bundles.delete(this.userId);
+    }
+    return { id: stored.deviceId!, keyPair: stored.keyPair };
+  }
+
+  private bundle(userId: string, refresh = false): Promise<KeyBundle> {
+    const cached = this.bundles.get(userId);
+    if (cached && !refresh && Date.now() - cached.fetchedAt < BUNDLE_TTL_MS) return cached.bundle;
+
+    const bundle: Promise<KeyBundle> = apiRequest('GET', `/api/users/${userId}/key-bundle`).then(response => response.json());
+    bundle.catch(() => {
+      if (this.bundles.get(userId)?.bundle === bundle) this.bundles.delete(userId);
+    });
+    this.bundles.set(userId, { bundle, fetchedAt: Date.now() });
+    return bundle;
+  }
+
+  private async wrappingKey(privateKey: CryptoKey, publicKey: string, senderDeviceId: string, deviceId: string): Promise<CryptoKey> {
+    const peerKey = await crypto.subtle.importKey('raw', fromBase64(publicKey), AGREEMENT, false, []);
+    const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256);
+    const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(`dm-key:${senderDeviceId}:${deviceId}`) },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+
+  // Whether a message to `peerId` can be encrypted: both sides need a registered device
+  public async canEncryptTo(peerId: string): Promise<boolean> {
+    if (!(await this.localDevice())) return false;
+    try {
+      return (await this.bundle(peerId)).devices.length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async encrypt(peerId: string, text: string): Promise<{ content: string; encryption: DirectMessageEncryption }> {
+    const device = await this.localDevice();
+    if (!device) throw new Error('This browser cannot encrypt messages');
+
+    // Fresh bundles, so a device added since the last fetch is not left out
+    const [theirs, ours] = await Promise.all([this.bundle(peerId, true), this.bundle(this.userId, true)]);
+    if (theirs.devices.length === 0) throw new Error(`${theirs.user.username} has not set up encryption`);
+
+    const messageKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(this.userId, peerId) },
+      messageKey,
+      encoder.encode(text),
+    );
+    const rawKey = await crypto.subtle.exportKey('raw', messageKey);
+
+    // Our own devices are included so the conversation stays readable on all of them
+    const devices = [...theirs.devices, ...ours.devices]
+      .filter((target, index, all) => all.findIndex(other => other.id === target.id) === index);
+    const keys = await Promise.all(devices.map(async (target) => {
+      const keyIv = crypto.getRandomValues(new Uint8Array(12));
+      const wrappingKey = await this.wrappingKey(device.keyPair.privateKey, target.publicKey, device.id, target.id);
+      const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: keyIv }, wrappingKey, rawKey);
+      return { deviceId: target.id, iv: toBase64(keyIv), wrappedKey: toBase64(wrappedKey) };
+    }));
+
+    return {
+      content: toBase64(ciphertext),
+      encryption: { v: 1, senderDeviceId: device.id, iv: toBase64(iv), keys },
+    };
+  }
+
+  public async decrypt(message: EncryptableMessage): Promise<DecryptedContent> {
+    const { encryption } = message;
+    if (!encryption) return { ok: true, text: message.content };
+
+    const device = await this.localDevice();
+    if (!device) return { ok: false, reason: 'no-device' };
+    const entry = encryption.keys.find(key => key.deviceId === device.id);
+    if (!entry) return { ok: false, reason: 'not-for-device' };
+
+    let sender: KeyBundle['devices'][number] | undefined;
+    try {
+      sender = (await this.bundle(message.senderId)).devices.find(d => d.id === encryption.senderDeviceId);
+      if (!sender) {
+        sender = (await this.bundle(message.senderId, true)).devices.find(d => d.id === encryption.senderDeviceId);
+      }
+    } catch (error) {
+      return { ok: false, reason: 'sender-unavailable' };
+    }
+    if (!sender) return { ok: false, reason: 'unknown-sender-device' };
+
+    try {
+      const wrappingKey = await this.wrappingKey(device.keyPair.privateKey, sender.publicKey, encryption.senderDeviceId, device.id);
+      const rawKey = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(entry.iv) }, wrappingKey, fromBase64(entry.wrappedKey));
+      const messageKey = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['decrypt']);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(encryption.iv), additionalData: additionalData(message.senderId, message.recipientId) },
+        messageKey,
+        fromBase64(message.content),
+      );
+      return { ok: true, text: new TextDecoder().decode(plaintext) };
+    } catch (error) {
+      return { ok: false, reason: 'corrupt' };
+    }
+  }
+
+  // Sixty digits covering both users' device keys; it reads the same on both sides and
+  // changes whenever either of them adds or removes a device
+  public async safetyNumber(peerId: string): Promise<string> {
+    const bundles = await Promise.all([this.bundle(this.userId, true), this.bundle(peerId, true)]);
+    bundles.sort((a, b) => a.user.id.localeCompare(b.user.id));
+    const groups = await Promise.all(bundles.map(fingerprint));
+    return groups.flat().join(' ');
+  }
+
+  private async peerSettings(peerId: string): Promise<PeerSettings> {
+    const db = await openKeyDatabase(this.userId);
+    const settings: PeerSettings | undefined = await request(db.transaction([PEERS], 'readonly').objectStore(PEERS).get(peerId));
+    return settings ?? { userId: peerId };
+  }
+
+  private async updatePeerSettings(peerId: string, update: Partial<PeerSettings>) {
+    const settings = { ...(await this.peerSettings(peerId)), ...update };
+    const db = await openKeyDatabase(this.userId);
+    await request(db.transaction([PEERS], 'readwrite').objectStore(PEERS).put(settings));
+  }
+
+  // Encryption is opt-in per conversation
+  public async isEncryptionEnabled(peerId: string): Promise<boolean> {
+    return (await this.peerSettings(peerId)).encrypt ?? false;
+  }
+
+  public setEncryptionEnabled(peerId: string, encrypt: boolean): Promise<void> {
+    return this.updatePeerSettings(peerId, { encrypt });
+  }
+
+  // A verification lapses as soon as the safety number changes
+  public async isVerified(peerId: string): Promise<boolean> {
+    const { verifiedSafetyNumber } = await this.peerSettings(peerId);
+    return !!verifiedSafetyNumber && verifiedSafetyNumber === await this.safetyNumber(peerId);
+  }
+
+  public setVerified(peerId: string, safetyNumber: string | undefined): Promise<void> {
+    return this.updatePeerSettings(peerId, { verifiedSafetyNumber: safetyNumber });
+  }
+}
@@ -0,0 +1,485 @@
+import type { P2PEnvelope, P2PKind, P2PPayload } from "@shared/p2p";
+
+// Chunked file transfer between peers over a dedicated "files" data channel.
+// Control frames are P2P envelopes routed back here by WebRTCManager; chunks are binary
+// frames prefixed with the transfer ID and chunk index so an interrupted transfer can
+// resume where it stopped.
+
+export const FILE_CHANNEL_LABEL = 'files';
+export const MAX_P2P_FILE_SIZE = 100 * 1024 * 1024;
+
+const CHUNK_SIZE = 16 * 1024;
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+const BUFFERED_AMOUNT_LOW_THRESHOLD = 256 * 1024;
+const ID_BYTES = 36; // UUID string
+const HEADER_BYTES = ID_BYTES + 4;
+const PROGRESS_INTERVAL_MS = 100;
+
+export type FileTransferStatus =
+  | 'offered' // waiting for the recipient to accept
+  | 'transferring'
+  | 'interrupted' // peer connection lost; resumes when the peer reconnects
+  | 'verifying'
+  | 'completed'
+  | 'rejected'
+  | 'cancelled'
+  | 'failed';
+
+export interface FileTransfer {
+  id: string;
+  peerId: string;
+  direction: 'incoming' | 'outgoing';
+  name: string;
+  size: number;
+  contentType: string;
+  status: FileTransferStatus;
+  bytesTransferred: number;
+  url?: string; // object URL of a verified incoming file
+  error?: string;
+}
+
+export const FILE_CONTROL_KINDS = [
+  'file.offer',
+  'file.accept',
+  'file.resume',
+  'file.reject',
+  'file.cancel',
+  'file.verified',
+] as const;
+
+type FileControlKind = typeof FILE_CONTROL_KINDS[number];
+export type FileControlEnvelope = { [K in FileControlKind]: P2PEnvelope<K> }[FileControlKind];
+
+interface OutgoingTransfer {
+  transfer: FileTransfer;
+  file: File;
+  sha256: string;
+  nextChunk: number;
+  sending: boolean;
+}
+
+interface IncomingTransfer {
+  transfer: FileTransfer;
+  sha256: string;
+  chunks: ArrayBuffer[];
+}
+
+const ACTIVE_STATUSES: FileTransferStatus[] = ['offered', 'transferring', 'interrupted', 'verifying'];
+
+function chunkCount(size: number): number {
+  return Math.ceil(size / CHUNK_SIZE);
+}
+
+async function sha256Hex(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function encodeChunk(id: string, index: number, data: ArrayBuffer): ArrayBuffer {
+  const frame = new Uint8Array(HEADER_BYTES + data.byteLength);
+  frame.set(new TextEncoder().encode(id), 0);
+  new DataView(frame.buffer).setUint32(ID_BYTES, index);
+  frame.set(new Uint8Array(data), HEADER_BYTES);
+  return frame.buffer;
+}
+
+function decodeChunk(frame: ArrayBuffer): { id: string; index: number; data: ArrayBuffer } | undefined {
+  if (frame.byteLength < HEADER_BYTES) return undefined;
+  return {
+    id: new TextDecoder().decode(new Uint8Array(frame, 0, ID_BYTES)),
+    index: new DataView(frame).getUint32(ID_BYTES),
+    data: frame.slice(HEADER_BYTES),
+  };
+}
+
+// Outlives individual peer connections so transfers survive reconnects
+export class FileTransferManager {
+  private channels: Map<string, RTCDataChannel> = new Map();
+  private outgoing: Map<string, OutgoingTransfer> = new Map();
+  private incoming: Map<string, IncomingTransfer> = new Map();
+  private drainWaiters: Set<() => void> = new Set();
+  private progressTimer: ReturnType<typeof setTimeout> | null = null;
+
+  public onChange?: (transfers: FileTransfer[]) => void;
+  // Wraps control payloads in a signed envelope; set by the connection manager
+  public encodeFrame?: <K extends P2PKind>(kind: K, payload: P2PPayload<K>) => Promise<string>;
+
+  // Text frames are handed to onText so they go through the envelope dispatcher
+  public attachChannel(peerId: string, channel: RTCDataChannel, onText: (data: string) => void) {
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+
+    const open = () => {
+      this.channels.set(peerId, channel);
+      this.resumeWithPeer(peerId);
+    };
+    if (channel.readyState === 'open') {
+      open();
+    } else {
+      channel.onopen = open;
+    }
+
+    channel.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        onText(event.data);
+      } else {
+        this.handleChunk(peerId, event.data);
+      }
+    };
+
+    channel.onclose = () => {
+      if (this.channels.get(peerId) === channel) {
+        this.detachPeer(peerId);
+      }
+    };
+  }
+
+  // Marks in-flight transfers with the peer as interrupted until it reconnects
+  public detachPeer(peerId: string) {
+    this.channels.delete(peerId);
+    // Closing the peer connection does not always fire the channel's close event
+    this.drainWaiters.forEach(resolve => resolve());
+    this.drainWaiters.clear();
+    this.transfers().forEach(transfer => {
+      if (transfer.peerId === peerId && transfer.status === 'transferring') {
+        transfer.status = 'interrupted';
+      }
+    });
+    this.notify();
+  }
+
+  public detachAll() {
+    Array.from(this.channels.keys()).forEach(peerId => this.detachPeer(peerId));
+  }
+
+  // Offers the file to every connected peer; returns how many peers it was offered to
+  public sendFile(file: File): number {
+    const peerIds = Array.from(this.channels.entries())
+      .filter(([, channel]) => channel.readyState === 'open')
+      .map(([peerId]) => peerId);
+    if (peerIds.length === 0) return 0;
+
+    const states = peerIds.map(peerId => {
+      const state: OutgoingTransfer = {
+        transfer: {
+          id: crypto.randomUUID(),
+          peerId,
+          direction: 'outgoing',
+          name: file.name,
+          size: file.size,
+          contentType: file.type || 'application/octet-stream',
+          status: 'offered',
+          bytesTransferred: 0,
+        },
+        file,
+        sha256: '',
+        nextChunk: 0,
+        sending: false,
+      };
+      this.outgoing.set(state.transfer.id, state);
+      return state;
+    });
+    this.notify();
+
+    // The digest is computed once and shared by every peer's offer
+    sha256Hex(file).then(sha256 => {
+      states.forEach(state => {
+        state.sha256 = sha256;
+        if (state.transfer.status === 'offered') {
+          this.sendOffer(state);
+        }
+      });
+    }).catch(error => {
+      states.forEach(state => this.fail(state.transfer, 'Could not read the file'));
+      console.error('Error hashing file:', error);
+    });
+
+    return peerIds.length;
+  }
+
+  public accept(id: string) {
+    const state = this.incoming.get(id);
+    if (!state || state.transfer.status !== 'offered') return;
+
+    if (this.sendControl(state.transfer.peerId, 'file.accept', { transferId: id, fromChunk: 0 })) {
+      state.transfer.status = 'transferring';
+      this.finishIfReceived(state);
+    } else {
+      state.transfer.status = 'interrupted';
+    }
+    this.notify();
+  }
+
+  public reject(id: string) {
+    const state = this.incoming.get(id);
+    if (!state || state.transfer.status !== 'offered') return;
+
+    this.sendControl(state.transfer.peerId, 'file.reject', { transferId: id });
+    state.transfer.status = 'rejected';
+    this.notify();
+  }
+
+  public cancel(id: string) {
+    const transfer = this.outgoing.get(id)?.transfer ?? this.incoming.get(id)?.transfer;
+    if (!transfer || !ACTIVE_STATUSES.includes(transfer.status)) return;
+
+    this.sendControl(transfer.peerId, 'file.cancel', { transferId: id });
+    this.end(transfer, 'cancelled');
+  }
+
+  // Removes a finished transfer from the list and releases its file
+  public dismiss(id: string) {
+    const transfer = this.outgoing.get(id)?.transfer ?? this.incoming.get(id)?.transfer;
+    if (!transfer || ACTIVE_STATUSES.includes(transfer.status)) return;
+
+    if (transfer.url) URL.revokeObjectURL(transfer.url);
+    this.outgoing.delete(id);
+    this.incoming.delete(id);
+    this.notify();
+  }
+
+  public transfers(): FileTransfer[] {
+    return [
+      ...Array.from(this.outgoing.values(), state => state.transfer),
+      ...Array.from(this.incoming.values(), state => state.transfer),
+    ];
+  }
+
+  public handleControl(peerId: string, envelope: FileControlEnvelope) {
+    switch (envelope.kind) {
+      case 'file.offer': {
+        const offer = envelope.payload;
+        if (this.incoming.has(offer.transferId)) return; // re-sent after a reconnect
+        if (offer.size > MAX_P2P_FILE_SIZE) {
+          // Turned down outright so the sender is not left waiting
+          this.sendControl(peerId, 'file.reject', { transferId: offer.transferId });
+          return;
+        }
+        const state: IncomingTransfer = {
+          transfer: {
+            id: offer.transferId,
+            peerId,
+            direction: 'incoming',
+            name: offer.name,
+            size: offer.size,
+            contentType: offer.contentType,
+            status: 'offered',
+            bytesTransferred: 0,
+          },
+          sha256: offer.sha256,
+          chunks: [],
+        };
+        this.incoming.set(offer.transferId, state);
+        this.notify();
+        break;
+      }
+      case 'file.accept':
+      case 'file.resume': {
+        const { transferId, fromChunk } = envelope.payload;
+        const state = this.outgoing.get(transferId);
+        if (!state || state.transfer.peerId !== peerId) return;
+        if (!ACTIVE_STATUSES.includes(state.transfer.status)) return;
+
+        state.nextChunk = Math.min(fromChunk, chunkCount(state.file.size));
+        state.transfer.bytesTransferred = Math.min(state.file.size, state.nextChunk * CHUNK_SIZE);
+        state.transfer.status = 'transferring';
+        this.notify();
+        this.pump(state);
+        break;
+      }
+      case 'file.reject': {
+        const state = this.outgoing.get(envelope.payload.transferId);
+        if (state?.transfer.peerId === peerId) this.end(state.transfer, 'rejected');
+        break;
+      }
+      case 'file.cancel': {
+        const { transferId } = envelope.payload;
+        const transfer = this.outgoing.get(transferId)?.transfer ?? this.incoming.get(transferId)?.transfer;
+        if (transfer?.peerId === peerId && ACTIVE_STATUSES.includes(transfer.status)) {
+          this.end(transfer, 'cancelled');
+        }
+        break;
+      }
+      case 'file.verified': {
+        const state = this.outgoing.get(envelope.payload.transferId);
+        if (!state || state.transfer.peerId !== peerId) return;
+        if (envelope.payload.ok) {
+          this.end(state.transfer, 'completed');
+        } else {
+          this.fail(state.transfer, 'The recipient could not verify the file');
+        }
+        break;
+      }
+    }
+  }
+
+  private handleChunk(peerId: string, frame: ArrayBuffer) {
+    const chunk = decodeChunk(frame);
+    const state = chunk && this.incoming.get(chunk.id);
+    if (!chunk || !state || state.transfer.peerId !== peerId || state.transfer.status !== 'transferring') return;
+    // The channel is ordered, so anything but the next chunk is a stale frame from before a resume
+    if (chunk.index !== state.chunks.length || chunk.data.byteLength > CHUNK_SIZE) return;
+
+    state.chunks.push(chunk.data);
+    state.transfer.bytesTransferred += chunk.data.byteLength;
+    this.notify(true);
+    this.finishIfReceived(state);
+  }
+
+  private async finishIfReceived(state: IncomingTransfer) {
+    const { transfer } = state;
+    if (state.chunks.length < chunkCount(transfer.size)) return;
+
+    transfer.status = 'verifying';
+    this.notify();
+
+    try {
+      const blob = new Blob(state.chunks, { type: transfer.contentType });
+      state.chunks = [];
+      const ok = blob.size === transfer.size && (await sha256Hex(blob)) === state.sha256;
+      this.sendControl(transfer.peerId, 'file.verified', { transferId: transfer.id, ok });
+
+      if (ok) {
+        transfer.url = URL.createObjectURL(blob);
+        this.end(transfer, 'completed');
+      } else {
+        this.fail(transfer, 'The file failed its integrity check');
+      }
+    } catch (error) {
+      console.error('Error verifying file:', error);
+      this.sendControl(transfer.peerId, 'file.verified', { transferId: transfer.id, ok: false });
+      this.fail(transfer, 'The file could not be verified');
+    }
+  }
+
+  // Sends chunks until done, pausing whenever the channel's buffer fills up
+  private async pump(state: OutgoingTransfer) {
+    if (state.sending) return;
+    state.sending = true;
+
+    try {
+      const { transfer, file } = state;
+      const total = chunkCount(file.size);
+      while (transfer.status === 'transferring' && state.nextChunk < total) {
+        const channel = this.channels.get(transfer.peerId);
+        if (!channel || channel.readyState !== 'open') {
+          transfer.status = 'interrupted';
+          break;
+        }
+        if (channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+          await this.waitForDrain(channel);
+          continue;
+        }
+
+        const start = state.nextChunk * CHUNK_SIZE;
+        const data = await file.slice(start, start + CHUNK_SIZE).arrayBuffer();
+        channel.send(encodeChunk(transfer.id, state.nextChunk, data));
+        state.nextChunk++;
+        transfer.bytesTransferred = Math.min(file.size, state.nextChunk * CHUNK_SIZE);
+        this.notify(true);
+      }
+
+      // The recipient reports back once it has checked the digest
+      if (transfer.status === 'transferring' && state.nextChunk >= total) {
+        transfer.status = 'verifying';
+      }
+    } catch (error) {
+      console.error('Error sending file:', error);
+      if (state.transfer.status === 'transferring') {
+        state.transfer.status = 'interrupted';
+      }
+    } finally {
+      state.sending = false;
+      this.notify();
+    }
+  }
+
+  // Resolves once the channel has drained below its low-water mark, or the peer went away
+  private waitForDrain(channel: RTCDataChannel): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        channel.removeEventListener('bufferedamountlow', done);
+        channel.removeEventListener('close', done);
+        this.drainWaiters.delete(done);
+        resolve();
+      };
+      channel.addEventListener('bufferedamountlow', done);
+      channel.addEventListener('close', done);
+      this.drainWaiters.add(done);
+    });
+  }
+
+  // Picks up where transfers with the peer left off after its files channel reopens
+  private resumeWithPeer(peerId: string) {
+    this.outgoing.forEach(state => {
+      if (state.transfer.peerId === peerId && state.transfer.status === 'offered' && state.sha256) {
+        this.sendOffer(state);
+      }
+    });
+    this.incoming.forEach(state => {
+      const { transfer } = state;
+      if (transfer.peerId === peerId && transfer.status === 'interrupted') {
+        if (this.sendControl(peerId, 'file.resume', { transferId: transfer.id, fromChunk: state.chunks.length })) {
+          transfer.status = 'transferring';
+        }
+      }
+    });
+    this.notify();
+  }
+
+  private sendOffer(state: OutgoingTransfer) {
+    const { transfer } = state;
+    this.sendControl(transfer.peerId, 'file.offer', {
+      transferId: transfer.id,
+      name: transfer.name,
+      size: transfer.size,
+      contentType: transfer.contentType,
+      sha256: state.sha256,
+    });
+  }
+
+  private sendControl<K extends FileControlKind>(peerId: string, kind: K, payload: P2PPayload<K>): boolean {
+    const channel = this.channels.get(peerId);
+    if (!channel || channel.readyState !== 'open' || !this.encodeFrame) return false;
+    this.encodeFrame(kind, payload).then((frame) => {
+      if (channel.readyState === 'open') channel.send(frame);
+    }).catch(error => {
+      console.error('Error sending file control frame:', error);
+      // The peer never hears about it, so the transfer cannot go on
+      const transfer = this.outgoing.get(payload.transferId)?.transfer ?? this.incoming.get(payload.transferId)?.transfer;
+      if (transfer && ACTIVE_STATUSES.includes(transfer.status)) {
+        this.fail(transfer, 'Could not reach the peer');
+      }
+    });
+    return true;
+  }
+
+  private end(transfer: FileTransfer, status: FileTransferStatus) {
+    transfer.status = status;
+    const incoming = this.incoming.get(transfer.id);
+    if (incoming) incoming.chunks = [];
+    this.notify();
+  }
+
+  private fail(transfer: FileTransfer, error: string) {
+    transfer.error = error;
+    this.end(transfer, 'failed');
+  }
+
+  // Status changes are reported right away; progress at most every PROGRESS_INTERVAL_MS
+  private notify(progressOnly = false) {
+    if (progressOnly) {
+      if (this.progressTimer) return;
+      this.progressTimer = setTimeout(() => {
+        this.progressTimer = null;
+        this.onChange?.(this.snapshot());
+      }, PROGRESS_INTERVAL_MS);
+      return;
+    }
+    this.onChange?.(this.snapshot());
+  }
+
+  private snapshot(): FileTransfer[] {
+    return this.transfers().map(transfer => ({ ...transfer }));
+  }
+}
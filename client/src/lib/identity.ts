@@ -0,0 +1,192 @@
+import type { PublicUser, UserKeys } from '@shared/schema';
+import { apiRequest } from './queryClient';
+
+// Each user's Ed25519 signing key lives in IndexedDB on their device. The private half
+// cannot be exported; the public half is published through /api/users/:id/keys so
+// peers can check the data channel frames this device signs. Peers' keys are
+// remembered the first time they are seen, so a key that changes later is noticed.
+
+const DB_VERSION = 2;
+export const KEYS = 'keys';
+const KNOWN_KEYS = 'known';
+export const PEERS = 'peers';
+const SIGNING = { name: 'Ed25519' };
+// A frame that fails to verify refetches the sender's key at most this often
+const KEY_REFRESH_MS = 60 * 1000;
+
+interface StoredKeyPair {
+  purpose: 'signing';
+  keyPair: CryptoKeyPair;
+}
+
+interface KnownKey {
+  userId: string;
+  publicKey: string;
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+const databases: Map<string, Promise<IDBDatabase>> = new Map();
+
+// Holds this device's key pairs by purpose, peers' remembered signing keys, and
+// per-peer direct message settings
+export function openKeyDatabase(userId: string): Promise<IDBDatabase> {
+  let db = databases.get(userId);
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const open = indexedDB.open(`chat-identity-${userId}`, DB_VERSION);
+      open.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          open.result.createObjectStore(KEYS, { keyPath: 'purpose' });
+          open.result.createObjectStore(KNOWN_KEYS, { keyPath: 'userId' });
+        }
+        if (event.oldVersion < 2) {
+          open.result.createObjectStore(PEERS, { keyPath: 'userId' });
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    databases.set(userId, db);
+  }
+  return db;
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(bytes))));
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+// The signing key of the signed-in user on this device
+export class Identity {
+  private static identities: Map<string, Promise<Identity | undefined>> = new Map();
+
+  private constructor(private userId: string, private keyPair: CryptoKeyPair, public readonly publicKey: string) {}
+
+  // Resolves to undefined where the browser cannot sign, in which case frames go out unsigned
+  static forUser(userId: string): Promise<Identity | undefined> {
+    let identity = Identity.identities.get(userId);
+    if (!identity) {
+      identity = Identity.load(userId).catch((error) => {
+        console.warn('Signing is unavailable:', error);
+        return undefined;
+      });
+      Identity.identities.set(userId, identity);
+    }
+    return identity;
+  }
+
+  private static async load(userId: string): Promise<Identity> {
+    const db = await openKeyDatabase(userId);
+    let stored: StoredKeyPair | undefined = await request(db.transaction([KEYS], 'readonly').objectStore(KEYS).get('signing'));
+    if (!stored) {
+      const keyPair = await crypto.subtle.generateKey(SIGNING, false, ['sign', 'verify']) as CryptoKeyPair;
+      stored = { purpose: 'signing', keyPair };
+      await request(db.transaction([KEYS], 'readwrite').objectStore(KEYS).put(stored));
+    }
+    const publicKey = toBase64(await crypto.subtle.exportKey('raw', stored.keyPair.publicKey));
+    return new Identity(userId, stored.keyPair, publicKey);
+  }
+
+  // Publishes the public key unless the server already has it. There is one signing
+  // key per user, so the device that published last is the one peers trust.
+  public async publish() {
+    const response = await apiRequest('GET', `/api/users/${this.userId}/keys`);
+    const { keys }: UserKeys = await response.json();
+    if (keys.some(key => key.purpose === 'signing' && key.publicKey === this.publicKey)) return;
+    await apiRequest('PUT', `/api/users/${this.userId}/keys`, { purpose: 'signing', publicKey: this.publicKey });
+  }
+
+  public async sign(data: Uint8Array): Promise<string> {
+    return toBase64(await crypto.subtle.sign(SIGNING, this.keyPair.privateKey, data));
+  }
+}
+
+// Peers' signing keys as seen by the signed-in user
+export class KeyDirectory {
+  private static directories: Map<string, KeyDirectory> = new Map();
+  private keys: Map<string, Promise<CryptoKey | undefined>> = new Map();
+  private fetchedAt: Map<string, number> = new Map();
+
+  // Called when a peer's published key differs from the one remembered for them
+  public onKeyChange?: (user: PublicUser) => void;
+
+  private constructor(private userId: string) {}
+
+  static forUser(userId: string): KeyDirectory {
+    let directory = KeyDirectory.directories.get(userId);
+    if (!directory) {
+      directory = new KeyDirectory(userId);
+      KeyDirectory.directories.set(userId, directory);
+    }
+    return directory;
+  }
+
+  // Checks a signature by `peerId`, refetching their key once if it does not match,
+  // since they may have replaced it since it was fetched
+  public async verify(peerId: string, data: Uint8Array, signature: string): Promise<boolean> {
+    let bytes: Uint8Array;
+    try {
+      bytes = fromBase64(signature);
+    } catch (error) {
+      return false;
+    }
+
+    if (await this.check(await this.signingKey(peerId), data, bytes)) return true;
+    if (Date.now() - (this.fetchedAt.get(peerId) ?? 0) < KEY_REFRESH_MS) return false;
+    this.keys.delete(peerId);
+    return this.check(await this.signingKey(peerId), data, bytes);
+  }
+
+  private async check(key: CryptoKey | undefined, data: Uint8Array, signature: Uint8Array): Promise<boolean> {
+    if (!key) return false;
+    try {
+      return await crypto.subtle.verify(SIGNING, key, signature, data);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private signingKey(peerId: string): Promise<CryptoKey | undefined> {
+    let key = this.keys.get(peerId);
+    if (!key) {
+      this.fetchedAt.set(peerId, Date.now());
+      key = this.fetchKey(peerId).catch((error) => {
+        console.error(`Error loading signing key for ${peerId}:`, error);
+        return undefined;
+      });
+      this.keys.set(peerId, key);
+    }
+    return key;
+  }
+
+  // Prefers the published key, falling back to the remembered one while the server is unreachable
+  private async fetchKey(peerId: string): Promise<CryptoKey | undefined> {
+    const db = await openKeyDatabase(this.userId);
+    const known: KnownKey | undefined = await request(db.transaction([KNOWN_KEYS], 'readonly').objectStore(KNOWN_KEYS).get(peerId));
+    let publicKey = known?.publicKey;
+
+    try {
+      const response = await apiRequest('GET', `/api/users/${peerId}/keys`);
+      const { user, keys }: UserKeys = await response.json();
+      const published = keys.find(key => key.purpose === 'signing')?.publicKey;
+      if (published && published !== publicKey) {
+        if (publicKey) this.onKeyChange?.(user);
+        await request(db.transaction([KNOWN_KEYS], 'readwrite').objectStore(KNOWN_KEYS).put({ userId: peerId, publicKey: published }));
+        publicKey = published;
+      }
+    } catch (error) {
+      console.warn(`Could not fetch signing key for ${peerId}:`, error);
+    }
+
+    return publicKey ? crypto.subtle.importKey('raw', fromBase64(publicKey), SIGNING, false, ['verify']) : undefined;
+  }
+}
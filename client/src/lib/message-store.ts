@@ -0,0 +1,145 @@
+import { MESSAGE_PAGE_SIZE, type MessageCursor, type MessageWithAuthor } from "@shared/schema";
+
+// Local copy of channel history in IndexedDB, so a channel stays readable while the
+// server is unreachable and peers have something to reconcile against.
+// Each user gets their own database.
+
+const DB_VERSION = 1;
+const MESSAGES = "messages";
+const OUTBOX = "outbox";
+
+// A message sent while the server was unreachable, waiting to be posted
+export interface OutboxEntry {
+  nonce: string;
+  channelId: string;
+  content: string;
+  replyToId?: string;
+  queuedAt: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function timeOf(message: Pick<MessageWithAuthor, "createdAt">): number {
+  return new Date(message.createdAt!).getTime();
+}
+
+// Deletes win over edits, and later edits over earlier ones
+export function messageVersion(message: Pick<MessageWithAuthor, "editedAt" | "deletedAt">): number {
+  if (message.deletedAt) return Number.MAX_SAFE_INTEGER;
+  return message.editedAt ? new Date(message.editedAt).getTime() : 0;
+}
+
+// Messages sent offline are keyed by their nonce until the server assigns an ID
+export function isPendingMessage(message: Pick<MessageWithAuthor, "id" | "nonce">): boolean {
+  return message.nonce === message.id;
+}
+
+export class MessageStore {
+  private static stores: Map<string, MessageStore> = new Map();
+  private db: Promise<IDBDatabase>;
+
+  private constructor(userId: string) {
+    this.db = new Promise((resolve, reject) => {
+      const open = indexedDB.open(`chat-offline-${userId}`, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const messages = open.result.createObjectStore(MESSAGES, { keyPath: "id" });
+        messages.createIndex("channelId", "channelId");
+        open.result.createObjectStore(OUTBOX, { keyPath: "nonce" });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+  }
+
+  static forUser(userId: string): MessageStore {
+    let store = MessageStore.stores.get(userId);
+    if (!store) {
+      store = new MessageStore(userId);
+      MessageStore.stores.set(userId, store);
+    }
+    return store;
+  }
+
+  private async transaction(names: string[], mode: IDBTransactionMode): Promise<IDBTransaction> {
+    return (await this.db).transaction(names, mode);
+  }
+
+  // Stores messages unless a newer version of the same message is already there, and
+  // returns the ones that were new or newer. A confirmed message replaces the pending
+  // copy that shared its nonce. Unverified peer copies only fill gaps; they never
+  // replace a copy that was verified.
+  async putMessages(messages: MessageWithAuthor[]): Promise<MessageWithAuthor[]> {
+    if (messages.length === 0) return [];
+    const tx = await this.transaction([MESSAGES], "readwrite");
+    const store = tx.objectStore(MESSAGES);
+    const written = await Promise.all(messages.map(async (message) => {
+      const existing: MessageWithAuthor | undefined = await request(store.get(message.id));
+      if (message.nonce && !isPendingMessage(message)) {
+        store.delete(message.nonce);
+      }
+      if (existing && message.unverified && !existing.unverified) return undefined;
+      if (existing && messageVersion(message) <= messageVersion(existing)) {
+        // Same version: refresh details like reactions, reporting a change only when
+        // the copy is now verified
+        if (messageVersion(message) === messageVersion(existing)) store.put(message);
+        return existing.unverified && !message.unverified ? message : undefined;
+      }
+      store.put(message);
+      return message;
+    }));
+    return written.filter((message): message is MessageWithAuthor => !!message);
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    const tx = await this.transaction([MESSAGES], "readwrite");
+    await request(tx.objectStore(MESSAGES).delete(id));
+  }
+
+  async getMessage(id: string): Promise<MessageWithAuthor | undefined> {
+    const tx = await this.transaction([MESSAGES], "readonly");
+    return request(tx.objectStore(MESSAGES).get(id));
+  }
+
+  // A channel's stored history, oldest first
+  async getChannelMessages(channelId: string, since = 0): Promise<MessageWithAuthor[]> {
+    const tx = await this.transaction([MESSAGES], "readonly");
+    const messages: MessageWithAuthor[] = await request(tx.objectStore(MESSAGES).index("channelId").getAll(channelId));
+    return messages
+      .filter(message => !message.threadId && timeOf(message) >= since)
+      .sort((a, b) => timeOf(a) - timeOf(b));
+  }
+
+  // Serves a page of history the same way the server would, for latest and `before` cursors
+  async getPage(channelId: string, cursor: MessageCursor): Promise<MessageWithAuthor[] | undefined> {
+    if (cursor.after || cursor.around) return undefined;
+
+    let messages = await this.getChannelMessages(channelId);
+    if (cursor.before) {
+      const index = messages.findIndex(message => message.id === cursor.before);
+      if (index === -1) return undefined;
+      messages = messages.slice(0, index);
+    }
+    return messages.slice(-MESSAGE_PAGE_SIZE);
+  }
+
+  async queueOutgoing(entry: OutboxEntry): Promise<void> {
+    const tx = await this.transaction([OUTBOX], "readwrite");
+    await request(tx.objectStore(OUTBOX).put(entry));
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const tx = await this.transaction([OUTBOX], "readonly");
+    const entries: OutboxEntry[] = await request(tx.objectStore(OUTBOX).getAll());
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async removeOutgoing(nonce: string): Promise<void> {
+    const tx = await this.transaction([OUTBOX], "readwrite");
+    await request(tx.objectStore(OUTBOX).delete(nonce));
+  }
+}
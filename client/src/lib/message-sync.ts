@@ -0,0 +1,155 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { fromRelayedMessage, mergeCachedMessage, replaceCachedMessage, type MessagePages } from "@/hooks/use-realtime";
+import {
+  SYNC_BATCH_SIZE,
+  SYNC_BUCKET_MS,
+  SYNC_WINDOW_MS,
+  toRelayedMessage,
+  type P2PEnvelope,
+  type P2PPayload,
+} from "@shared/p2p";
+import type { MessageWithAuthor } from "@shared/schema";
+import { messageVersion, type MessageStore } from "./message-store";
+import type { WebRTCManager } from "./webrtc";
+
+type SyncBucket = P2PPayload<"sync.summary">["buckets"][number];
+
+const PERSIST_DELAY_MS = 500;
+
+function bucketStart(message: Pick<MessageWithAuthor, "createdAt">): number {
+  return Math.floor(new Date(message.createdAt!).getTime() / SYNC_BUCKET_MS) * SYNC_BUCKET_MS;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Groups history into hour-long buckets, each hashed over its message IDs and versions,
+// so two peers can tell which stretches of history differ without exchanging them
+async function summarize(messages: MessageWithAuthor[]): Promise<SyncBucket[]> {
+  const buckets = new Map<number, string[]>();
+  messages.forEach(message => {
+    const start = bucketStart(message);
+    buckets.set(start, [...(buckets.get(start) ?? []), `${message.id}:${messageVersion(message)}`]);
+  });
+
+  return Promise.all(Array.from(buckets.entries(), async ([start, entries]) => ({
+    start,
+    count: entries.length,
+    hash: await sha256Hex(entries.sort().join("\n")),
+  })));
+}
+
+// Applies a message from a peer to the open history, whether or not it is already shown
+function applyToCache(queryClient: QueryClient, message: MessageWithAuthor) {
+  replaceCachedMessage(queryClient, message);
+  mergeCachedMessage(queryClient, message);
+}
+
+// Reconciles the current channel's recent history with each peer as it connects:
+// peers swap bucket summaries, then request and send the buckets that differ
+export class MessageSync {
+  constructor(
+    private webrtc: WebRTCManager,
+    private store: MessageStore,
+    private queryClient: QueryClient,
+    private currentChannel: () => string | null,
+  ) {}
+
+  // Registers the sync handlers; returns a function that removes them
+  public start(): () => void {
+    const stops = [
+      this.webrtc.on("sync.summary", (from, envelope) => this.handleSummary(from, envelope)),
+      this.webrtc.on("sync.request", (from, envelope) => this.handleRequest(from, envelope)),
+      this.webrtc.on("sync.messages", (from, envelope, verified) => this.handleMessages(from, envelope, verified), {
+        acceptUnverified: true,
+      }),
+    ];
+    return () => stops.forEach(stop => stop());
+  }
+
+  public async syncWithPeer(peerId: string) {
+    const channelId = this.currentChannel();
+    if (!channelId) return;
+
+    const buckets = await summarize(await this.recentHistory(channelId));
+    this.webrtc.sendTo(peerId, "sync.summary", { buckets }, channelId);
+  }
+
+  private recentHistory(channelId: string): Promise<MessageWithAuthor[]> {
+    return this.store.getChannelMessages(channelId, Date.now() - SYNC_WINDOW_MS);
+  }
+
+  // Frames are only honored for the channel both peers are connected through
+  private activeChannel(envelope: P2PEnvelope): string | undefined {
+    const channelId = this.currentChannel();
+    return channelId && envelope.channelId === channelId ? channelId : undefined;
+  }
+
+  private async handleSummary(from: string, envelope: P2PEnvelope<"sync.summary">) {
+    const channelId = this.activeChannel(envelope);
+    if (!channelId) return;
+
+    const local = new Map((await summarize(await this.recentHistory(channelId))).map(bucket => [bucket.start, bucket.hash]));
+    const oldest = bucketStart({ createdAt: new Date(Date.now() - SYNC_WINDOW_MS) });
+    const starts = envelope.payload.buckets
+      .filter(bucket => bucket.start >= oldest && local.get(bucket.start) !== bucket.hash)
+      .map(bucket => bucket.start);
+    if (starts.length > 0) {
+      this.webrtc.sendTo(from, "sync.request", { starts }, channelId);
+    }
+  }
+
+  private async handleRequest(from: string, envelope: P2PEnvelope<"sync.request">) {
+    const channelId = this.activeChannel(envelope);
+    if (!channelId) return;
+
+    const starts = new Set(envelope.payload.starts);
+    const messages = (await this.recentHistory(channelId)).filter(message => starts.has(bucketStart(message)));
+    for (let i = 0; i < messages.length; i += SYNC_BATCH_SIZE) {
+      const batch = messages.slice(i, i + SYNC_BATCH_SIZE).map(toRelayedMessage);
+      this.webrtc.sendTo(from, "sync.messages", { messages: batch }, channelId);
+    }
+  }
+
+  // Only messages the sending peer signed and wrote itself count as verified; copies
+  // of other people's messages could have been altered on the way
+  private async handleMessages(from: string, envelope: P2PEnvelope<"sync.messages">, verified: boolean) {
+    const channelId = this.activeChannel(envelope);
+    if (!channelId) return;
+
+    const messages = envelope.payload.messages
+      .filter(relayed => relayed.channelId === channelId && !relayed.threadId)
+      .map(relayed => fromRelayedMessage(this.queryClient, relayed))
+      .filter((message): message is MessageWithAuthor => !!message)
+      .map(message => ({ ...message, unverified: !(verified && message.authorId === from) }));
+    const changed = await this.store.putMessages(messages);
+    changed.forEach(message => applyToCache(this.queryClient, message));
+  }
+}
+
+// Mirrors every channel history held in the query cache into the local store
+export function persistChannelHistory(queryClient: QueryClient, store: MessageStore): () => void {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(event => {
+    const { queryKey, queryHash } = event.query;
+    if (event.type !== "updated" || queryKey[0] !== "/api/channels" || queryKey[2] !== "messages") return;
+
+    // Writes are batched, since a busy channel updates its history on every event
+    clearTimeout(timers.get(queryHash));
+    timers.set(queryHash, setTimeout(() => {
+      timers.delete(queryHash);
+      const data = queryClient.getQueryData<MessagePages>(queryKey);
+      if (data) {
+        store.putMessages(data.pages.flat()).catch(error => console.error("Error saving messages:", error));
+      }
+    }, PERSIST_DELAY_MS));
+  });
+
+  return () => {
+    unsubscribe();
+    timers.forEach(timer => clearTimeout(timer));
+  };
+}
@@ -0,0 +1,95 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { apiRequest } from "./queryClient";
+import { toast } from "@/hooks/use-toast";
+import { dropCachedMessage, mergeCachedMessage } from "@/hooks/use-realtime";
+import type { MessageWithAuthor, User } from "@shared/schema";
+import type { MessageStore, OutboxEntry } from "./message-store";
+
+// fetch rejects with a TypeError when the request never reaches the server,
+// and gateways answer 502-504 while it is down
+export function isServerUnreachable(error: unknown): boolean {
+  return error instanceof TypeError || (error instanceof Error && /^50[234]:/.test(error.message));
+}
+
+// Shows a message right away and keeps it in the outbox until the server is back
+export async function queueOfflineMessage(
+  queryClient: QueryClient,
+  store: MessageStore,
+  entry: OutboxEntry,
+  author: User,
+  replyTo?: MessageWithAuthor | null,
+): Promise<MessageWithAuthor> {
+  const message: MessageWithAuthor = {
+    id: entry.nonce,
+    nonce: entry.nonce,
+    content: entry.content,
+    channelId: entry.channelId,
+    authorId: author.id,
+    type: "text",
+    attachments: null,
+    createdAt: new Date(entry.queuedAt),
+    editedAt: null,
+    deletedAt: null,
+    replyToId: entry.replyToId ?? null,
+    threadId: null,
+    pinnedAt: null,
+    pinnedById: null,
+    author,
+    replyTo: replyTo ? {
+      id: replyTo.id,
+      content: replyTo.content,
+      authorId: replyTo.authorId,
+      deletedAt: replyTo.deletedAt,
+      author: replyTo.author,
+    } : null,
+    thread: null,
+    reactions: [],
+  };
+
+  await store.queueOutgoing(entry);
+  await store.putMessages([message]);
+  mergeCachedMessage(queryClient, message);
+  return message;
+}
+
+let flushing = false;
+
+// Posts queued messages in the order they were written, stopping at the first one the
+// server cannot be reached for. Each confirmed copy replaces its pending one and is
+// relayed to peers, who may only have seen the pending copy.
+export async function flushOutbox(
+  queryClient: QueryClient,
+  store: MessageStore,
+  relay: (message: MessageWithAuthor) => void,
+) {
+  if (flushing) return;
+  flushing = true;
+
+  try {
+    for (const entry of await store.getOutbox()) {
+      const { queuedAt, ...data } = entry;
+      try {
+        const response = await apiRequest("POST", "/api/messages", data);
+        const message: MessageWithAuthor = await response.json();
+        await store.removeOutgoing(entry.nonce);
+        await store.putMessages([message]);
+        mergeCachedMessage(queryClient, message);
+        relay(message);
+      } catch (error) {
+        if (isServerUnreachable(error)) break;
+
+        // Refused outright, e.g. the author lost access while offline
+        await store.removeOutgoing(entry.nonce);
+        await store.deleteMessage(entry.nonce);
+        dropCachedMessage(queryClient, { id: entry.nonce, channelId: entry.channelId, threadId: null });
+        toast({
+          title: "Failed to send message",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
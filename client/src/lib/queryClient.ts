@@ -1,6 +1,20 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { navigate } from "wouter/use-browser-location";
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+// The session is gone: forget the cached user and send them back to sign in
+function handleUnauthorized() {
+  queryClient.setQueryData(AUTH_QUERY_KEY, null);
+  if (window.location.pathname !== "/auth") {
+    navigate("/auth");
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) {
+    handleUnauthorized();
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -23,6 +37,22 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a multipart body; the browser sets the boundary header itself
+export async function apiUpload(
+  method: string,
+  url: string,
+  data: FormData,
+): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    body: data,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,8 +1,38 @@
 import type { WebRTCSignal } from "@shared/schema";
+import { createP2PEnvelope, parseP2PEnvelope, signingInput, type P2PEnvelope, type P2PKind, type P2PPayload } from "@shared/p2p";
+import { Identity, KeyDirectory } from "./identity";
+import {
+  FILE_CHANNEL_LABEL,
+  FILE_CONTROL_KINDS,
+  type FileControlEnvelope,
+  type FileTransferManager,
+} from "./file-transfer";
+
+// `verified` is whether the envelope carried a valid signature by the sending peer
+export type P2PHandler<K extends P2PKind> = (from: string, envelope: P2PEnvelope<K>, verified: boolean) => void;
+
+interface HandlerOptions {
+  // Unverified frames are dropped unless the handler can mark what it shows as unverified
+  acceptUnverified?: boolean;
+}
+
+interface Registration {
+  handler: P2PHandler<P2PKind>;
+  acceptUnverified: boolean;
+}
+
+function isEnvelopeOf<K extends P2PKind>(envelope: P2PEnvelope, kind: K): envelope is P2PEnvelope<K> {
+  return envelope.kind === kind;
+}
 
 export class WebRTCManager {
   private userId: string;
   private socket: WebSocket;
+  private fileTransfers: FileTransferManager;
+  private identity: Promise<Identity | undefined>;
+  private keys: KeyDirectory;
+  private handlers: Map<P2PKind, Set<Registration>> = new Map();
+  private inbound: Promise<void> = Promise.resolve();
   private peers: Map<string, RTCPeerConnection> = new Map();
   private dataChannels: Map<string, RTCDataChannel> = new Map();
   private localStream: MediaStream | null = null;
@@ -11,12 +41,72 @@ export class WebRTCManager {
 
   public onPeerConnected?: (peerId: string) => void;
   public onPeerDisconnected?: (peerId: string) => void;
-  public onMessageReceived?: (from: string, message: string) => void;
+  public onDataChannelOpen?: (peerId: string) => void;
 
-  constructor(userId: string, socket: WebSocket) {
+  constructor(userId: string, socket: WebSocket, fileTransfers: FileTransferManager) {
     this.userId = userId;
     this.socket = socket;
+    this.fileTransfers = fileTransfers;
+    this.identity = Identity.forUser(userId);
+    this.keys = KeyDirectory.forUser(userId);
+    fileTransfers.encodeFrame = (kind, payload) => this.encode(kind, payload);
     this.setupSocketListeners();
+
+    FILE_CONTROL_KINDS.forEach(kind => {
+      this.on(kind, (from, envelope) => fileTransfers.handleControl(from, envelope as FileControlEnvelope));
+    });
+  }
+
+  // Registers a handler for one envelope kind; returns a function that removes it
+  public on<K extends P2PKind>(kind: K, handler: P2PHandler<K>, options: HandlerOptions = {}): () => void {
+    let handlers = this.handlers.get(kind);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(kind, handlers);
+    }
+    const registration: Registration = {
+      // Frames are routed by kind already; the check narrows the envelope for the handler
+      handler: (from, envelope, verified) => {
+        if (isEnvelopeOf(envelope, kind)) handler(from, envelope, verified);
+      },
+      acceptUnverified: options.acceptUnverified ?? false,
+    };
+    handlers.add(registration);
+    return () => {
+      handlers!.delete(registration);
+    };
+  }
+
+  // Frames are checked one at a time so handlers see them in the order they arrived
+  private dispatch(from: string, data: unknown) {
+    this.inbound = this.inbound
+      .then(() => this.verifyAndDispatch(from, data))
+      .catch(error => console.error('Error handling data channel frame:', error));
+  }
+
+  // Validates an incoming text frame, checks its signature and routes it to the handlers for its kind
+  private async verifyAndDispatch(from: string, data: unknown) {
+    const frame = typeof data === 'string' ? parseP2PEnvelope(data) : undefined;
+    if (!frame || frame.envelope.from !== from) {
+      console.warn(`Dropped malformed data channel frame from ${from}`);
+      return;
+    }
+
+    const { envelope, signed } = frame;
+    const verified = !!envelope.sig && await this.keys.verify(from, signed, envelope.sig);
+    this.handlers.get(envelope.kind)?.forEach(({ handler, acceptUnverified }) => {
+      if (verified || acceptUnverified) handler(from, envelope, verified);
+    });
+  }
+
+  // Serializes an envelope, signed where the browser supports Ed25519
+  private async encode<K extends P2PKind>(kind: K, payload: P2PPayload<K>, channelId: string | null = null): Promise<string> {
+    const envelope = createP2PEnvelope(kind, payload, this.userId, channelId);
+    const identity = await this.identity;
+    if (identity) {
+      envelope.sig = await identity.sign(signingInput(envelope));
+    }
+    return JSON.stringify(envelope);
   }
 
   private setupSocketListeners() {
@@ -31,21 +121,25 @@ export class WebRTCManager {
   }
 
   private async handleSignal(signal: WebRTCSignal) {
+    // The server stamps every relayed signal with the sender's identity
+    const { from } = signal;
+    if (!from) return;
+
     switch (signal.type) {
       case 'peer-joined':
-        await this.connectToPeer(signal.from);
+        await this.connectToPeer(from);
         break;
       case 'peer-left':
-        this.disconnectFromPeer(signal.from);
+        this.disconnectFromPeer(from);
         break;
       case 'offer':
-        await this.handleOffer(signal);
+        await this.handleOffer(from, signal.data);
         break;
       case 'answer':
-        await this.handleAnswer(signal);
+        await this.handleAnswer(from, signal.data);
         break;
       case 'ice-candidate':
-        await this.handleIceCandidate(signal);
+        await this.handleIceCandidate(from, signal.data);
         break;
     }
   }
@@ -56,6 +150,13 @@ export class WebRTCManager {
     // Create data channel for text messaging
     const dataChannel = peerConnection.createDataChannel('messages');
     this.setupDataChannel(dataChannel, peerId);
+
+    // File chunks get their own channel so they never hold up chat messages
+    this.fileTransfers.attachChannel(
+      peerId,
+      peerConnection.createDataChannel(FILE_CHANNEL_LABEL),
+      data => this.dispatch(peerId, data)
+    );
     
     // Add local media streams if available
     if (this.localStream) {
@@ -98,7 +199,11 @@ export class WebRTCManager {
     };
 
     peerConnection.ondatachannel = (event) => {
-      this.setupDataChannel(event.channel, peerId);
+      if (event.channel.label === FILE_CHANNEL_LABEL) {
+        this.fileTransfers.attachChannel(peerId, event.channel, data => this.dispatch(peerId, data));
+      } else {
+        this.setupDataChannel(event.channel, peerId);
+      }
     };
 
     peerConnection.ontrack = (event) => {
@@ -125,10 +230,11 @@ export class WebRTCManager {
     
     dataChannel.onopen = () => {
       console.log(`Data channel opened with ${peerId}`);
+      this.onDataChannelOpen?.(peerId);
     };
     
     dataChannel.onmessage = (event) => {
-      this.onMessageReceived?.(peerId, event.data);
+      this.dispatch(peerId, event.data);
     };
     
     dataChannel.onclose = () => {
@@ -137,10 +243,10 @@ export class WebRTCManager {
     };
   }
 
-  private async handleOffer(signal: WebRTCSignal) {
-    const peerConnection = this.createPeerConnection(signal.from);
+  private async handleOffer(from: string, offer: RTCSessionDescriptionInit) {
+    const peerConnection = this.createPeerConnection(from);
     
-    await peerConnection.setRemoteDescription(signal.data);
+    await peerConnection.setRemoteDescription(offer);
     
     // Add local media streams if available
     if (this.localStream) {
@@ -155,22 +261,22 @@ export class WebRTCManager {
     this.socket.send(JSON.stringify({
       type: 'answer',
       from: this.userId,
-      to: signal.from,
+      to: from,
       data: answer
     } as WebRTCSignal));
   }
 
-  private async handleAnswer(signal: WebRTCSignal) {
-    const peerConnection = this.peers.get(signal.from);
+  private async handleAnswer(from: string, answer: RTCSessionDescriptionInit) {
+    const peerConnection = this.peers.get(from);
     if (peerConnection) {
-      await peerConnection.setRemoteDescription(signal.data);
+      await peerConnection.setRemoteDescription(answer);
     }
   }
 
-  private async handleIceCandidate(signal: WebRTCSignal) {
-    const peerConnection = this.peers.get(signal.from);
+  private async handleIceCandidate(from: string, candidate: RTCIceCandidateInit) {
+    const peerConnection = this.peers.get(from);
     if (peerConnection) {
-      await peerConnection.addIceCandidate(signal.data);
+      await peerConnection.addIceCandidate(candidate);
     }
   }
 
@@ -182,6 +288,7 @@ export class WebRTCManager {
     }
     
     this.dataChannels.delete(peerId);
+    this.fileTransfers.detachPeer(peerId);
     this.onPeerDisconnected?.(peerId);
   }
 
@@ -207,12 +314,30 @@ export class WebRTCManager {
     }
   }
 
-  public sendMessage(content: string) {
-    this.dataChannels.forEach((channel) => {
-      if (channel.readyState === 'open') {
-        channel.send(content);
+  // Broadcasts an envelope to every connected peer
+  public send<K extends P2PKind>(kind: K, payload: P2PPayload<K>, channelId: string | null = null) {
+    this.encode(kind, payload, channelId).then((frame) => {
+      this.dataChannels.forEach((channel) => {
+        if (channel.readyState === 'open') {
+          channel.send(frame);
+        }
+      });
+    }).catch(error => console.error('Error sending data channel frame:', error));
+  }
+
+  // Returns how many peers the file was offered to; zero means there is no peer path
+  public sendFile(file: File): number {
+    return this.fileTransfers.sendFile(file);
+  }
+
+  // Sends an envelope to a single peer, if its data channel is open
+  public sendTo<K extends P2PKind>(peerId: string, kind: K, payload: P2PPayload<K>, channelId: string | null = null) {
+    this.encode(kind, payload, channelId).then((frame) => {
+      const channel = this.dataChannels.get(peerId);
+      if (channel?.readyState === 'open') {
+        channel.send(frame);
       }
-    });
+    }).catch(error => console.error('Error sending data channel frame:', error));
   }
 
   public async startVoiceCall() {
@@ -301,6 +426,7 @@ export class WebRTCManager {
     });
     this.peers.clear();
     this.dataChannels.clear();
+    this.fileTransfers.detachAll();
     
     if (this.localStream) {
       this.localStream.getTracks().forEach(track => track.stop());
@@ -40,7 +40,6 @@ export default function Auth() {
       password: "",
       confirmPassword: "",
       avatar: "",
-      status: "online",
     },
   });
 
@@ -1,28 +1,83 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/context/auth";
 import { useSocket } from "@/hooks/use-socket";
+import { usePresence } from "@/hooks/use-presence";
 import { useWebRTC } from "@/hooks/use-webrtc";
+import { useRealtime, type MessagePages } from "@/hooks/use-realtime";
+import { useOfflineHistory } from "@/hooks/use-offline-history";
+import { DirectMessageCrypto } from "@/lib/e2ee";
+import { MessageStore } from "@/lib/message-store";
+import { isServerUnreachable } from "@/lib/outbox";
+import { useToast } from "@/hooks/use-toast";
 import ServerSidebar from "@/components/server-sidebar";
 import ChannelSidebar from "@/components/channel-sidebar";
 import ChatArea from "@/components/chat-area";
 import MembersList from "@/components/members-list";
-import type { Server, Channel, ServerWithChannels, MessageWithAuthor, ServerMember, User } from "@shared/schema";
+import ThreadPanel from "@/components/thread-panel";
+import SearchPanel from "@/components/search-panel";
+import DirectMessageSidebar from "@/components/direct-message-sidebar";
+import DirectMessagePane from "@/components/direct-message-pane";
+import GroupConversationPane from "@/components/group-conversation-pane";
+import FriendsPanel from "@/components/friends-panel";
+import {
+  MESSAGE_PAGE_SIZE,
+  type Server,
+  type Channel,
+  type ServerWithChannels,
+  type DirectConversation,
+  type GroupWithMembers,
+  type MessageWithAuthor,
+  type MessageCursor,
+  type ServerMember,
+  type SearchResult,
+  type PublicUser,
+  type User,
+} from "@shared/schema";
+
+// Falls back to the local copy of the history while the server is unreachable
+async function fetchMessagePage(channelId: string, pageParam: MessageCursor, store: MessageStore): Promise<MessageWithAuthor[]> {
+  const params = new URLSearchParams(pageParam as Record<string, string>);
+  try {
+    const response = await fetch(`/api/channels/${channelId}/messages?${params}`, {
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${await response.text()}`);
+    }
+    return await response.json();
+  } catch (error) {
+    const page = isServerUnreachable(error) ? await store.getPage(channelId, pageParam) : undefined;
+    if (page) return page;
+    throw error;
+  }
+}
 
 export default function Home() {
   const { user } = useAuth();
   const [selectedServer, setSelectedServer] = useState<Server | null>(null);
   const [selectedChannel, setSelectedChannel] = useState<Channel | null>(null);
+  const [selectedDmUser, setSelectedDmUser] = useState<PublicUser | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  // Only the first load picks a server; choosing Home afterwards must stick
+  const initialServerSelected = useRef(false);
   const [showMembersList, setShowMembersList] = useState(true);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState<string | null>(null);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  // A search result in another channel is opened once that channel is selected
+  const [pendingResult, setPendingResult] = useState<Extract<SearchResult, { type: "message" }> | null>(null);
+  const { toast } = useToast();
 
   const { socket } = useSocket();
+  usePresence(socket);
   const webrtc = useWebRTC(socket, user?.id || "");
+  useOfflineHistory(socket, user?.id || "", webrtc.sendMessage);
 
   const { data: servers = [], isLoading: serversLoading } = useQuery<Server[]>({
     queryKey: ["/api/servers", user?.id],
     queryFn: async () => {
-      if (!user?.id) throw new Error("User ID required");
-      const response = await fetch(`/api/servers?userId=${user.id}`, {
+      const response = await fetch("/api/servers", {
         credentials: "include",
       });
       if (!response.ok) {
@@ -48,21 +103,121 @@ export default function Home() {
     enabled: !!selectedServer?.id,
   });
 
-  const { data: messages = [], isLoading: messagesLoading } = useQuery<MessageWithAuthor[]>({
-    queryKey: ["/api/channels", selectedChannel?.id, "messages"],
-    queryFn: async () => {
+  const { data: conversations = [], isLoading: conversationsLoading } = useQuery<DirectConversation[]>({
+    queryKey: ["/api/direct-messages/conversations"],
+    enabled: !!user?.id && !selectedServer,
+  });
+
+  const { data: groups = [], isLoading: groupsLoading } = useQuery<GroupWithMembers[]>({
+    queryKey: ["/api/groups"],
+    enabled: !!user?.id && !selectedServer,
+  });
+  // Leaving or being removed from the open group drops it from the list, which closes it
+  const selectedGroup = groups.find(g => g.id === selectedGroupId);
+
+  const selectDirectMessage = (peer: PublicUser) => {
+    setSelectedGroupId(null);
+    setSelectedDmUser(peer);
+  };
+
+  const selectGroup = (group: GroupWithMembers) => {
+    setSelectedDmUser(null);
+    setSelectedGroupId(group.id);
+  };
+
+  const selectFriends = () => {
+    setSelectedDmUser(null);
+    setSelectedGroupId(null);
+  };
+
+  const queryClient = useQueryClient();
+  const messagesQueryKey = ["/api/channels", selectedChannel?.id, "messages"];
+
+  // Pages are held oldest first; the initial page is the latest history
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    fetchPreviousPage,
+    hasPreviousPage,
+    isFetchingPreviousPage,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey,
+    queryFn: async ({ pageParam }): Promise<MessageWithAuthor[]> => {
       if (!selectedChannel?.id) throw new Error("Channel ID required");
-      const response = await fetch(`/api/channels/${selectedChannel.id}/messages`, {
-        credentials: "include",
-      });
-      if (!response.ok) {
-        throw new Error(`${response.status}: ${await response.text()}`);
-      }
-      return response.json();
+      return fetchMessagePage(selectedChannel.id, pageParam, MessageStore.forUser(user!.id));
+    },
+    initialPageParam: {} as MessageCursor,
+    getPreviousPageParam: (firstPage, _pages, firstPageParam): MessageCursor | undefined => {
+      if (firstPage.length === 0) return undefined;
+      if (!firstPageParam.around && firstPage.length < MESSAGE_PAGE_SIZE) return undefined;
+      return { before: firstPage[0].id };
+    },
+    // Only windows opened around an older message have newer history left to load
+    getNextPageParam: (lastPage, _pages, lastPageParam): MessageCursor | undefined => {
+      if (!lastPageParam.after && !lastPageParam.around) return undefined;
+      if (lastPage.length === 0) return undefined;
+      if (lastPageParam.after && lastPage.length < MESSAGE_PAGE_SIZE) return undefined;
+      return { after: lastPage[lastPage.length - 1].id };
     },
     enabled: !!selectedChannel?.id,
   });
 
+  const messages = useMemo(() => messagePages?.pages.flat() ?? [], [messagePages]);
+
+  const jumpToPresent = () => {
+    queryClient.resetQueries({ queryKey: messagesQueryKey });
+  };
+
+  // Scrolls to a message in the selected channel, loading a window of history around it if needed
+  const jumpToMessage = async (messageId: string) => {
+    setJumpTargetId(messageId);
+    if (!selectedChannel?.id || messages.some(m => m.id === messageId)) return;
+
+    const cursor: MessageCursor = { around: messageId };
+    try {
+      await queryClient.cancelQueries({ queryKey: messagesQueryKey });
+      const page = await fetchMessagePage(selectedChannel.id, cursor, MessageStore.forUser(user!.id));
+      queryClient.setQueryData<MessagePages>(messagesQueryKey, { pages: [page], pageParams: [cursor] });
+    } catch (error: any) {
+      setJumpTargetId(null);
+      toast({
+        title: "Failed to load message",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectServer = (server: Server | null) => {
+    if (server?.id === selectedServer?.id) return;
+    setSelectedServer(server);
+    setSelectedChannel(null);
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+    if (result.type === "direct-message") {
+      const { message } = result;
+      selectServer(null);
+      selectDirectMessage(message.senderId === user!.id ? message.recipient : message.sender);
+      setSearchQuery(null);
+      return;
+    }
+
+    const { channel } = result;
+    if (channel.serverId !== selectedServer?.id) {
+      const server = servers.find(s => s.id === channel.serverId);
+      if (!server) return;
+      setSelectedServer(server);
+    }
+    if (channel.id !== selectedChannel?.id) {
+      setSelectedChannel(channel);
+    }
+    setPendingResult(result);
+  };
+
   const { data: members = [] } = useQuery<(ServerMember & { user: User })[]>({
     queryKey: ["/api/servers", selectedServer?.id, "members"],
     queryFn: async () => {
@@ -78,13 +233,24 @@ export default function Home() {
     enabled: !!selectedServer?.id,
   });
 
+  const textChannelIds = (serverData?.channels ?? []).filter(c => c.type === "text").map(c => c.id);
+  useRealtime(socket, user?.id ?? "", textChannelIds);
+
   // Select first server and channel by default
   useEffect(() => {
-    if (servers.length > 0 && !selectedServer) {
-      setSelectedServer(servers[0]);
+    if (servers.length > 0 && !initialServerSelected.current) {
+      initialServerSelected.current = true;
+      if (!selectedServer) setSelectedServer(servers[0]);
     }
   }, [servers, selectedServer]);
 
+  // Registers this browser's device key so others can send it encrypted direct messages
+  useEffect(() => {
+    if (user?.id) {
+      DirectMessageCrypto.forUser(user.id).localDevice().catch(() => {});
+    }
+  }, [user?.id]);
+
   useEffect(() => {
     if (serverData?.channels && serverData.channels.length > 0 && !selectedChannel) {
       const textChannels = serverData.channels.filter(c => c.type === "text");
@@ -94,6 +260,25 @@ export default function Home() {
     }
   }, [serverData, selectedChannel]);
 
+  // Threads belong to a channel; switching channels closes the panel
+  useEffect(() => {
+    setOpenThreadId(null);
+    setJumpTargetId(null);
+  }, [selectedChannel?.id]);
+
+  useEffect(() => {
+    if (!pendingResult || pendingResult.channel.id !== selectedChannel?.id) return;
+
+    const { message } = pendingResult;
+    setPendingResult(null);
+    if (message.threadId) {
+      setSearchQuery(null);
+      setOpenThreadId(message.threadId);
+    } else {
+      jumpToMessage(message.id);
+    }
+  }, [pendingResult, selectedChannel?.id]);
+
   // Join WebRTC channel when channel is selected
   useEffect(() => {
     if (selectedChannel && user) {
@@ -113,44 +298,96 @@ export default function Home() {
       <ServerSidebar
         servers={servers}
         selectedServer={selectedServer}
-        onServerSelect={setSelectedServer}
+        onServerSelect={selectServer}
         isLoading={serversLoading}
         user={user}
         data-testid="server-sidebar"
       />
       
-      <ChannelSidebar
-        server={serverData}
-        selectedChannel={selectedChannel}
-        onChannelSelect={setSelectedChannel}
-        isLoading={serverLoading}
-        user={user}
-        connectedPeers={webrtc.connectedPeers}
-        data-testid="channel-sidebar"
-      />
+      {!selectedServer ? (
+        <>
+          <DirectMessageSidebar
+            user={user}
+            conversations={conversations}
+            groups={groups}
+            isLoading={conversationsLoading || groupsLoading}
+            selectedUserId={selectedDmUser?.id ?? null}
+            selectedGroupId={selectedGroup?.id ?? null}
+            friendsSelected={!selectedGroup && !selectedDmUser}
+            onSelect={selectDirectMessage}
+            onSelectGroup={selectGroup}
+            onSelectFriends={selectFriends}
+          />
+          {selectedGroup ? (
+            <GroupConversationPane key={selectedGroup.id} user={user} group={selectedGroup} />
+          ) : selectedDmUser ? (
+            <DirectMessagePane key={selectedDmUser.id} user={user} peer={selectedDmUser} />
+          ) : (
+            <FriendsPanel onMessage={selectDirectMessage} />
+          )}
+        </>
+      ) : (
+        <>
+          <ChannelSidebar
+            server={serverData ?? null}
+            selectedChannel={selectedChannel}
+            onChannelSelect={setSelectedChannel}
+            isLoading={serverLoading}
+            user={user}
+            connectedPeers={webrtc.connectedPeers}
+            data-testid="channel-sidebar"
+          />
       
-      <ChatArea
-        channel={selectedChannel}
-        messages={messages}
-        isLoading={messagesLoading}
-        user={user}
-        onToggleMembersList={() => setShowMembersList(!showMembersList)}
-        showMembersList={showMembersList}
-        connectedPeers={webrtc.connectedPeers}
-        onSendMessage={(content: string) => {
-          if (selectedChannel) {
-            webrtc.sendMessage(selectedChannel.id, content);
-          }
-        }}
-        data-testid="chat-area"
-      />
+          <ChatArea
+            channel={selectedChannel}
+            messages={messages}
+            isLoading={messagesLoading}
+            hasOlderMessages={hasPreviousPage}
+            isLoadingOlderMessages={isFetchingPreviousPage}
+            onLoadOlderMessages={() => fetchPreviousPage()}
+            hasNewerMessages={hasNextPage}
+            isLoadingNewerMessages={isFetchingNextPage}
+            onLoadNewerMessages={() => fetchNextPage()}
+            onJumpToPresent={jumpToPresent}
+            jumpTargetId={jumpTargetId}
+            onJumpToMessage={jumpToMessage}
+            onJumpComplete={() => setJumpTargetId(null)}
+            onSearch={setSearchQuery}
+            user={user}
+            onToggleMembersList={() => setShowMembersList(!showMembersList)}
+            showMembersList={showMembersList}
+            connectedPeers={webrtc.connectedPeers}
+            onSendMessage={webrtc.sendMessage}
+            onOpenThread={setOpenThreadId}
+            fileTransfers={webrtc.fileTransfers}
+            members={members}
+            data-testid="chat-area"
+          />
       
-      {showMembersList && (
-        <MembersList
-          members={members}
-          connectedPeers={webrtc.connectedPeers}
-          data-testid="members-list"
-        />
+          {searchQuery ? (
+            <SearchPanel
+              key={searchQuery}
+              query={searchQuery}
+              userId={user.id}
+              serverId={selectedServer?.id}
+              onClose={() => setSearchQuery(null)}
+              onOpenResult={openSearchResult}
+            />
+          ) : openThreadId ? (
+            <ThreadPanel
+              key={openThreadId}
+              threadId={openThreadId}
+              userId={user.id}
+              onClose={() => setOpenThreadId(null)}
+            />
+          ) : showMembersList && (
+            <MembersList
+              members={members}
+              connectedPeers={webrtc.connectedPeers}
+              data-testid="members-list"
+            />
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,164 @@
+import type { RequestHandler, Response } from "express";
+import multer from "multer";
+import path from "path";
+import { randomUUID } from "crypto";
+import { blobStore } from "./blob-store";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  type Attachment
+} from "@shared/schema";
+
+class UnsupportedAttachmentError extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: "utf8",
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: MAX_ATTACHMENTS_PER_MESSAGE },
+  fileFilter: (_req, file, callback) => {
+    if (ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new UnsupportedAttachmentError(`Unsupported file type: ${file.mimetype || "unknown"}`));
+    }
+  },
+});
+
+// Parses multipart bodies, with files under the `files` field; JSON bodies pass straight through
+export const acceptAttachments: RequestHandler = (req, res, next) => {
+  upload.array("files", MAX_ATTACHMENTS_PER_MESSAGE)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: `Files can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB` });
+      }
+      if (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE") {
+        return res.status(400).json({ message: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached` });
+      }
+      return res.status(400).json({ message: "Invalid upload" });
+    }
+    if (error instanceof UnsupportedAttachmentError) {
+      return res.status(415).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+export function uploadedFiles(files: unknown): Express.Multer.File[] {
+  return Array.isArray(files) ? files : [];
+}
+
+function cleanFileName(name: string): string {
+  const base = path.basename(name).replace(/[\u0000-\u001f\u007f]/g, "").trim();
+  return base.slice(0, 255) || "file";
+}
+
+// Writes uploads to the blob store and returns the metadata to keep on the message
+export async function storeAttachments(files: Express.Multer.File[]): Promise<Attachment[]> {
+  return Promise.all(files.map(async (file) => {
+    const id = randomUUID();
+    await blobStore.put(id, file.buffer);
+    const dimensions = readImageDimensions(file.buffer, file.mimetype);
+    return {
+      id,
+      name: cleanFileName(file.originalname),
+      size: file.size,
+      contentType: file.mimetype,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null
+    };
+  }));
+}
+
+export async function deleteAttachments(attachments: Attachment[] | null) {
+  await Promise.all((attachments ?? []).map(attachment => blobStore.delete(attachment.id)));
+}
+
+// Streams a stored file; media is shown inline, anything else is downloaded
+export async function sendAttachment(res: Response, attachment: Attachment) {
+  const stream = await blobStore.get(attachment.id);
+  if (!stream) {
+    return res.status(404).json({ message: "Attachment not found" });
+  }
+
+  const inline = /^(image|video|audio)\//.test(attachment.contentType);
+  res.setHeader("Content-Type", attachment.contentType);
+  res.setHeader("Content-Length", attachment.size);
+  res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Cache-Control", "private, max-age=86400");
+  // The file can vanish or fail to read after the lookup; once bytes have gone out the
+  // only option left is to cut the response short
+  stream.on("error", (error: NodeJS.ErrnoException) => {
+    console.error("Attachment read error:", error);
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    ["Content-Type", "Content-Length", "Content-Disposition", "Cache-Control"].forEach(name => res.removeHeader(name));
+    if (error.code === "ENOENT") {
+      res.status(404).json({ message: "Attachment not found" });
+    } else {
+      res.status(500).json({ message: "Failed to read attachment" });
+    }
+  });
+  stream.pipe(res);
+}
+
+// Reads pixel dimensions from the header of the image formats we accept
+export function readImageDimensions(data: Buffer, contentType: string): { width: number; height: number } | undefined {
+  try {
+    switch (contentType) {
+      case "image/png":
+        if (data.toString("ascii", 1, 4) !== "PNG") return undefined;
+        // IHDR is always the first chunk
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+      case "image/gif":
+        if (data.toString("ascii", 0, 3) !== "GIF") return undefined;
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+      case "image/webp":
+        return readWebpDimensions(data);
+      case "image/jpeg":
+        return readJpegDimensions(data);
+    }
+  } catch (error) {
+    // Truncated or malformed header
+  }
+  return undefined;
+}
+
+function readWebpDimensions(data: Buffer): { width: number; height: number } | undefined {
+  if (data.toString("ascii", 0, 4) !== "RIFF" || data.toString("ascii", 8, 12) !== "WEBP") return undefined;
+
+  switch (data.toString("ascii", 12, 16)) {
+    case "VP8 ":
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case "VP8L": {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X":
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+function readJpegDimensions(data: Buffer): { width: number; height: number } | undefined {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start-of-frame markers carry the size; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
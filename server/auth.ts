@@ -0,0 +1,126 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import type { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SelectUser;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_TTL_MS });
+}
+
+export const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || "p2p-discord-dev-secret",
+  resave: false,
+  saveUninitialized: false,
+  store: createSessionStore(),
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS,
+  },
+});
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+}
+
+// Stored as "scrypt$<salt>$<hash>" so legacy plaintext records can be told apart
+const PASSWORD_SCHEME = "scrypt";
+const PASSWORD_KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${PASSWORD_SCHEME}$${salt}$${derived.toString("hex")}`;
+}
+
+export function isPasswordHashed(stored: string): boolean {
+  return stored.startsWith(`${PASSWORD_SCHEME}$`);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHashed(stored)) {
+    // Legacy plaintext record; the caller re-hashes it after a successful login
+    const supplied = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+// Shape of a user as exposed over the API
+export function toPublicUser(user: SelectUser): PublicUser {
+  return { id: user.id, username: user.username, email: user.email, avatar: user.avatar, status: user.status, lastSeenAt: user.lastSeenAt };
+}
+
+// Starts a fresh session for the given user, guarding against session fixation
+export function establishSession(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  const userId = req.session.userId;
+  if (!userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  try {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
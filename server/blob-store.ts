@@ -0,0 +1,46 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where uploaded file contents live; keys are opaque IDs chosen by the caller
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  // Keys are used as file names, so anything that could escape the root is rejected
+  private pathFor(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+    await writeFile(this.pathFor(key), data);
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const file = this.pathFor(key);
+    try {
+      await stat(file);
+    } catch (error) {
+      return undefined;
+    }
+    return createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+export const blobStore: BlobStore = new LocalDiskBlobStore(
+  process.env.UPLOAD_DIR ?? path.resolve(process.cwd(), "uploads")
+);
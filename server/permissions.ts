@@ -0,0 +1,106 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import {
+  computeServerPermissions,
+  computeChannelPermissions,
+  hasPermissionBit,
+  builtinRoleRank,
+  type Permission
+} from "@shared/permissions";
+import type { Channel, ChannelOverwrite, ServerMember } from "@shared/schema";
+
+interface MemberContext {
+  serverBits: number;
+  roleIds: string[];
+}
+
+async function getMemberContext(userId: string, serverId: string): Promise<MemberContext | undefined> {
+  const member = await storage.getServerMember(serverId, userId);
+  if (!member) return undefined;
+
+  const customRoles = await storage.getMemberRoles(serverId, userId);
+  return {
+    serverBits: computeServerPermissions(member.role, customRoles.map(role => role.permissions)),
+    roleIds: customRoles.map(role => role.id),
+  };
+}
+
+function applyOverwrites(userId: string, context: MemberContext, channel: Channel, overwrites: ChannelOverwrite[]): number {
+  return computeChannelPermissions(context.serverBits, channel, overwrites, { userId, roleIds: context.roleIds });
+}
+
+// Effective server-level permission bits for a user; 0 when they are not a member
+export async function getServerPermissions(userId: string, serverId: string): Promise<number> {
+  const context = await getMemberContext(userId, serverId);
+  return context?.serverBits ?? 0;
+}
+
+// Effective permission bits inside a single channel, after its overwrites are applied
+export async function getChannelPermissions(userId: string, channel: Channel): Promise<number> {
+  const context = await getMemberContext(userId, channel.serverId);
+  if (!context) return 0;
+
+  return applyOverwrites(userId, context, channel, await storage.getChannelOverwrites(channel.id));
+}
+
+export async function hasChannelPermission(userId: string, channel: Channel, permission: Permission): Promise<boolean> {
+  return hasPermissionBit(await getChannelPermissions(userId, channel), permission);
+}
+
+// Drops the channels of a server that the user is not allowed to see
+export async function filterVisibleChannels(userId: string, serverId: string, channels: Channel[]): Promise<Channel[]> {
+  const context = await getMemberContext(userId, serverId);
+  if (!context) return [];
+
+  const overwrites = await storage.getServerChannelOverwrites(serverId);
+  return channels.filter(channel => {
+    const channelOverwrites = overwrites.filter(o => o.channelId === channel.id);
+    return hasPermissionBit(applyOverwrites(userId, context, channel, channelOverwrites), "viewChannel");
+  });
+}
+
+export async function hasPermission(userId: string, serverId: string, permission: Permission): Promise<boolean> {
+  return hasPermissionBit(await getServerPermissions(userId, serverId), permission);
+}
+
+// Members may only act on members whose built-in role ranks strictly below their own
+export function outranks(actor: ServerMember, target: ServerMember): boolean {
+  return builtinRoleRank(actor.role) > builtinRoleRank(target.role);
+}
+
+// Guards routes of the form /api/servers/:id/... on a server-level permission
+export function requireServerPermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (!(await hasPermission(req.user!.id, req.params.id, permission))) {
+        return res.status(403).json({ message: `Missing permission: ${permission}` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Guards routes of the form /api/channels/:id/...; hidden channels look nonexistent.
+// The loaded channel and its permission bits are left on res.locals for the handler.
+export function requireChannelPermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const channel = await storage.getChannel(req.params.id);
+      const bits = channel ? await getChannelPermissions(req.user!.id, channel) : 0;
+      if (!channel || !hasPermissionBit(bits, "viewChannel")) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      if (!hasPermissionBit(bits, permission)) {
+        return res.status(403).json({ message: `Missing permission: ${permission}` });
+      }
+
+      res.locals.channel = channel;
+      res.locals.permissions = bits;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
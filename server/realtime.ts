@@ -0,0 +1,361 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { sessionMiddleware } from "./auth";
+import { storage } from "./storage";
+import { getChannelPermissions } from "./permissions";
+import { hasPermissionBit } from "@shared/permissions";
+import {
+  SOCKET_CLOSE_CODES,
+  clientFrameSchema,
+  type Channel,
+  type ClientFrame,
+  type PresenceStatus,
+  type RealtimeDirectMessage,
+  type RealtimeEvent,
+  type SubscriptionFrame,
+  type WebRTCSignal,
+} from "@shared/schema";
+
+interface ClientConnection {
+  ws: WebSocket;
+  userId: string;
+  sessionId: string;
+  channels: Set<string>;
+  subscriptions: Set<string>;
+  directMessages: boolean;
+  idle: boolean;
+}
+
+const connections = new Map<WebSocket, ClientConnection>();
+const channelPeers = new Map<string, Map<string, WebSocket>>(); // channelId -> userId -> socket
+const presenceUpdates = new Map<string, Promise<void>>(); // userId -> latest queued update
+
+function send(ws: WebSocket, frame: WebRTCSignal | RealtimeEvent) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(frame));
+  }
+}
+
+// Pushes an event to every socket subscribed to the channel whose user can still see it
+export async function publishToChannel(channel: Channel, event: RealtimeEvent) {
+  const allowed = new Map<string, boolean>();
+  try {
+    for (const connection of Array.from(connections.values())) {
+      if (!connection.subscriptions.has(channel.id)) continue;
+      if (!allowed.has(connection.userId)) {
+        const permissions = await getChannelPermissions(connection.userId, channel);
+        allowed.set(connection.userId, hasPermissionBit(permissions, 'viewChannel'));
+      }
+      if (allowed.get(connection.userId)) {
+        send(connection.ws, event);
+      }
+    }
+  } catch (error) {
+    console.error('Realtime publish error:', error);
+  }
+}
+
+// Pushes a direct message to both participants' subscribed sockets
+export function publishDirectMessage(message: RealtimeDirectMessage) {
+  connections.forEach((connection) => {
+    if (!connection.directMessages) return;
+    if (connection.userId === message.senderId || connection.userId === message.recipientId) {
+      send(connection.ws, { type: 'direct-message.created', message });
+    }
+  });
+}
+
+// Pushes an event about the user's own account, such as friend requests, to all of their sockets
+export function publishToUser(userId: string, event: RealtimeEvent) {
+  connections.forEach((connection) => {
+    if (connection.userId === userId) {
+      send(connection.ws, event);
+    }
+  });
+}
+
+// Pushes a group conversation event to the given members' subscribed sockets
+export function publishToGroup(memberIds: string[], event: RealtimeEvent) {
+  const members = new Set(memberIds);
+  connections.forEach((connection) => {
+    if (connection.directMessages && members.has(connection.userId)) {
+      send(connection.ws, event);
+    }
+  });
+}
+
+// Either user blocking the other keeps them out of each other's P2P mesh
+async function isBlockedBetween(userId1: string, userId2: string): Promise<boolean> {
+  return (await storage.isBlocked(userId1, userId2)) || (await storage.isBlocked(userId2, userId1));
+}
+
+// Re-evaluates two users' P2P link after one blocks or unblocks the other: in any channel they
+// share, each is told the other left, or the first is told the second joined so it reconnects
+export async function refreshPeerLink(userId1: string, userId2: string) {
+  try {
+    const blocked = await isBlockedBetween(userId1, userId2);
+    channelPeers.forEach((peers, channelId) => {
+      const ws1 = peers.get(userId1);
+      const ws2 = peers.get(userId2);
+      if (!ws1 || !ws2) return;
+      if (blocked) {
+        send(ws1, { type: 'peer-left', from: userId2, channelId });
+        send(ws2, { type: 'peer-left', from: userId1, channelId });
+      } else {
+        send(ws1, { type: 'peer-joined', from: userId2, channelId });
+      }
+    });
+  } catch (error) {
+    console.error('Realtime peer link error:', error);
+  }
+}
+
+function leaveChannel(connection: ClientConnection, channelId: string) {
+  const peers = channelPeers.get(channelId);
+  connection.channels.delete(channelId);
+  if (!peers || peers.get(connection.userId) !== connection.ws) return;
+
+  peers.delete(connection.userId);
+  if (peers.size === 0) {
+    channelPeers.delete(channelId);
+  }
+
+  // Notify other peers
+  peers.forEach((peerWs) => {
+    send(peerWs, { type: 'peer-left', from: connection.userId, channelId });
+  });
+}
+
+// Cuts a user removed from a server off from its channels: their sockets leave any call there
+// and stop receiving the channels' events
+export function removeFromChannels(userId: string, channelIds: string[]) {
+  connections.forEach((connection) => {
+    if (connection.userId !== userId) return;
+    channelIds.forEach((channelId) => {
+      leaveChannel(connection, channelId);
+      connection.subscriptions.delete(channelId);
+    });
+  });
+}
+
+// Closes the sockets opened under a session that has just been signed out
+export function closeSessionSockets(sessionId: string) {
+  connections.forEach((connection) => {
+    if (connection.sessionId === sessionId) {
+      connection.ws.close(SOCKET_CLOSE_CODES.unauthorized, 'Signed out');
+    }
+  });
+}
+
+// A user with no live socket is offline; otherwise they show the status they picked,
+// with "online" turning "away" once every one of their tabs and devices is idle
+function presenceStatus(preferred: string, sockets: ClientConnection[]): PresenceStatus {
+  if (sockets.length === 0) return 'offline';
+  if (preferred !== 'online') return preferred as PresenceStatus;
+  return sockets.every(socket => socket.idle) ? 'away' : 'online';
+}
+
+// Users who see this user's presence: themselves, their friends and everyone sharing a server with them
+async function presenceAudience(userId: string): Promise<Set<string>> {
+  const [servers, friends] = await Promise.all([storage.getUserServers(userId), storage.getFriends(userId)]);
+  const memberLists = await Promise.all(servers.map(server => storage.getServerMembers(server.id)));
+  const audience = new Set([userId]);
+  memberLists.flat().forEach(member => audience.add(member.userId));
+  friends.forEach(friend => audience.add(friend.id));
+  return audience;
+}
+
+async function applyPresence(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  const sockets = Array.from(connections.values()).filter(connection => connection.userId === userId);
+  const status = presenceStatus(user.preferredStatus, sockets);
+  if (status === user.status) return;
+
+  const lastSeenAt = new Date();
+  await storage.updateUserPresence(userId, { status, lastSeenAt });
+  const audience = await presenceAudience(userId);
+  connections.forEach((connection) => {
+    if (audience.has(connection.userId)) {
+      send(connection.ws, { type: 'presence.update', userId, status, lastSeenAt });
+    }
+  });
+}
+
+// Recomputes a user's presence from their live sockets. Updates for one user run in order,
+// so a burst of connects and disconnects settles on the final state.
+export function refreshPresence(userId: string) {
+  const update = (presenceUpdates.get(userId) ?? Promise.resolve())
+    .then(() => applyPresence(userId))
+    .catch(error => console.error('Presence update error:', error));
+  presenceUpdates.set(userId, update);
+  update.then(() => {
+    if (presenceUpdates.get(userId) === update) presenceUpdates.delete(userId);
+  });
+}
+
+// Applies a subscribe/unsubscribe frame; channels the user cannot see are refused
+async function updateSubscriptions(connection: ClientConnection, frame: SubscriptionFrame) {
+  if (frame.directMessages) {
+    connection.directMessages = frame.type === 'subscribe';
+  }
+
+  for (const channelId of frame.channelIds ?? []) {
+    if (frame.type === 'unsubscribe') {
+      connection.subscriptions.delete(channelId);
+      continue;
+    }
+
+    const channel = await storage.getChannel(channelId);
+    const permissions = channel ? await getChannelPermissions(connection.userId, channel) : 0;
+    if (hasPermissionBit(permissions, 'viewChannel')) {
+      connection.subscriptions.add(channelId);
+    } else {
+      send(connection.ws, { type: 'subscription.denied', channelId });
+    }
+  }
+}
+
+// Resolves the signed-in user and their session for an upgrade request from its session cookie
+function authenticateUpgrade(req: IncomingMessage): Promise<{ userId: string; sessionId: string } | undefined> {
+  return new Promise((resolve) => {
+    // The session middleware only reads the cookie header and fills in `session` and `sessionID`
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, () => {
+      const userId = request.session?.userId;
+      resolve(userId ? { userId, sessionId: request.sessionID } : undefined);
+    });
+  });
+}
+
+export function setupRealtime(httpServer: Server) {
+  // WebSocket server for WebRTC signaling
+  const wss = new WebSocketServer({ noServer: true });
+
+  const joinChannel = async (connection: ClientConnection, channelId: string) => {
+    if (!channelPeers.has(channelId)) {
+      channelPeers.set(channelId, new Map());
+    }
+    const peers = channelPeers.get(channelId)!;
+    peers.set(connection.userId, connection.ws);
+    connection.channels.add(channelId);
+
+    // Notify other peers in the channel, except those on either side of a block
+    for (const [peerId, peerWs] of Array.from(peers)) {
+      if (peerId !== connection.userId && !(await isBlockedBetween(connection.userId, peerId))) {
+        send(peerWs, { type: 'peer-joined', from: connection.userId, channelId });
+      }
+    }
+  };
+
+  // Finds the socket of a peer that shares at least one channel with the sender
+  const findSharedPeer = (connection: ClientConnection, targetId: string): WebSocket | undefined => {
+    for (const channelId of Array.from(connection.channels)) {
+      const peerWs = channelPeers.get(channelId)?.get(targetId);
+      if (peerWs) return peerWs;
+    }
+    return undefined;
+  };
+
+  // Voice channels need the connect permission; text channels only need to be visible
+  const canJoinChannel = async (userId: string, channelId: string) => {
+    const channel = await storage.getChannel(channelId);
+    if (!channel) return false;
+
+    const permissions = await getChannelPermissions(userId, channel);
+    return hasPermissionBit(permissions, channel.type === 'voice' ? 'connect' : 'viewChannel');
+  };
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') return;
+
+    const session = await authenticateUpgrade(req);
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      if (!session) {
+        ws.close(SOCKET_CLOSE_CODES.unauthorized, 'Not authenticated');
+        return;
+      }
+      wss.emit('connection', ws, req, session);
+    });
+  });
+
+  wss.on('connection', (ws: WebSocket, _req: IncomingMessage, { userId, sessionId }: { userId: string; sessionId: string }) => {
+    const connection: ClientConnection = {
+      ws,
+      userId,
+      sessionId,
+      channels: new Set(),
+      subscriptions: new Set(),
+      directMessages: false,
+      idle: false,
+    };
+    connections.set(ws, connection);
+    refreshPresence(userId);
+
+    ws.on('message', async (data: Buffer) => {
+      let frame: ClientFrame;
+      try {
+        frame = clientFrameSchema.parse(JSON.parse(data.toString()));
+      } catch (error) {
+        ws.close(SOCKET_CLOSE_CODES.invalidFrame, 'Malformed frame');
+        return;
+      }
+
+      if (frame.type === 'subscribe' || frame.type === 'unsubscribe') {
+        try {
+          await updateSubscriptions(connection, frame);
+        } catch (error) {
+          console.error('WebSocket subscription error:', error);
+        }
+        return;
+      }
+      if (frame.type === 'activity') {
+        connection.idle = frame.idle;
+        refreshPresence(userId);
+        return;
+      }
+
+      // Identity comes from the session; a frame claiming otherwise is spoofed
+      const claimedId = frame.type === 'join-channel' || frame.type === 'leave-channel' ? frame.userId : frame.from;
+      if (claimedId && claimedId !== userId) {
+        ws.close(SOCKET_CLOSE_CODES.forbidden, 'Sender mismatch');
+        return;
+      }
+
+      try {
+        if (frame.type === 'join-channel') {
+          // User joining a channel for P2P connections
+          const { channelId } = frame;
+          if (!(await canJoinChannel(userId, channelId))) {
+            send(ws, { type: 'join-denied', channelId });
+            return;
+          }
+          await joinChannel(connection, channelId);
+        } else if (frame.type === 'leave-channel') {
+          // User leaving a channel
+          leaveChannel(connection, frame.channelId);
+        } else {
+          // Direct WebRTC signaling between peers
+          const targetWs = findSharedPeer(connection, frame.to);
+          if (targetWs && !(await isBlockedBetween(userId, frame.to))) {
+            send(targetWs, { type: frame.type, from: userId, to: frame.to, data: frame.data });
+          }
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+      }
+    });
+
+    ws.on('close', () => {
+      // Clean up user from all channels
+      Array.from(connection.channels).forEach(channelId => leaveChannel(connection, channelId));
+      connections.delete(ws);
+      refreshPresence(userId);
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,439 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import type { Channel, PublicUser, RealtimeEvent, ServerWithChannels, WebRTCSignal } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Runs against the in-memory storage; each test signs up its own users
+let server: Server;
+let baseUrl: string;
+let unique = 0;
+
+interface Client {
+  cookie: string;
+  user: PublicUser;
+}
+
+interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+async function request(client: Client | null, method: string, path: string, body?: unknown): Promise<ApiResponse> {
+  const response = await fetch(baseUrl + path, {
+    method,
+    headers: { "Content-Type": "application/json", ...(client && { cookie: client.cookie }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : undefined };
+}
+
+async function signUp(name = "user"): Promise<Client> {
+  const username = `${name}${++unique}`;
+  const response = await fetch(baseUrl + "/api/auth/register", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, email: `${username}@example.com`, password: "password" }),
+  });
+  const cookie = response.headers.get("set-cookie")!.split(";")[0];
+  return { cookie, user: (await response.json()).user };
+}
+
+// A server owned by `owner` with `members` joined through its invite, and its text channel
+async function createServer(owner: Client, ...members: Client[]): Promise<{ server: ServerWithChannels; channel: Channel }> {
+  const created = await request(owner, "POST", "/api/servers", { name: "Test server" });
+  for (const member of members) {
+    await request(member, "POST", "/api/servers/join", { inviteCode: created.body.inviteCode });
+  }
+  const server: ServerWithChannels = (await request(owner, "GET", `/api/servers/${created.body.id}`)).body;
+  return { server, channel: server.channels.find(channel => channel.type === "text")! };
+}
+
+// A realtime socket signed in as `client`, keeping every event and signal it receives
+async function connect(client: Client) {
+  const ws = new WebSocket(baseUrl.replace("http", "ws") + "/ws", { headers: { cookie: client.cookie } });
+  const events: Array<RealtimeEvent | WebRTCSignal> = [];
+  ws.on("message", data => events.push(JSON.parse(data.toString())));
+  await new Promise((resolve, reject) => ws.once("open", resolve).once("error", reject));
+  return {
+    ws,
+    events,
+    // Resolves with the first event, received so far or later, that matches
+    next<T extends RealtimeEvent["type"]>(type: T) {
+      return vi.waitFor(() => {
+        const event = events.find(event => event.type === type);
+        if (!event) throw new Error(`No ${type} event yet`);
+        return event as Extract<RealtimeEvent, { type: T }>;
+      });
+    },
+  };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  // Same response as the app's own error handler
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || err.statusCode || 500).json({ message: err.message || "Internal Server Error" });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("DELETE /api/messages/:id", () => {
+  it("lets authors delete their own messages and stops other members", async () => {
+    const owner = await signUp();
+    const member = await signUp();
+    const { channel } = await createServer(owner, member);
+    const posted = await request(owner, "POST", "/api/messages", { channelId: channel.id, content: "hello" });
+
+    expect((await request(member, "DELETE", `/api/messages/${posted.body.id}`)).status).toBe(403);
+    const deleted = await request(owner, "DELETE", `/api/messages/${posted.body.id}`);
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.deletedAt).toBeTruthy();
+    expect((await request(owner, "DELETE", `/api/messages/${posted.body.id}`)).status).toBe(404);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const owner = await signUp();
+    vi.spyOn(storage, "getMessage").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect(await request(owner, "DELETE", "/api/messages/missing")).toEqual({
+      status: 500,
+      body: { message: "Storage unavailable" },
+    });
+  });
+});
+
+describe("attachment downloads", () => {
+  it("answers storage failures with a 500", async () => {
+    const user = await signUp();
+    vi.spyOn(storage, "getMessage").mockRejectedValueOnce(new Error("Storage unavailable"));
+    vi.spyOn(storage, "getDirectMessage").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(user, "GET", "/api/messages/m1/attachments/a1")).status).toBe(500);
+    expect((await request(user, "GET", "/api/direct-messages/m1/attachments/a1")).status).toBe(500);
+  });
+});
+
+describe("reactions", () => {
+  it("counts each user's emoji once and answers storage failures with a 500", async () => {
+    const owner = await signUp();
+    const member = await signUp();
+    const { channel } = await createServer(owner, member);
+    const posted = await request(owner, "POST", "/api/messages", { channelId: channel.id, content: "hello" });
+    const path = `/api/messages/${posted.body.id}/reactions/${encodeURIComponent("👍")}`;
+
+    await request(owner, "PUT", path);
+    const reacted = await request(member, "PUT", path);
+    expect(reacted.body).toEqual([{ emoji: "👍", count: 2, userIds: [owner.user.id, member.user.id] }]);
+    expect((await request(member, "PUT", path)).body[0].count).toBe(2);
+    expect((await request(member, "DELETE", path)).body[0].count).toBe(1);
+
+    vi.spyOn(storage, "addReaction").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(member, "PUT", path)).status).toBe(500);
+  });
+});
+
+describe("pins", () => {
+  it("pins and unpins channel messages and answers storage failures with a 500", async () => {
+    const owner = await signUp();
+    const { channel } = await createServer(owner);
+    const posted = await request(owner, "POST", "/api/messages", { channelId: channel.id, content: "remember this" });
+    const path = `/api/channels/${channel.id}/pins/${posted.body.id}`;
+
+    expect((await request(owner, "PUT", path)).body.pinnedAt).toBeTruthy();
+    expect((await request(owner, "GET", `/api/channels/${channel.id}/pins`)).body.map((m: any) => m.id)).toEqual([posted.body.id]);
+    expect((await request(owner, "DELETE", path)).body.pinnedAt).toBeNull();
+
+    vi.spyOn(storage, "getPinnedMessages").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(owner, "GET", `/api/channels/${channel.id}/pins`)).status).toBe(500);
+  });
+});
+
+describe("threads", () => {
+  it("opens threads to channel members only and answers storage failures with a 500", async () => {
+    const owner = await signUp();
+    const outsider = await signUp();
+    const { channel } = await createServer(owner);
+    const root = await request(owner, "POST", "/api/messages", { channelId: channel.id, content: "topic" });
+    const thread = await request(owner, "POST", `/api/messages/${root.body.id}/thread`, {});
+
+    const opened = await request(owner, "GET", `/api/threads/${thread.body.id}`);
+    expect(opened.body.rootMessage.id).toBe(root.body.id);
+    expect((await request(outsider, "GET", `/api/threads/${thread.body.id}`)).status).toBe(404);
+    expect((await request(outsider, "GET", `/api/threads/${thread.body.id}/messages`)).status).toBe(404);
+
+    vi.spyOn(storage, "getThreadMembers").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(owner, "GET", `/api/threads/${thread.body.id}`)).status).toBe(500);
+  });
+});
+
+describe("GET /api/search", () => {
+  const search = (client: Client, q: string, serverId?: string) =>
+    request(client, "GET", `/api/search?${new URLSearchParams({ q, ...(serverId && { serverId }) })}`);
+
+  it("only searches channels the caller can see", async () => {
+    const owner = await signUp();
+    const member = await signUp();
+    const stranger = await signUp();
+    const { server, channel } = await createServer(owner, member);
+    const hidden = await request(owner, "POST", "/api/channels", { name: "staff", type: "text", serverId: server.id, isPrivate: true });
+    const elsewhere = await createServer(stranger);
+    const word = `needle${unique}`;
+    await request(owner, "POST", "/api/messages", { channelId: channel.id, content: `public ${word}` });
+    await request(owner, "POST", "/api/messages", { channelId: hidden.body.id, content: `private ${word}` });
+    await request(stranger, "POST", "/api/messages", { channelId: elsewhere.channel.id, content: `foreign ${word}` });
+
+    const contents = (results: any[]) => results.map(result => result.message.content).sort();
+    expect(contents((await search(owner, word)).body)).toEqual([`private ${word}`, `public ${word}`]);
+    expect(contents((await search(member, word)).body)).toEqual([`public ${word}`]);
+    expect(contents((await search(member, `${word} in:staff`)).body)).toEqual([]);
+    expect((await search(member, word, elsewhere.server.id)).status).toBe(404);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const user = await signUp();
+    vi.spyOn(storage, "getUserServers").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await search(user, "anything")).status).toBe(500);
+  });
+});
+
+describe("group conversations", () => {
+  const memberIds = (group: any) => group.members.map((member: PublicUser) => member.id).sort();
+
+  it("lets members add people and only the owner remove others", async () => {
+    const owner = await signUp();
+    const bob = await signUp();
+    const carol = await signUp();
+    const dave = await signUp();
+    const group = (await request(owner, "POST", "/api/groups", { memberIds: [bob.user.id] })).body;
+    expect(memberIds(group)).toEqual([owner.user.id, bob.user.id].sort());
+
+    expect((await request(carol, "GET", `/api/groups/${group.id}`)).status).toBe(404);
+    const added = await request(bob, "POST", `/api/groups/${group.id}/members`, { userId: carol.user.id });
+    expect(memberIds(added.body)).toEqual([owner.user.id, bob.user.id, carol.user.id].sort());
+    expect((await request(bob, "POST", `/api/groups/${group.id}/members`, { userId: carol.user.id })).status).toBe(400);
+    expect((await request(dave, "POST", `/api/groups/${group.id}/members`, { userId: dave.user.id })).status).toBe(404);
+
+    expect((await request(bob, "DELETE", `/api/groups/${group.id}/members/${carol.user.id}`)).status).toBe(403);
+    expect((await request(owner, "DELETE", `/api/groups/${group.id}/members/${carol.user.id}`)).status).toBe(200);
+    expect((await request(carol, "GET", `/api/groups/${group.id}/messages`)).status).toBe(404);
+  });
+
+  it("hands ownership to the longest-standing member when the owner leaves", async () => {
+    const owner = await signUp();
+    const bob = await signUp();
+    const carol = await signUp();
+    const group = (await request(owner, "POST", "/api/groups", { memberIds: [bob.user.id, carol.user.id] })).body;
+
+    expect((await request(owner, "DELETE", `/api/groups/${group.id}/members/${owner.user.id}`)).status).toBe(200);
+    const remaining = (await request(bob, "GET", `/api/groups/${group.id}`)).body;
+    expect(memberIds(remaining)).toEqual([bob.user.id, carol.user.id].sort());
+    expect(remaining.ownerId).toBe(bob.user.id);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const user = await signUp();
+    vi.spyOn(storage, "getUserGroups").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(user, "GET", "/api/groups")).status).toBe(500);
+  });
+});
+
+describe("friend requests", () => {
+  const friendIds = async (client: Client) => (await request(client, "GET", "/api/friends")).body.map((user: PublicUser) => user.id);
+
+  it("runs a request from sending to accepting to removing the friend", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    expect((await request(alice, "POST", "/api/friends", { username: bob.user.username })).body).toEqual({ status: "pending" });
+    expect((await request(alice, "POST", "/api/friends", { userId: bob.user.id })).status).toBe(400);
+
+    const requests = (await request(bob, "GET", "/api/friends/requests")).body;
+    expect(requests.incoming.map((r: any) => r.user.id)).toEqual([alice.user.id]);
+    expect((await request(alice, "POST", `/api/friends/requests/${bob.user.id}/accept`)).status).toBe(404);
+    expect((await request(bob, "POST", `/api/friends/requests/${alice.user.id}/accept`)).status).toBe(200);
+    expect(await friendIds(alice)).toEqual([bob.user.id]);
+
+    expect((await request(bob, "DELETE", `/api/friends/${alice.user.id}`)).status).toBe(200);
+    expect(await friendIds(alice)).toEqual([]);
+  });
+
+  it("accepts a crossing request and lets the sender cancel a pending one", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    const carol = await signUp();
+    await request(alice, "POST", "/api/friends", { userId: bob.user.id });
+    expect((await request(bob, "POST", "/api/friends", { userId: alice.user.id })).body).toEqual({ status: "accepted" });
+
+    await request(alice, "POST", "/api/friends", { userId: carol.user.id });
+    expect((await request(alice, "DELETE", `/api/friends/requests/${carol.user.id}`)).status).toBe(200);
+    expect((await request(carol, "GET", "/api/friends/requests")).body.incoming).toEqual([]);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const user = await signUp();
+    vi.spyOn(storage, "getFriends").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(user, "GET", "/api/friends")).status).toBe(500);
+  });
+});
+
+describe("blocking", () => {
+  it("tells only the blocker's own sockets and ends the friendship", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    const carol = await signUp();
+    await request(alice, "POST", "/api/friends", { userId: bob.user.id });
+    await request(bob, "POST", `/api/friends/requests/${alice.user.id}/accept`);
+    const aliceSocket = await connect(alice);
+    const bobSocket = await connect(bob);
+
+    expect((await request(alice, "PUT", `/api/friends/blocked/${bob.user.id}`)).status).toBe(200);
+    expect(await aliceSocket.next("friendship.updated")).toMatchObject({ userId: bob.user.id });
+    // Bob's socket receives this after anything the block sent it
+    await request(carol, "POST", "/api/friends", { userId: bob.user.id });
+    await bobSocket.next("friend-request.created");
+    expect(bobSocket.events.map(event => event.type)).not.toContain("friendship.updated");
+    expect((await request(bob, "GET", "/api/friends")).body).toEqual([]);
+
+    aliceSocket.ws.close();
+    bobSocket.ws.close();
+  });
+
+  it("unblocks only users who are blocked", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    await request(alice, "PUT", `/api/friends/blocked/${bob.user.id}`);
+    expect((await request(alice, "GET", "/api/friends/blocked")).body.map((user: PublicUser) => user.id)).toEqual([bob.user.id]);
+    expect((await request(alice, "DELETE", `/api/friends/blocked/${bob.user.id}`)).status).toBe(200);
+    expect((await request(alice, "DELETE", `/api/friends/blocked/${bob.user.id}`)).status).toBe(404);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    vi.spyOn(storage, "blockUser").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(alice, "PUT", `/api/friends/blocked/${bob.user.id}`)).status).toBe(500);
+  });
+});
+
+describe("channel overwrites", () => {
+  it("only lets members remove overwrites whose permissions they hold", async () => {
+    const owner = await signUp();
+    const moderator = await signUp();
+    const member = await signUp();
+    const { server, channel } = await createServer(owner, moderator, member);
+    const role = await request(owner, "POST", `/api/servers/${server.id}/roles`, { name: "Moderator", permissions: ["manageChannels"] });
+    await request(owner, "PUT", `/api/servers/${server.id}/members/${moderator.user.id}/roles/${role.body.id}`);
+    const overwritePath = `/api/channels/${channel.id}/overwrites/member/${member.user.id}`;
+
+    await request(owner, "PUT", overwritePath, { allow: ["banMembers"] });
+    expect((await request(moderator, "DELETE", overwritePath)).status).toBe(403);
+    expect((await request(owner, "GET", `/api/channels/${channel.id}/overwrites`)).body).toHaveLength(1);
+
+    await request(owner, "PUT", overwritePath, { allow: ["manageChannels"] });
+    expect((await request(moderator, "DELETE", overwritePath)).status).toBe(200);
+    expect((await request(owner, "GET", `/api/channels/${channel.id}/overwrites`)).body).toEqual([]);
+  });
+});
+
+describe("kicking members", () => {
+  it("takes the kicked member out of calls in the server's channels", async () => {
+    const owner = await signUp();
+    const member = await signUp();
+    const { server, channel } = await createServer(owner, member);
+    const ownerSocket = await connect(owner);
+    const memberSocket = await connect(member);
+    ownerSocket.ws.send(JSON.stringify({ type: "join-channel", channelId: channel.id }));
+    memberSocket.ws.send(JSON.stringify({ type: "join-channel", channelId: channel.id }));
+    // Whoever joined second is announced to the other
+    await vi.waitFor(() => expect([...ownerSocket.events, ...memberSocket.events]).toContainEqual(
+      expect.objectContaining({ type: "peer-joined", channelId: channel.id })));
+
+    expect((await request(member, "DELETE", `/api/servers/${server.id}/members/${owner.user.id}`)).status).toBe(403);
+    expect((await request(owner, "DELETE", `/api/servers/${server.id}/members/${member.user.id}`)).status).toBe(200);
+    await vi.waitFor(() => expect(ownerSocket.events).toContainEqual({ type: "peer-left", from: member.user.id, channelId: channel.id }));
+    expect((await request(owner, "DELETE", `/api/servers/${server.id}/members/${member.user.id}`)).status).toBe(404);
+
+    ownerSocket.ws.close();
+    memberSocket.ws.close();
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const owner = await signUp();
+    const member = await signUp();
+    const { server } = await createServer(owner, member);
+    vi.spyOn(storage, "removeServerMember").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(owner, "DELETE", `/api/servers/${server.id}/members/${member.user.id}`)).status).toBe(500);
+  });
+});
+
+describe("signing keys", () => {
+  it("publishes the caller's own keys only", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    const key = { purpose: "signing", publicKey: Buffer.alloc(32, 1).toString("base64") };
+    expect((await request(bob, "PUT", `/api/users/${alice.user.id}/keys`, key)).status).toBe(403);
+    expect((await request(alice, "PUT", `/api/users/${alice.user.id}/keys`, key)).status).toBe(200);
+    expect((await request(bob, "GET", `/api/users/${alice.user.id}/keys`)).body.keys).toMatchObject([key]);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const alice = await signUp();
+    vi.spyOn(storage, "getUserKeys").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(alice, "GET", `/api/users/${alice.user.id}/keys`)).status).toBe(500);
+  });
+});
+
+describe("device keys", () => {
+  it("registers and removes the caller's own devices", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    const publicKey = Buffer.alloc(65, 4).toString("base64");
+    expect((await request(bob, "POST", `/api/users/${alice.user.id}/devices`, { publicKey })).status).toBe(403);
+    const device = (await request(alice, "POST", `/api/users/${alice.user.id}/devices`, { publicKey })).body;
+    expect((await request(bob, "GET", `/api/users/${alice.user.id}/key-bundle`)).body.devices).toEqual([device]);
+
+    expect((await request(alice, "DELETE", `/api/users/${alice.user.id}/devices/${device.id}`)).status).toBe(200);
+    expect((await request(alice, "DELETE", `/api/users/${alice.user.id}/devices/${device.id}`)).status).toBe(404);
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const alice = await signUp();
+    vi.spyOn(storage, "getDeviceKeys").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(alice, "GET", `/api/users/${alice.user.id}/key-bundle`)).status).toBe(500);
+  });
+});
+
+describe("GET /api/direct-messages/conversations", () => {
+  it("lists each conversation once with its latest message", async () => {
+    const alice = await signUp();
+    const bob = await signUp();
+    await request(alice, "POST", "/api/direct-messages", { recipientId: bob.user.id, content: "hi" });
+    // A second later, so the reply is unambiguously the latest
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 1000 });
+    await request(bob, "POST", "/api/direct-messages", { recipientId: alice.user.id, content: "hello" });
+    vi.useRealTimers();
+
+    const conversations = (await request(alice, "GET", "/api/direct-messages/conversations")).body;
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({ user: { id: bob.user.id }, lastMessage: { content: "hello" } });
+  });
+
+  it("answers storage failures with a 500", async () => {
+    const alice = await signUp();
+    vi.spyOn(storage, "getUserDirectMessages").mockRejectedValueOnce(new Error("Storage unavailable"));
+    expect((await request(alice, "GET", "/api/direct-messages/conversations")).status).toBe(500);
+  });
+});
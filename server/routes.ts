@@ -1,11 +1,197 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { insertUserSchema, loginSchema, insertServerSchema, insertChannelSchema, insertMessageSchema, insertDirectMessageSchema, type WebRTCSignal } from "@shared/schema";
+import {
+  setupRealtime,
+  publishToChannel,
+  publishDirectMessage,
+  publishToGroup,
+  publishToUser,
+  refreshPeerLink,
+  refreshPresence,
+  closeSessionSockets,
+  removeFromChannels,
+} from "./realtime";
+import {
+  getServerPermissions,
+  getChannelPermissions,
+  hasPermission,
+  hasChannelPermission,
+  filterVisibleChannels,
+  outranks,
+  requireServerPermission,
+  requireChannelPermission
+} from "./permissions";
+import { acceptAttachments, uploadedFiles, storeAttachments, deleteAttachments, sendAttachment } from "./attachments";
+import { setupAuth, requireAuth, establishSession, destroySession, toPublicUser, hashPassword, verifyPassword, isPasswordHashed } from "./auth";
+import {
+  insertUserSchema,
+  loginSchema,
+  updateStatusSchema,
+  insertServerSchema,
+  insertChannelSchema,
+  insertMessageSchema,
+  insertDirectMessageSchema,
+  insertGroupMessageSchema,
+  groupInputSchema,
+  updateGroupSchema,
+  friendRequestSchema,
+  MAX_GROUP_MEMBERS,
+  roleInputSchema,
+  overwriteInputSchema,
+  updateMessageSchema,
+  messagePageSchema,
+  threadInputSchema,
+  reactionEmojiSchema,
+  MAX_REACTIONS_PER_MESSAGE,
+  MAX_PINS_PER_CHANNEL,
+  searchParamsSchema,
+  publishKeySchema,
+  registerDeviceSchema,
+  MAX_DEVICES_PER_USER,
+  type Channel,
+  type DirectConversation,
+  type DirectMessageEncryption,
+  type FriendRequests,
+  type GroupConversation,
+  type GroupNoticeType,
+  type GroupWithMembers,
+  type User,
+  type Message,
+  type MessagePage,
+  type MessageWithAuthor,
+  type RealtimeMessage,
+  type SearchResult,
+  type Thread,
+} from "@shared/schema";
+import { mentionPattern, parseSearchQuery, SEARCH_RESULT_LIMIT } from "@shared/search";
+import { builtinRoleRank, hasPermissionBit, toPermissionBits, CHANNEL_PERMISSIONS } from "@shared/permissions";
 import { z } from "zod";
 
+const MASS_MENTION_PATTERN = /@(everyone|here)\b/;
+
+// Strips credentials from every user embedded in a stored message
+function toPublicMessage(message: MessageWithAuthor): RealtimeMessage {
+  return {
+    ...message,
+    author: toPublicUser(message.author),
+    replyTo: message.replyTo && { ...message.replyTo, author: toPublicUser(message.replyTo.author) },
+  };
+}
+
+// Parses history paging parameters; a cursor must come from the history being paged
+async function parseMessagePage<T>(
+  query: unknown,
+  getCursor: (id: string) => Promise<T | undefined>,
+  inScope: (message: T) => boolean,
+): Promise<{ page: MessagePage } | { error: string }> {
+  const parsed = messagePageSchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: "Invalid pagination parameters" };
+  }
+
+  const page = parsed.data;
+  const cursorId = page.before ?? page.after ?? page.around;
+  if (cursorId) {
+    const cursor = await getCursor(cursorId);
+    if (!cursor || !inScope(cursor)) {
+      return { error: "Invalid message cursor" };
+    }
+  }
+  return { page };
+}
+
+// Whether the text mentions anyone who has blocked its author
+async function mentionsBlocker(authorId: string, content: string): Promise<boolean> {
+  const blockers = await storage.getBlockers(authorId);
+  return blockers.some(blocker => mentionPattern(blocker.username).test(content));
+}
+
+// Threads share the visibility of the channel they were spawned in
+async function getVisibleThread(userId: string, threadId: string): Promise<{ thread: Thread; channel: Channel } | undefined> {
+  const thread = await storage.getThread(threadId);
+  const channel = thread && await storage.getChannel(thread.channelId);
+  if (!thread || !channel || !(await hasChannelPermission(userId, channel, "viewChannel"))) {
+    return undefined;
+  }
+  return { thread, channel };
+}
+
+// Loads a live message along with the viewer's permissions in its channel
+async function getVisibleMessage(userId: string, messageId: string): Promise<{ message: Message; channel: Channel; permissions: number } | undefined> {
+  const message = await storage.getMessage(messageId);
+  const channel = message && await storage.getChannel(message.channelId);
+  if (!message || !channel || message.deletedAt) return undefined;
+
+  const permissions = await getChannelPermissions(userId, channel);
+  if (!hasPermissionBit(permissions, "viewChannel")) return undefined;
+  return { message, channel, permissions };
+}
+
+// Encrypted direct messages must come from one of the sender's devices and have their key
+// wrapped only for devices of the two participants, at least one of them the recipient's
+async function checkEncryption(encryption: DirectMessageEncryption, senderId: string, recipientId: string): Promise<string | undefined> {
+  const senderDevices = new Set((await storage.getDeviceKeys(senderId)).map(device => device.id));
+  const recipientDevices = new Set((await storage.getDeviceKeys(recipientId)).map(device => device.id));
+  if (!senderDevices.has(encryption.senderDeviceId)) {
+    return "Unknown sending device";
+  }
+
+  const deviceIds = encryption.keys.map(key => key.deviceId);
+  if (new Set(deviceIds).size !== deviceIds.length || deviceIds.some(id => !senderDevices.has(id) && !recipientDevices.has(id))) {
+    return "Message keys must be for the participants' devices";
+  }
+  if (!deviceIds.some(id => recipientDevices.has(id))) {
+    return "Message is not readable by any of the recipient's devices";
+  }
+  return undefined;
+}
+
+// Group conversations are only visible to their current members
+async function getMemberGroup(userId: string, groupId: string): Promise<GroupConversation | undefined> {
+  const group = await storage.getGroup(groupId);
+  if (!group || !(await storage.getGroupMember(groupId, userId))) return undefined;
+  return group;
+}
+
+async function withGroupMembers(group: GroupConversation): Promise<GroupWithMembers> {
+  const members = await storage.getGroupMembers(group.id);
+  return { ...group, members: members.map(toPublicUser) };
+}
+
+// Posts a notice about a change to the group and pushes it, with the group's new state, to the
+// members; `removedIds` are told about the new state too so their clients drop the group
+async function announceGroupChange(
+  groupId: string,
+  actor: User,
+  notice: { type: GroupNoticeType; content?: string; target?: User },
+  removedIds: string[] = [],
+): Promise<GroupWithMembers> {
+  const message = await storage.createGroupMessage({
+    groupId,
+    authorId: actor.id,
+    type: notice.type,
+    content: notice.content ?? "",
+    targetUserId: notice.target?.id ?? null
+  });
+  const group = await withGroupMembers((await storage.getGroup(groupId))!);
+  const memberIds = group.members.map(m => m.id);
+  publishToGroup([...memberIds, ...removedIds], { type: "group.updated", group });
+  publishToGroup(memberIds, {
+    type: "group.message.created",
+    message: { ...message, author: toPublicUser(actor), target: notice.target ? toPublicUser(notice.target) : null }
+  });
+  return group;
+}
+
+function defaultThreadName(content: string): string {
+  const name = content.trim().replace(/\s+/g, " ");
+  return name.length > 40 ? `${name.slice(0, 40)}...` : name || "Thread";
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   // Authentication
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -20,8 +206,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email already exists" });
       }
 
-      const user = await storage.createUser(userData);
-      res.json({ user: { id: user.id, username: user.username, email: user.email, avatar: user.avatar, status: user.status } });
+      const user = await storage.createUser({ ...userData, password: await hashPassword(userData.password) });
+      await establishSession(req, user.id);
+      res.json({ user: toPublicUser(user) });
     } catch (error) {
       res.status(400).json({ message: "Invalid registration data" });
     }
@@ -32,57 +219,174 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { username, password } = loginSchema.parse(req.body);
       const user = await storage.getUserByUsername(username);
       
-      if (!user || user.password !== password) {
+      if (!user || !(await verifyPassword(password, user.password))) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Update user status to online
-      await storage.updateUserStatus(user.id, "online");
-      
-      res.json({ user: { id: user.id, username: user.username, email: user.email, avatar: user.avatar, status: user.status } });
+      // Upgrade legacy plaintext records now that we know the password
+      if (!isPasswordHashed(user.password)) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
+
+      // Presence turns online once the client opens its socket
+      await establishSession(req, user.id);
+
+      res.json({ user: toPublicUser(user) });
     } catch (error) {
       res.status(400).json({ message: "Invalid login data" });
     }
   });
 
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    res.json({ user: toPublicUser(req.user!) });
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req, res, next) => {
+    try {
+      const sessionId = req.sessionID;
+      await destroySession(req);
+      // Dropping the session's sockets takes the user offline unless another device is connected
+      closeSessionSockets(sessionId);
+      res.clearCookie("connect.sid");
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Everything below requires a signed-in user
+  app.use("/api", requireAuth);
+
   // Users
   app.get("/api/users/:id", async (req, res) => {
     const user = await storage.getUser(req.params.id);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
-    res.json({ id: user.id, username: user.username, email: user.email, avatar: user.avatar, status: user.status });
+    res.json(toPublicUser(user));
   });
 
   app.post("/api/users/:id/status", async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(403).json({ message: "Cannot change another user's status" });
+    }
+
     try {
-      const { status } = z.object({ status: z.string() }).parse(req.body);
-      await storage.updateUserStatus(req.params.id, status);
+      const { status } = updateStatusSchema.parse(req.body);
+      await storage.updateUserPresence(req.user!.id, { preferredStatus: status });
+      refreshPresence(req.user!.id);
       res.json({ success: true });
     } catch (error) {
       res.status(400).json({ message: "Invalid status data" });
     }
   });
 
+  // Public keys peers check signed data channel frames against
+  app.get("/api/users/:id/keys", async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const keys = await storage.getUserKeys(user.id);
+      res.json({
+        user: toPublicUser(user),
+        keys: keys.map(({ purpose, publicKey, createdAt }) => ({ purpose, publicKey, createdAt })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/users/:id/keys", async (req, res, next) => {
+    try {
+      if (req.params.id !== req.user!.id) {
+        return res.status(403).json({ message: "Cannot publish keys for another user" });
+      }
+
+      const parsed = publishKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid key data" });
+      }
+
+      const key = await storage.setUserKey(req.user!.id, parsed.data.purpose, parsed.data.publicKey);
+      res.json({ purpose: key.purpose, publicKey: key.publicKey, createdAt: key.createdAt });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Device keys others encrypt direct messages to
+  app.get("/api/users/:id/key-bundle", async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const devices = await storage.getDeviceKeys(user.id);
+      res.json({
+        user: toPublicUser(user),
+        devices: devices.map(({ id, publicKey, createdAt }) => ({ id, publicKey, createdAt })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/users/:id/devices", async (req, res, next) => {
+    try {
+      if (req.params.id !== req.user!.id) {
+        return res.status(403).json({ message: "Cannot register devices for another user" });
+      }
+
+      const parsed = registerDeviceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid device key" });
+      }
+
+      const devices = await storage.getDeviceKeys(req.user!.id);
+      if (devices.length >= MAX_DEVICES_PER_USER) {
+        return res.status(400).json({ message: `A user can have at most ${MAX_DEVICES_PER_USER} devices` });
+      }
+
+      const device = await storage.addDeviceKey(req.user!.id, parsed.data.publicKey);
+      res.json({ id: device.id, publicKey: device.publicKey, createdAt: device.createdAt });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Messages wrapped only for a removed device can no longer be read
+  app.delete("/api/users/:id/devices/:deviceId", async (req, res, next) => {
+    try {
+      if (req.params.id !== req.user!.id) {
+        return res.status(403).json({ message: "Cannot remove another user's devices" });
+      }
+
+      const devices = await storage.getDeviceKeys(req.user!.id);
+      if (!devices.some(device => device.id === req.params.deviceId)) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      await storage.deleteDeviceKey(req.params.deviceId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Servers
   app.get("/api/servers", async (req, res) => {
-    const { userId } = req.query;
-    if (!userId || typeof userId !== 'string') {
-      return res.status(400).json({ message: "User ID required" });
-    }
-    
-    console.log(`[GET /api/servers] Getting servers for userId: ${userId}`);
-    const servers = await storage.getUserServers(userId);
-    console.log(`[GET /api/servers] Found ${servers.length} servers:`, servers.map(s => ({ id: s.id, name: s.name, ownerId: s.ownerId })));
+    const servers = await storage.getUserServers(req.user!.id);
     res.json(servers);
   });
 
   app.post("/api/servers", async (req, res) => {
     try {
-      const serverData = insertServerSchema.parse(req.body);
-      console.log(`[POST /api/servers] Creating server:`, { name: serverData.name, ownerId: serverData.ownerId });
-      const server = await storage.createServer(serverData);
-      console.log(`[POST /api/servers] Server created:`, { id: server.id, name: server.name, ownerId: server.ownerId, inviteCode: server.inviteCode });
+      const serverData = insertServerSchema.omit({ ownerId: true }).parse(req.body);
+      const server = await storage.createServer({ ...serverData, ownerId: req.user!.id });
       res.json(server);
     } catch (error) {
       console.error(`[POST /api/servers] Error:`, error);
@@ -92,17 +396,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/servers/:id", async (req, res) => {
     const server = await storage.getServerWithChannels(req.params.id);
-    if (!server) {
+    if (!server || !server.members.some(m => m.userId === req.user!.id)) {
       return res.status(404).json({ message: "Server not found" });
     }
-    res.json(server);
+    res.json({
+      ...server,
+      channels: await filterVisibleChannels(req.user!.id, server.id, server.channels),
+      members: server.members.map(m => ({ ...m, user: toPublicUser(m.user) }))
+    });
   });
 
   app.post("/api/servers/join", async (req, res) => {
     try {
-      const { inviteCode, userId } = z.object({
-        inviteCode: z.string(),
-        userId: z.string()
+      const { inviteCode } = z.object({
+        inviteCode: z.string()
       }).parse(req.body);
       
       const server = await storage.getServerByInviteCode(inviteCode);
@@ -110,7 +417,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Invalid invite code" });
       }
 
-      await storage.joinServer(userId, server.id);
+      if (await storage.getServerBan(server.id, req.user!.id)) {
+        return res.status(403).json({ message: "You are banned from this server" });
+      }
+
+      const existingMembership = await storage.getServerMember(server.id, req.user!.id);
+      if (!existingMembership) {
+        await storage.joinServer(req.user!.id, server.id);
+      }
       res.json(server);
     } catch (error) {
       res.status(400).json({ message: "Invalid join data" });
@@ -118,184 +432,1306 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.get("/api/servers/:id/members", async (req, res) => {
+    const membership = await storage.getServerMember(req.params.id, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ message: "Server not found" });
+    }
+
     const members = await storage.getServerMembers(req.params.id);
-    res.json(members);
+    res.json(members.map(m => ({ ...m, user: toPublicUser(m.user) })));
   });
 
-  // Channels
-  app.post("/api/channels", async (req, res) => {
+  app.get("/api/servers/:id/permissions", async (req, res, next) => {
     try {
-      const channelData = insertChannelSchema.parse(req.body);
-      const channel = await storage.createChannel(channelData);
-      res.json(channel);
+      const membership = await storage.getServerMember(req.params.id, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+
+      res.json({ permissions: await getServerPermissions(req.user!.id, req.params.id) });
     } catch (error) {
-      res.status(400).json({ message: "Invalid channel data" });
+      next(error);
     }
   });
 
-  app.get("/api/channels/:id/messages", async (req, res) => {
-    const messages = await storage.getChannelMessages(req.params.id);
-    res.json(messages);
+  app.patch("/api/servers/:id", requireServerPermission("manageServer"), async (req, res) => {
+    try {
+      const updates = insertServerSchema.pick({ name: true, description: true, icon: true }).partial().parse(req.body);
+      const server = await storage.updateServer(req.params.id, updates);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      res.json(server);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid server data" });
+    }
   });
 
-  // Messages
-  app.post("/api/messages", async (req, res) => {
+  // Members
+  app.patch("/api/servers/:id/members/:userId", requireServerPermission("manageRoles"), async (req, res) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(messageData);
-      const messageWithAuthor = {
-        ...message,
-        author: await storage.getUser(message.authorId)
-      };
-      res.json(messageWithAuthor);
+      const { role } = z.object({ role: z.enum(["admin", "moderator", "member"]) }).parse(req.body);
+      const actor = (await storage.getServerMember(req.params.id, req.user!.id))!;
+      const target = await storage.getServerMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!outranks(actor, target) || builtinRoleRank(role) >= builtinRoleRank(actor.role)) {
+        return res.status(403).json({ message: "Cannot change the role of this member" });
+      }
+
+      await storage.updateMemberRole(req.params.id, req.params.userId, role);
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ message: "Invalid message data" });
+      res.status(400).json({ message: "Invalid role data" });
     }
   });
 
-  // Direct Messages
-  app.post("/api/direct-messages", async (req, res) => {
+  app.delete("/api/servers/:id/members/:userId", requireServerPermission("kickMembers"), async (req, res, next) => {
     try {
-      const messageData = insertDirectMessageSchema.parse(req.body);
-      const message = await storage.createDirectMessage(messageData);
-      const messageWithUsers = {
-        ...message,
-        sender: await storage.getUser(message.senderId),
-        recipient: await storage.getUser(message.recipientId)
-      };
-      res.json(messageWithUsers);
+      const actor = (await storage.getServerMember(req.params.id, req.user!.id))!;
+      const target = await storage.getServerMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!outranks(actor, target)) {
+        return res.status(403).json({ message: "Cannot kick this member" });
+      }
+
+      await storage.removeServerMember(req.params.id, req.params.userId);
+      removeFromChannels(req.params.userId, (await storage.getServerChannels(req.params.id)).map(c => c.id));
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ message: "Invalid direct message data" });
+      next(error);
     }
   });
 
-  app.get("/api/direct-messages", async (req, res) => {
-    const { userId1, userId2 } = req.query;
-    if (!userId1 || !userId2 || typeof userId1 !== 'string' || typeof userId2 !== 'string') {
-      return res.status(400).json({ message: "Both user IDs required" });
+  // Bans
+  app.get("/api/servers/:id/bans", requireServerPermission("banMembers"), async (req, res, next) => {
+    try {
+      const bans = await storage.getServerBans(req.params.id);
+      res.json(bans.map(b => ({ ...b, user: toPublicUser(b.user) })));
+    } catch (error) {
+      next(error);
     }
-    
-    const messages = await storage.getDirectMessages(userId1, userId2);
-    res.json(messages);
   });
 
-  // Friends
-  app.get("/api/friends/:userId", async (req, res) => {
-    const friends = await storage.getFriends(req.params.userId);
-    res.json(friends);
+  app.post("/api/servers/:id/bans", requireServerPermission("banMembers"), async (req, res) => {
+    try {
+      const { userId, reason } = z.object({
+        userId: z.string(),
+        reason: z.string().max(512).optional()
+      }).parse(req.body);
+
+      const actor = (await storage.getServerMember(req.params.id, req.user!.id))!;
+      const target = await storage.getServerMember(req.params.id, userId);
+      if (userId === req.user!.id || (target && !outranks(actor, target))) {
+        return res.status(403).json({ message: "Cannot ban this member" });
+      }
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const ban = await storage.banUser(req.params.id, userId, req.user!.id, reason);
+      removeFromChannels(userId, (await storage.getServerChannels(req.params.id)).map(c => c.id));
+      res.json(ban);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid ban data" });
+    }
   });
 
-  app.post("/api/friends", async (req, res) => {
+  app.delete("/api/servers/:id/bans/:userId", requireServerPermission("banMembers"), async (req, res, next) => {
     try {
-      const { userId1, userId2 } = z.object({
-        userId1: z.string(),
-        userId2: z.string()
-      }).parse(req.body);
-      
-      await storage.addFriend(userId1, userId2);
+      await storage.unbanUser(req.params.id, req.params.userId);
       res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ message: "Invalid friend request data" });
+      next(error);
     }
   });
 
-  const httpServer = createServer(app);
+  // Roles
+  app.get("/api/servers/:id/roles", async (req, res, next) => {
+    try {
+      const membership = await storage.getServerMember(req.params.id, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Server not found" });
+      }
 
-  // WebSocket server for WebRTC signaling
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  const connectedUsers = new Map<string, { ws: WebSocket, userId: string }>();
-  const channelPeers = new Map<string, Set<string>>(); // channelId -> Set of userIds
+      res.json(await storage.getServerRoles(req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('New WebSocket connection');
-    
-    ws.on('message', async (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString()) as WebRTCSignal & { userId?: string };
-        
-        if (message.type === 'join-channel') {
-          // User joining a channel for P2P connections
-          const { userId, channelId } = message;
-          if (userId && channelId) {
-            connectedUsers.set(ws as any, { ws, userId });
-            
-            if (!channelPeers.has(channelId)) {
-              channelPeers.set(channelId, new Set());
-            }
-            channelPeers.get(channelId)!.add(userId);
-            
-            // Notify other peers in the channel
-            const peers = channelPeers.get(channelId)!;
-            peers.forEach(peerId => {
-              if (peerId !== userId) {
-                const peerConnection = Array.from(connectedUsers.values()).find(conn => conn.userId === peerId);
-                if (peerConnection && peerConnection.ws.readyState === WebSocket.OPEN) {
-                  peerConnection.ws.send(JSON.stringify({
-                    type: 'peer-joined',
-                    from: userId,
-                    channelId
-                  }));
-                }
-              }
-            });
-          }
-        } else if (message.type === 'leave-channel') {
-          // User leaving a channel
-          const { userId, channelId } = message;
-          if (userId && channelId && channelPeers.has(channelId)) {
-            channelPeers.get(channelId)!.delete(userId);
-            
-            // Notify other peers
-            const peers = channelPeers.get(channelId)!;
-            peers.forEach(peerId => {
-              const peerConnection = Array.from(connectedUsers.values()).find(conn => conn.userId === peerId);
-              if (peerConnection && peerConnection.ws.readyState === WebSocket.OPEN) {
-                peerConnection.ws.send(JSON.stringify({
-                  type: 'peer-left',
-                  from: userId,
-                  channelId
-                }));
-              }
-            });
-          }
-        } else if (message.to) {
-          // Direct WebRTC signaling between peers
-          const targetConnection = Array.from(connectedUsers.values()).find(conn => conn.userId === message.to);
-          if (targetConnection && targetConnection.ws.readyState === WebSocket.OPEN) {
-            targetConnection.ws.send(JSON.stringify(message));
-          }
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
+  app.post("/api/servers/:id/roles", requireServerPermission("manageRoles"), async (req, res) => {
+    try {
+      const { permissions, ...roleData } = roleInputSchema.parse(req.body);
+      const bits = toPermissionBits(permissions);
+      const actorBits = await getServerPermissions(req.user!.id, req.params.id);
+      if ((bits & ~actorBits) !== 0) {
+        return res.status(403).json({ message: "Cannot grant permissions you do not have" });
       }
-    });
 
-    ws.on('close', () => {
-      // Clean up user from all channels
-      const userConnection = connectedUsers.get(ws as any);
-      if (userConnection) {
-        const userId = userConnection.userId;
-        channelPeers.forEach((peers, channelId) => {
-          if (peers.has(userId)) {
-            peers.delete(userId);
-            // Notify other peers
-            peers.forEach(peerId => {
-              const peerConnection = Array.from(connectedUsers.values()).find(conn => conn.userId === peerId);
-              if (peerConnection && peerConnection.ws.readyState === WebSocket.OPEN) {
-                peerConnection.ws.send(JSON.stringify({
-                  type: 'peer-left',
-                  from: userId,
-                  channelId
-                }));
-              }
-            });
-          }
+      const role = await storage.createRole({ ...roleData, permissions: bits, serverId: req.params.id });
+      res.json(role);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid role data" });
+    }
+  });
+
+  app.patch("/api/servers/:id/roles/:roleId", requireServerPermission("manageRoles"), async (req, res) => {
+    try {
+      const { permissions, ...roleData } = roleInputSchema.partial().parse(req.body);
+      const role = await storage.getRole(req.params.roleId);
+      if (!role || role.serverId !== req.params.id) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      const actorBits = await getServerPermissions(req.user!.id, req.params.id);
+      const bits = permissions ? toPermissionBits(permissions) : undefined;
+      if (((bits ?? 0) | role.permissions) & ~actorBits) {
+        return res.status(403).json({ message: "Cannot edit a role with permissions you do not have" });
+      }
+
+      const updated = await storage.updateRole(role.id, { ...roleData, ...(bits !== undefined && { permissions: bits }) });
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid role data" });
+    }
+  });
+
+  app.delete("/api/servers/:id/roles/:roleId", requireServerPermission("manageRoles"), async (req, res, next) => {
+    try {
+      const role = await storage.getRole(req.params.roleId);
+      if (!role || role.serverId !== req.params.id) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      const actorBits = await getServerPermissions(req.user!.id, req.params.id);
+      if (role.permissions & ~actorBits) {
+        return res.status(403).json({ message: "Cannot delete a role with permissions you do not have" });
+      }
+
+      await storage.deleteRole(role.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/servers/:id/members/:userId/roles/:roleId", requireServerPermission("manageRoles"), async (req, res, next) => {
+    try {
+      const role = await storage.getRole(req.params.roleId);
+      const actor = (await storage.getServerMember(req.params.id, req.user!.id))!;
+      const target = await storage.getServerMember(req.params.id, req.params.userId);
+      if (!role || role.serverId !== req.params.id || !target) {
+        return res.status(404).json({ message: "Role or member not found" });
+      }
+      if (!outranks(actor, target)) {
+        return res.status(403).json({ message: "Cannot change the roles of this member" });
+      }
+
+      const actorBits = await getServerPermissions(req.user!.id, req.params.id);
+      if (role.permissions & ~actorBits) {
+        return res.status(403).json({ message: "Cannot assign a role with permissions you do not have" });
+      }
+
+      await storage.assignRole(req.params.id, req.params.userId, role.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/servers/:id/members/:userId/roles/:roleId", requireServerPermission("manageRoles"), async (req, res, next) => {
+    try {
+      const role = await storage.getRole(req.params.roleId);
+      const actor = (await storage.getServerMember(req.params.id, req.user!.id))!;
+      const target = await storage.getServerMember(req.params.id, req.params.userId);
+      if (!role || role.serverId !== req.params.id || !target) {
+        return res.status(404).json({ message: "Role or member not found" });
+      }
+      if (!outranks(actor, target)) {
+        return res.status(403).json({ message: "Cannot change the roles of this member" });
+      }
+
+      const actorBits = await getServerPermissions(req.user!.id, req.params.id);
+      if (role.permissions & ~actorBits) {
+        return res.status(403).json({ message: "Cannot remove a role with permissions you do not have" });
+      }
+
+      await storage.unassignRole(req.params.id, req.params.userId, role.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Channels
+  app.post("/api/channels", async (req, res) => {
+    try {
+      const channelData = insertChannelSchema.parse(req.body);
+      if (!(await hasPermission(req.user!.id, channelData.serverId, "manageChannels"))) {
+        return res.status(403).json({ message: "Missing permission: manageChannels" });
+      }
+
+      const channel = await storage.createChannel(channelData);
+
+      // Keep a private channel visible to whoever created it
+      if (channel.isPrivate && !hasPermissionBit(await getServerPermissions(req.user!.id, channel.serverId), "administrator")) {
+        await storage.setChannelOverwrite(channel.id, {
+          targetType: "member",
+          targetId: req.user!.id,
+          allow: toPermissionBits(CHANNEL_PERMISSIONS),
+          deny: 0
         });
-        connectedUsers.delete(ws as any);
       }
-    });
+      res.json(channel);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid channel data" });
+    }
+  });
+
+  app.patch("/api/channels/:id", requireChannelPermission("manageChannels"), async (req, res) => {
+    try {
+      const updates = insertChannelSchema.pick({ name: true, description: true, position: true, isPrivate: true }).partial().parse(req.body);
+      const channel = await storage.updateChannel(req.params.id, updates);
+      res.json(channel);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid channel data" });
+    }
+  });
+
+  app.get("/api/channels/:id/permissions", requireChannelPermission("viewChannel"), async (req, res) => {
+    res.json({ permissions: res.locals.permissions });
+  });
+
+  app.get("/api/channels/:id/overwrites", requireChannelPermission("manageChannels"), async (req, res, next) => {
+    try {
+      res.json(await storage.getChannelOverwrites(req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/channels/:id/overwrites/:targetType/:targetId", requireChannelPermission("manageChannels"), async (req, res) => {
+    try {
+      const channel: Channel = res.locals.channel;
+      const targetType = z.enum(["everyone", "role", "member"]).parse(req.params.targetType);
+      const { allow, deny } = overwriteInputSchema.parse(req.body);
+
+      const targetExists = targetType === "everyone"
+        ? req.params.targetId === "everyone"
+        : targetType === "role"
+          ? (await storage.getRole(req.params.targetId))?.serverId === channel.serverId
+          : !!(await storage.getServerMember(channel.serverId, req.params.targetId));
+      if (!targetExists) {
+        return res.status(404).json({ message: "Overwrite target not found" });
+      }
+
+      const allowBits = toPermissionBits(allow);
+      const denyBits = toPermissionBits(deny);
+      if ((allowBits | denyBits) & ~res.locals.permissions) {
+        return res.status(403).json({ message: "Cannot set permissions you do not have" });
+      }
+
+      const overwrite = await storage.setChannelOverwrite(channel.id, {
+        targetType,
+        targetId: req.params.targetId,
+        allow: allowBits,
+        deny: denyBits & ~allowBits
+      });
+      res.json(overwrite);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid overwrite data" });
+    }
+  });
+
+  app.delete("/api/channels/:id/overwrites/:targetType/:targetId", requireChannelPermission("manageChannels"), async (req, res, next) => {
+    try {
+      const overwrite = (await storage.getChannelOverwrites(req.params.id))
+        .find(o => o.targetType === req.params.targetType && o.targetId === req.params.targetId);
+      // Removing an overwrite changes the same permissions as setting it
+      if (overwrite && (overwrite.allow | overwrite.deny) & ~res.locals.permissions) {
+        return res.status(403).json({ message: "Cannot remove permissions you do not have" });
+      }
+
+      await storage.deleteChannelOverwrite(req.params.id, req.params.targetType, req.params.targetId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
   });
 
+  app.get("/api/channels/:id/messages", requireChannelPermission("viewChannel"), async (req, res, next) => {
+    try {
+      const result = await parseMessagePage(req.query, id => storage.getMessage(id), m => m.channelId === req.params.id && !m.threadId);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const messages = await storage.getChannelMessages(req.params.id, result.page);
+      res.json(messages.map(toPublicMessage));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Pins
+  app.get("/api/channels/:id/pins", requireChannelPermission("viewChannel"), async (req, res, next) => {
+    try {
+      const messages = await storage.getPinnedMessages(req.params.id);
+      res.json(messages.map(toPublicMessage));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/channels/:id/pins/:messageId", requireChannelPermission("manageMessages"), async (req, res, next) => {
+    try {
+      const channel: Channel = res.locals.channel;
+      const existing = await storage.getMessage(req.params.messageId);
+      if (!existing || existing.channelId !== channel.id || existing.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (existing.threadId || existing.type === "pin") {
+        return res.status(400).json({ message: "This message cannot be pinned" });
+      }
+      // Pinning twice is a no-op and does not announce again
+      if (existing.pinnedAt) {
+        return res.json(existing);
+      }
+
+      const pinned = await storage.getPinnedMessages(channel.id);
+      if (pinned.length >= MAX_PINS_PER_CHANNEL) {
+        return res.status(400).json({ message: `A channel can have at most ${MAX_PINS_PER_CHANNEL} pinned messages` });
+      }
+
+      const message = await storage.pinMessage(existing.id, req.user!.id);
+      const author = await storage.getUser(existing.authorId);
+      void publishToChannel(channel, { type: "message.updated", message: { ...message!, author: toPublicUser(author!) } });
+
+      // Announce the pin in the channel, pointing back at the pinned message
+      const notice = await storage.createMessage({
+        content: "",
+        channelId: channel.id,
+        authorId: req.user!.id,
+        type: "pin",
+        replyToId: existing.id
+      });
+      void publishToChannel(channel, {
+        type: "message.created",
+        message: {
+          ...notice,
+          author: toPublicUser(req.user!),
+          replyTo: {
+            id: existing.id,
+            content: existing.content,
+            authorId: existing.authorId,
+            deletedAt: existing.deletedAt,
+            author: toPublicUser(author!)
+          },
+          thread: null
+        }
+      });
+      res.json({ ...message!, author: toPublicUser(author!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/channels/:id/pins/:messageId", requireChannelPermission("manageMessages"), async (req, res, next) => {
+    try {
+      const channel: Channel = res.locals.channel;
+      const existing = await storage.getMessage(req.params.messageId);
+      if (!existing || existing.channelId !== channel.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const message = existing.pinnedAt ? await storage.unpinMessage(existing.id) : existing;
+      const author = await storage.getUser(existing.authorId);
+      const messageWithAuthor = { ...message!, author: toPublicUser(author!) };
+      if (existing.pinnedAt) {
+        void publishToChannel(channel, { type: "message.updated", message: messageWithAuthor });
+      }
+      res.json(messageWithAuthor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Messages
+  app.post("/api/messages", acceptAttachments, async (req, res) => {
+    try {
+      const messageData = insertMessageSchema.omit({ authorId: true, attachments: true }).parse(req.body);
+      const files = uploadedFiles(req.files);
+      // Pin notices are only ever posted by the server
+      if (messageData.type === "pin") {
+        return res.status(400).json({ message: "Invalid message data" });
+      }
+      if (!messageData.content.trim() && files.length === 0) {
+        return res.status(400).json({ message: "Message cannot be empty" });
+      }
+      const channel = await storage.getChannel(messageData.channelId);
+      if (!channel) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+
+      const permissions = await getChannelPermissions(req.user!.id, channel);
+      if (!hasPermissionBit(permissions, "viewChannel")) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      if (!hasPermissionBit(permissions, "sendMessages")) {
+        return res.status(403).json({ message: "Missing permission: sendMessages" });
+      }
+      if (MASS_MENTION_PATTERN.test(messageData.content) && !hasPermissionBit(permissions, "mentionEveryone")) {
+        return res.status(403).json({ message: "Missing permission: mentionEveryone" });
+      }
+      if (files.length > 0 && !hasPermissionBit(permissions, "attachFiles")) {
+        return res.status(403).json({ message: "Missing permission: attachFiles" });
+      }
+      if (await mentionsBlocker(req.user!.id, messageData.content)) {
+        return res.status(403).json({ message: "Cannot mention a user who has blocked you" });
+      }
+
+      // A retried send (e.g. from the offline outbox) gets back the message its first attempt created
+      const duplicate = messageData.nonce && await storage.getMessageByNonce(req.user!.id, messageData.nonce);
+      if (duplicate) {
+        return res.json({ ...duplicate, author: toPublicUser(req.user!) });
+      }
+
+      const thread = messageData.threadId ? await storage.getThread(messageData.threadId) : undefined;
+      if (messageData.threadId && thread?.channelId !== channel.id) {
+        return res.status(400).json({ message: "Invalid thread" });
+      }
+
+      // Replies quote a live message from the same conversation (channel or thread)
+      const replyTarget = messageData.replyToId ? await storage.getMessage(messageData.replyToId) : undefined;
+      if (messageData.replyToId && (
+        !replyTarget ||
+        replyTarget.deletedAt ||
+        replyTarget.channelId !== channel.id ||
+        (replyTarget.threadId ?? null) !== (messageData.threadId ?? null)
+      )) {
+        return res.status(400).json({ message: "Invalid reply target" });
+      }
+      const replyAuthor = replyTarget && await storage.getUser(replyTarget.authorId);
+
+      const attachments = files.length > 0 ? await storeAttachments(files) : null;
+      const message = await storage.createMessage({
+        ...messageData,
+        authorId: req.user!.id,
+        type: attachments ? "file" : messageData.type,
+        attachments
+      });
+      const messageWithAuthor: RealtimeMessage = {
+        ...message,
+        author: toPublicUser(req.user!),
+        replyTo: replyTarget && replyAuthor ? {
+          id: replyTarget.id,
+          content: replyTarget.content,
+          authorId: replyTarget.authorId,
+          deletedAt: replyTarget.deletedAt,
+          author: toPublicUser(replyAuthor)
+        } : null,
+        thread: null
+      };
+      void publishToChannel(channel, { type: "message.created", message: messageWithAuthor });
+      if (thread) {
+        const updatedThread = await storage.getThread(thread.id);
+        void publishToChannel(channel, { type: "thread.updated", thread: updatedThread! });
+      }
+      res.json(messageWithAuthor);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid message data" });
+    }
+  });
+
+  app.patch("/api/messages/:id", async (req, res) => {
+    try {
+      const { content } = updateMessageSchema.parse(req.body);
+      const existing = await storage.getMessage(req.params.id);
+      const channel = existing && await storage.getChannel(existing.channelId);
+      if (!existing || !channel || existing.deletedAt || !(await hasChannelPermission(req.user!.id, channel, "viewChannel"))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      // Only the author may rewrite what they said
+      if (existing.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Cannot edit another user's message" });
+      }
+      if (existing.type === "pin") {
+        return res.status(400).json({ message: "System messages cannot be edited" });
+      }
+      if (MASS_MENTION_PATTERN.test(content) && !(await hasChannelPermission(req.user!.id, channel, "mentionEveryone"))) {
+        return res.status(403).json({ message: "Missing permission: mentionEveryone" });
+      }
+      if (await mentionsBlocker(req.user!.id, content)) {
+        return res.status(403).json({ message: "Cannot mention a user who has blocked you" });
+      }
+
+      const message = await storage.updateMessage(existing.id, content);
+      const messageWithAuthor = { ...message!, author: toPublicUser(req.user!) };
+      void publishToChannel(channel, { type: "message.updated", message: messageWithAuthor });
+      res.json(messageWithAuthor);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid message data" });
+    }
+  });
+
+  app.delete("/api/messages/:id", async (req, res, next) => {
+    try {
+      const existing = await storage.getMessage(req.params.id);
+      const channel = existing && await storage.getChannel(existing.channelId);
+      if (!existing || !channel || existing.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const permissions = await getChannelPermissions(req.user!.id, channel);
+      if (!hasPermissionBit(permissions, "viewChannel")) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (existing.authorId !== req.user!.id && !hasPermissionBit(permissions, "manageMessages")) {
+        return res.status(403).json({ message: "Missing permission: manageMessages" });
+      }
+
+      const message = await storage.deleteMessage(existing.id);
+      deleteAttachments(existing.attachments).catch(error => console.error("Error deleting attachments:", error));
+      const author = await storage.getUser(existing.authorId);
+      const messageWithAuthor = { ...message!, author: toPublicUser(author!) };
+      void publishToChannel(channel, { type: "message.deleted", message: messageWithAuthor });
+      res.json(messageWithAuthor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/messages/:id/attachments/:attachmentId/:name?", async (req, res, next) => {
+    try {
+      const visible = await getVisibleMessage(req.user!.id, req.params.id);
+      const attachment = visible?.message.attachments?.find(a => a.id === req.params.attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await sendAttachment(res, attachment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reactions
+  app.put("/api/messages/:id/reactions/:emoji", async (req, res, next) => {
+    try {
+      const emoji = reactionEmojiSchema.safeParse(req.params.emoji);
+      if (!emoji.success) {
+        return res.status(400).json({ message: "Invalid emoji" });
+      }
+
+      const visible = await getVisibleMessage(req.user!.id, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!hasPermissionBit(visible.permissions, "addReactions")) {
+        return res.status(403).json({ message: "Missing permission: addReactions" });
+      }
+
+      const { message, channel } = visible;
+      const existing = await storage.getMessageReactions(message.id);
+      if (!existing.some(r => r.emoji === emoji.data) && existing.length >= MAX_REACTIONS_PER_MESSAGE) {
+        return res.status(400).json({ message: "Too many different reactions on this message" });
+      }
+
+      await storage.addReaction(message.id, req.user!.id, emoji.data);
+      const reactions = await storage.getMessageReactions(message.id);
+      void publishToChannel(channel, {
+        type: "reaction.updated",
+        message: { id: message.id, channelId: message.channelId, threadId: message.threadId },
+        reactions
+      });
+      res.json(reactions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/messages/:id/reactions/:emoji", async (req, res, next) => {
+    try {
+      const visible = await getVisibleMessage(req.user!.id, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const { message, channel } = visible;
+      await storage.removeReaction(message.id, req.user!.id, req.params.emoji);
+      const reactions = await storage.getMessageReactions(message.id);
+      void publishToChannel(channel, {
+        type: "reaction.updated",
+        message: { id: message.id, channelId: message.channelId, threadId: message.threadId },
+        reactions
+      });
+      res.json(reactions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Threads
+  app.post("/api/messages/:id/thread", async (req, res) => {
+    try {
+      const { name } = threadInputSchema.parse(req.body);
+      const root = await storage.getMessage(req.params.id);
+      const channel = root && await storage.getChannel(root.channelId);
+      if (!root || !channel || root.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const permissions = await getChannelPermissions(req.user!.id, channel);
+      if (!hasPermissionBit(permissions, "viewChannel")) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!hasPermissionBit(permissions, "sendMessages")) {
+        return res.status(403).json({ message: "Missing permission: sendMessages" });
+      }
+      if (root.threadId) {
+        return res.status(400).json({ message: "Threads cannot be started inside a thread" });
+      }
+      if (root.type === "pin") {
+        return res.status(400).json({ message: "Threads cannot be started from system messages" });
+      }
+
+      // A message spawns at most one thread; asking again opens the existing one
+      const existing = await storage.getThreadByRootMessage(root.id);
+      if (existing) {
+        return res.json(existing);
+      }
+
+      const thread = await storage.createThread({
+        channelId: channel.id,
+        rootMessageId: root.id,
+        creatorId: req.user!.id,
+        name: name ?? defaultThreadName(root.content)
+      });
+      void publishToChannel(channel, { type: "thread.updated", thread });
+      res.json(thread);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid thread data" });
+    }
+  });
+
+  app.get("/api/threads/:id", async (req, res, next) => {
+    try {
+      const visible = await getVisibleThread(req.user!.id, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+
+      const { thread } = visible;
+      const root = await storage.getMessage(thread.rootMessageId);
+      const rootAuthor = root && await storage.getUser(root.authorId);
+      const participants = await storage.getThreadMembers(thread.id);
+      res.json({
+        ...thread,
+        rootMessage: root && rootAuthor ? { ...root, author: toPublicUser(rootAuthor), thread } : null,
+        participants: participants.map(toPublicUser)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/threads/:id/messages", async (req, res, next) => {
+    try {
+      const visible = await getVisibleThread(req.user!.id, req.params.id);
+      if (!visible) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+
+      const result = await parseMessagePage(req.query, id => storage.getMessage(id), m => m.threadId === req.params.id);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const messages = await storage.getThreadMessages(req.params.id, result.page);
+      res.json(messages.map(toPublicMessage));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Search
+  app.get("/api/search", async (req, res, next) => {
+    try {
+      const params = searchParamsSchema.safeParse(req.query);
+      if (!params.success) {
+        return res.status(400).json({ message: "Invalid search parameters" });
+      }
+      const parsed = parseSearchQuery(params.data.q);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const { query } = parsed;
+      const userId = req.user!.id;
+      const { serverId, offset } = params.data;
+      if (serverId && !(await storage.getServerMember(serverId, userId))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+
+      // Only text channels the caller can currently see are searched
+      const serverIds = serverId ? [serverId] : (await storage.getUserServers(userId)).map(s => s.id);
+      let channels: Channel[] = [];
+      for (const id of serverIds) {
+        const serverChannels = await storage.getServerChannels(id);
+        channels.push(...await filterVisibleChannels(userId, id, serverChannels.filter(c => c.type === "text")));
+      }
+
+      // Direct messages are only searched outside a server scope; `in:@name` narrows to one conversation
+      let searchDirectMessages = !serverId;
+      let directMessagePeerId: string | undefined;
+      if (query.in?.startsWith("@")) {
+        const peer = await storage.getUserByUsername(query.in.slice(1));
+        if (!peer) return res.json([]);
+        channels = [];
+        directMessagePeerId = peer.id;
+      } else if (query.in) {
+        const name = query.in.toLowerCase();
+        channels = channels.filter(c => c.name.toLowerCase() === name);
+        searchDirectMessages = false;
+      }
+
+      const author = query.from ? await storage.getUserByUsername(query.from) : undefined;
+      if (query.from && !author) return res.json([]);
+
+      const hits = await storage.searchMessages({
+        terms: query.terms,
+        channelIds: channels.map(c => c.id),
+        directMessageUserId: searchDirectMessages ? userId : undefined,
+        directMessagePeerId,
+        authorId: author?.id,
+        mentions: query.mentions,
+        hasFile: query.hasFile,
+        before: query.before,
+        after: query.after,
+        limit: SEARCH_RESULT_LIMIT,
+        offset
+      });
+
+      const channelsById = new Map(channels.map(c => [c.id, c]));
+      res.json(hits.map((hit): SearchResult => hit.type === "message"
+        ? { type: "message", message: toPublicMessage(hit.message), channel: channelsById.get(hit.message.channelId)! }
+        : {
+            type: "direct-message",
+            message: { ...hit.message, sender: toPublicUser(hit.message.sender), recipient: toPublicUser(hit.message.recipient) }
+          }
+      ));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Direct Messages
+  app.post("/api/direct-messages", acceptAttachments, async (req, res) => {
+    try {
+      const messageData = insertDirectMessageSchema.omit({ senderId: true, attachments: true }).parse(req.body);
+      const files = uploadedFiles(req.files);
+      if (!messageData.content.trim() && files.length === 0) {
+        return res.status(400).json({ message: "Message cannot be empty" });
+      }
+      const recipient = await storage.getUser(messageData.recipientId);
+      if (!recipient) {
+        return res.status(404).json({ message: "Recipient not found" });
+      }
+      if (await storage.isBlocked(req.user!.id, recipient.id)) {
+        return res.status(403).json({ message: "Unblock this user to message them" });
+      }
+      if (await storage.isBlocked(recipient.id, req.user!.id)) {
+        return res.status(403).json({ message: "This user is not accepting messages from you" });
+      }
+      if (messageData.encryption) {
+        if (files.length > 0) {
+          return res.status(400).json({ message: "Encrypted messages cannot carry attachments" });
+        }
+        const problem = await checkEncryption(messageData.encryption, req.user!.id, recipient.id);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const attachments = files.length > 0 ? await storeAttachments(files) : null;
+      const message = await storage.createDirectMessage({
+        ...messageData,
+        senderId: req.user!.id,
+        type: attachments ? "file" : messageData.type,
+        attachments
+      });
+      const messageWithUsers = {
+        ...message,
+        sender: toPublicUser(req.user!),
+        recipient: toPublicUser(recipient)
+      };
+      publishDirectMessage(messageWithUsers);
+      res.json(messageWithUsers);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid direct message data" });
+    }
+  });
+
+  app.get("/api/direct-messages", async (req, res) => {
+    const { userId } = req.query;
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ message: "User ID required" });
+    }
+    
+    const messages = await storage.getDirectMessages(req.user!.id, userId);
+    res.json(messages.map(m => ({ ...m, sender: toPublicUser(m.sender), recipient: toPublicUser(m.recipient) })));
+  });
+
+  // One entry per counterpart, most recently active first
+  app.get("/api/direct-messages/conversations", async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const conversations = new Map<string, DirectConversation>();
+      for (const message of await storage.getUserDirectMessages(userId)) {
+        const other = message.senderId === userId ? message.recipient : message.sender;
+        if (conversations.has(other.id)) continue;
+        conversations.set(other.id, {
+          user: toPublicUser(other),
+          lastMessage: { ...message, sender: toPublicUser(message.sender), recipient: toPublicUser(message.recipient) },
+        });
+      }
+      res.json(Array.from(conversations.values()));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/direct-messages/:id/attachments/:attachmentId/:name?", async (req, res, next) => {
+    try {
+      const message = await storage.getDirectMessage(req.params.id);
+      const isParticipant = message && (message.senderId === req.user!.id || message.recipientId === req.user!.id);
+      const attachment = isParticipant ? message.attachments?.find(a => a.id === req.params.attachmentId) : undefined;
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await sendAttachment(res, attachment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Group Conversations
+  app.get("/api/groups", async (req, res, next) => {
+    try {
+      const groups = await storage.getUserGroups(req.user!.id);
+      res.json(await Promise.all(groups.map(withGroupMembers)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/groups", async (req, res, next) => {
+    try {
+      const parsed = groupInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid group data" });
+      }
+      const memberIds = Array.from(new Set(parsed.data.memberIds)).filter(id => id !== req.user!.id);
+      if (memberIds.length === 0) {
+        return res.status(400).json({ message: "A group needs at least one other member" });
+      }
+      for (const memberId of memberIds) {
+        if (!(await storage.getUser(memberId))) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        if (await storage.isBlocked(memberId, req.user!.id)) {
+          return res.status(403).json({ message: "Cannot add a user who has blocked you" });
+        }
+      }
+
+      const group = await withGroupMembers(await storage.createGroup(req.user!.id, parsed.data.name ?? null, memberIds));
+      publishToGroup(group.members.map(m => m.id), { type: "group.updated", group });
+      res.json(group);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/groups/:id", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json(await withGroupMembers(group));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/groups/:id", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const parsed = updateGroupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid group data" });
+      }
+      if (parsed.data.name === group.name) {
+        return res.json(await withGroupMembers(group));
+      }
+
+      await storage.updateGroup(group.id, { name: parsed.data.name });
+      res.json(await announceGroupChange(group.id, req.user!, { type: "rename", content: parsed.data.name ?? "" }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/groups/:id/icon", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group?.icon) {
+        return res.status(404).json({ message: "Icon not found" });
+      }
+      await sendAttachment(res, group.icon);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/groups/:id/icon", acceptAttachments, async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const files = uploadedFiles(req.files);
+      if (files.length !== 1 || !files[0].mimetype.startsWith("image/")) {
+        return res.status(400).json({ message: "Group icons must be a single image" });
+      }
+
+      const [icon] = await storeAttachments(files);
+      await storage.updateGroup(group.id, { icon });
+      deleteAttachments(group.icon && [group.icon]).catch(error => console.error("Error deleting attachments:", error));
+      res.json(await announceGroupChange(group.id, req.user!, { type: "icon" }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/groups/:id/icon", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!group.icon) {
+        return res.json(await withGroupMembers(group));
+      }
+
+      await storage.updateGroup(group.id, { icon: null });
+      deleteAttachments([group.icon]).catch(error => console.error("Error deleting attachments:", error));
+      res.json(await announceGroupChange(group.id, req.user!, { type: "icon" }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Any member can add people; the group stays capped at MAX_GROUP_MEMBERS
+  app.post("/api/groups/:id/members", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const parsed = z.object({ userId: z.string().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid member data" });
+      }
+      const target = await storage.getUser(parsed.data.userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (await storage.getGroupMember(group.id, target.id)) {
+        return res.status(400).json({ message: "User is already in this group" });
+      }
+      if (await storage.isBlocked(target.id, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot add a user who has blocked you" });
+      }
+      if ((await storage.getGroupMembers(group.id)).length >= MAX_GROUP_MEMBERS) {
+        return res.status(400).json({ message: `A group can have at most ${MAX_GROUP_MEMBERS} members` });
+      }
+
+      await storage.addGroupMember(group.id, target.id);
+      res.json(await announceGroupChange(group.id, req.user!, { type: "member-add", target }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Removing yourself leaves the group; removing anyone else is up to the owner
+  app.delete("/api/groups/:id/members/:userId", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const leaving = req.params.userId === req.user!.id;
+      if (!leaving && group.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the group owner can remove members" });
+      }
+      const target = await storage.getUser(req.params.userId);
+      if (!target || !(await storage.getGroupMember(group.id, target.id))) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await storage.removeGroupMember(group.id, target.id);
+      const remaining = await storage.getGroupMembers(group.id);
+      if (remaining.length > 0) {
+        // The longest-standing member takes over from an owner who leaves
+        if (group.ownerId === target.id) {
+          await storage.updateGroup(group.id, { ownerId: remaining[0].id });
+        }
+        await announceGroupChange(group.id, req.user!, { type: leaving ? "member-leave" : "member-remove", target }, [target.id]);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/groups/:id/messages", async (req, res, next) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const result = await parseMessagePage(req.query, id => storage.getGroupMessage(id), m => m.groupId === group.id);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const messages = await storage.getGroupMessages(group.id, result.page);
+      res.json(messages.map(m => ({ ...m, author: toPublicUser(m.author), target: m.target && toPublicUser(m.target) })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/groups/:id/messages", acceptAttachments, async (req, res) => {
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { content } = insertGroupMessageSchema.pick({ content: true }).parse(req.body);
+      const files = uploadedFiles(req.files);
+      if (!content.trim() && files.length === 0) {
+        return res.status(400).json({ message: "Message cannot be empty" });
+      }
+      if (await mentionsBlocker(req.user!.id, content)) {
+        return res.status(403).json({ message: "Cannot mention a user who has blocked you" });
+      }
+
+      const attachments = files.length > 0 ? await storeAttachments(files) : null;
+      const message = await storage.createGroupMessage({
+        content,
+        groupId: group.id,
+        authorId: req.user!.id,
+        type: attachments ? "file" : "text",
+        attachments
+      });
+      const messageWithUsers = { ...message, author: toPublicUser(req.user!), target: null };
+      const members = await storage.getGroupMembers(group.id);
+      publishToGroup(members.map(m => m.id), { type: "group.message.created", message: messageWithUsers });
+      res.json(messageWithUsers);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid message data" });
+    }
+  });
+
+  app.get("/api/group-messages/:id/attachments/:attachmentId/:name?", async (req, res, next) => {
+    try {
+      const message = await storage.getGroupMessage(req.params.id);
+      const group = message && await getMemberGroup(req.user!.id, message.groupId);
+      const attachment = group ? message.attachments?.find(a => a.id === req.params.attachmentId) : undefined;
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await sendAttachment(res, attachment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Friends
+  app.get("/api/friends", async (req, res, next) => {
+    try {
+      const friends = await storage.getFriends(req.user!.id);
+      res.json(friends.map(toPublicUser));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/friends/requests", async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const requests = await storage.getFriendRequests(userId);
+      const toRequest = (request: (typeof requests)[number]) => ({ user: toPublicUser(request.user), createdAt: request.createdAt });
+      const result: FriendRequests = {
+        incoming: requests.filter(r => r.userId2 === userId).map(toRequest),
+        outgoing: requests.filter(r => r.userId1 === userId).map(toRequest)
+      };
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/friends/blocked", async (req, res, next) => {
+    try {
+      const blocked = await storage.getBlockedUsers(req.user!.id);
+      res.json(blocked.map(toPublicUser));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Blocking ends any friendship or pending request between the two users
+  app.put("/api/friends/blocked/:userId", async (req, res, next) => {
+    try {
+      const target = await storage.getUser(req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.id === req.user!.id) {
+        return res.status(400).json({ message: "Cannot block yourself" });
+      }
+
+      await storage.blockUser(req.user!.id, target.id);
+      // Only the blocker's other sessions hear about it; the blocked user is not told
+      publishToUser(req.user!.id, { type: "friendship.updated", userId: target.id });
+      void refreshPeerLink(req.user!.id, target.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/friends/blocked/:userId", async (req, res, next) => {
+    try {
+      if (!(await storage.isBlocked(req.user!.id, req.params.userId))) {
+        return res.status(404).json({ message: "Blocked user not found" });
+      }
+
+      await storage.unblockUser(req.user!.id, req.params.userId);
+      void refreshPeerLink(req.user!.id, req.params.userId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Asking someone who has already asked you accepts their request instead
+  app.post("/api/friends", async (req, res, next) => {
+    try {
+      const parsed = friendRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid friend request data" });
+      }
+
+      const { userId, username } = parsed.data;
+      const target = userId ? await storage.getUser(userId) : await storage.getUserByUsername(username!);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.id === req.user!.id) {
+        return res.status(400).json({ message: "Cannot add yourself as a friend" });
+      }
+      if (await storage.isBlocked(req.user!.id, target.id)) {
+        return res.status(400).json({ message: "Unblock this user before adding them as a friend" });
+      }
+      if (await storage.isBlocked(target.id, req.user!.id)) {
+        return res.status(403).json({ message: "Cannot send a friend request to this user" });
+      }
+
+      const existing = await storage.getFriendship(req.user!.id, target.id);
+      if (existing?.status === "accepted") {
+        return res.status(400).json({ message: "You are already friends" });
+      }
+      if (existing?.status === "pending" && existing.userId1 === req.user!.id) {
+        return res.status(400).json({ message: "Friend request already sent" });
+      }
+      if (existing?.status === "pending") {
+        await storage.acceptFriend(existing.userId1, existing.userId2);
+        publishToUser(target.id, { type: "friendship.updated", userId: req.user!.id });
+        return res.json({ status: "accepted" });
+      }
+
+      const friendship = await storage.addFriend(req.user!.id, target.id);
+      publishToUser(target.id, {
+        type: "friend-request.created",
+        request: { user: toPublicUser(req.user!), createdAt: friendship.createdAt }
+      });
+      res.json({ status: "pending" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Only the user a request was sent to can accept it
+  app.post("/api/friends/requests/:userId/accept", async (req, res, next) => {
+    try {
+      const existing = await storage.getFriendship(req.user!.id, req.params.userId);
+      if (!existing || existing.status !== "pending" || existing.userId2 !== req.user!.id) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+
+      await storage.acceptFriend(existing.userId1, existing.userId2);
+      publishToUser(existing.userId1, { type: "friendship.updated", userId: req.user!.id });
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Declines an incoming request or cancels an outgoing one
+  app.delete("/api/friends/requests/:userId", async (req, res, next) => {
+    try {
+      const existing = await storage.getFriendship(req.user!.id, req.params.userId);
+      if (!existing || existing.status !== "pending") {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+
+      await storage.removeFriendship(existing.id);
+      publishToUser(req.params.userId, { type: "friendship.updated", userId: req.user!.id });
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/friends/:userId", async (req, res, next) => {
+    try {
+      const existing = await storage.getFriendship(req.user!.id, req.params.userId);
+      if (!existing || existing.status !== "accepted") {
+        return res.status(404).json({ message: "Friend not found" });
+      }
+
+      await storage.removeFriendship(existing.id);
+      publishToUser(req.params.userId, { type: "friendship.updated", userId: req.user!.id });
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const httpServer = createServer(app);
+  // Statuses left over from before a restart belong to sockets that no longer exist
+  await storage.resetPresence();
+  setupRealtime(httpServer);
+
   return httpServer;
 }
@@ -0,0 +1,211 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import { groupMessages, messages, type GroupMessage, type Message } from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build cannot load its own dependencies, so take the CommonJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+interface Backend {
+  storage: IStorage;
+  // Writes `count` channel messages that all carry the same creation time, down to the microsecond
+  createMessagesAt(time: string, message: Pick<Message, "channelId" | "authorId">, count: number): Promise<void>;
+  createGroupMessagesAt(time: string, message: Pick<GroupMessage, "groupId" | "authorId">, count: number): Promise<void>;
+}
+
+async function memBackend(): Promise<Backend> {
+  const storage = new MemStorage();
+  return {
+    storage,
+    async createMessagesAt(time, message, count) {
+      vi.useFakeTimers({ toFake: ["Date"], now: new Date(time) });
+      for (let i = 0; i < count; i++) {
+        await storage.createMessage({ ...message, content: `same time ${i}` });
+      }
+      vi.useRealTimers();
+    },
+    async createGroupMessagesAt(time, message, count) {
+      vi.useFakeTimers({ toFake: ["Date"], now: new Date(time) });
+      for (let i = 0; i < count; i++) {
+        await storage.createGroupMessage({ ...message, content: `same time ${i}` });
+      }
+      vi.useRealTimers();
+    },
+  };
+}
+
+// An in-process Postgres with the schema applied the way `db:push` would
+async function drizzleBackend(): Promise<Backend> {
+  const db = drizzle(new PGlite(), { schema });
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+  return {
+    storage: new DrizzleStorage(db),
+    async createMessagesAt(time, message, count) {
+      await db.insert(messages).values(Array.from({ length: count }, (_, i) => ({
+        ...message,
+        content: `same time ${i}`,
+        createdAt: sql`${time}::timestamptz`,
+      })));
+    },
+    async createGroupMessagesAt(time, message, count) {
+      await db.insert(groupMessages).values(Array.from({ length: count }, (_, i) => ({
+        ...message,
+        content: `same time ${i}`,
+        createdAt: sql`${time}::timestamptz`,
+      })));
+    },
+  };
+}
+
+describe.each([
+  ["MemStorage", memBackend],
+  ["DrizzleStorage", drizzleBackend],
+])("%s", (_name, createBackend) => {
+  let backend: Backend;
+  let storage: IStorage;
+  let userId: string;
+  let bobId: string;
+  let carolId: string;
+  let unique = 0;
+
+  beforeAll(async () => {
+    backend = await createBackend();
+    storage = backend.storage;
+    userId = (await storage.createUser({ username: "alice", email: "alice@example.com", password: "x" })).id;
+    bobId = (await storage.createUser({ username: "bob", email: "bob@example.com", password: "x" })).id;
+    carolId = (await storage.createUser({ username: "carol", email: "carol@example.com", password: "x" })).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function createChannel() {
+    const server = await storage.createServer({ name: `server ${++unique}`, ownerId: userId });
+    return storage.createChannel({ name: "history", type: "text", serverId: server.id });
+  }
+
+  describe("channel history pages", () => {
+    // Two messages written normally, then five written in the same microsecond and a last one
+    async function historyWithTies() {
+      const channel = await createChannel();
+      const author = { channelId: channel.id, authorId: userId };
+      await storage.createMessage({ ...author, content: "first" });
+      await storage.createMessage({ ...author, content: "second" });
+      await backend.createMessagesAt("2030-01-01T12:00:00.123456Z", author, 5);
+      await backend.createMessagesAt("2030-01-01T12:00:01.000001Z", author, 1);
+      const all = await storage.getChannelMessages(channel.id, { limit: 100 });
+      return { channel, ids: all.map(message => message.id) };
+    }
+
+    it("returns the latest messages, oldest first", async () => {
+      const { channel, ids } = await historyWithTies();
+      expect(ids).toHaveLength(8);
+      const page = await storage.getChannelMessages(channel.id, { limit: 3 });
+      expect(page.map(message => message.id)).toEqual(ids.slice(-3));
+    });
+
+    it("pages backwards through tied timestamps without repeats or gaps", async () => {
+      const { channel, ids } = await historyWithTies();
+      const seen: string[] = [];
+      let page = await storage.getChannelMessages(channel.id, { limit: 2 });
+      // Bounded, so a cursor that never advances fails instead of looping forever
+      for (let i = 0; page.length > 0 && i < ids.length; i++) {
+        seen.unshift(...page.map(message => message.id));
+        page = await storage.getChannelMessages(channel.id, { before: page[0].id, limit: 2 });
+      }
+      expect(seen).toEqual(ids);
+    });
+
+    it("pages forwards from a cursor without returning the cursor itself", async () => {
+      const { channel, ids } = await historyWithTies();
+      const seen: string[] = [];
+      let cursor = ids[0];
+      for (let i = 0; i < ids.length; i++) {
+        const page = await storage.getChannelMessages(channel.id, { after: cursor, limit: 2 });
+        if (page.length === 0) break;
+        seen.push(...page.map(message => message.id));
+        cursor = page[page.length - 1].id;
+      }
+      expect(seen).toEqual(ids.slice(1));
+    });
+
+    it("centres a page on its anchor, showing it once", async () => {
+      const { channel, ids } = await historyWithTies();
+      const page = await storage.getChannelMessages(channel.id, { around: ids[3], limit: 5 });
+      expect(page.map(message => message.id)).toEqual(ids.slice(1, 6));
+    });
+
+    it("returns nothing for a cursor from another channel", async () => {
+      const { ids } = await historyWithTies();
+      const other = await createChannel();
+      expect(await storage.getChannelMessages(other.id, { before: ids[3], limit: 5 })).toEqual([]);
+    });
+  });
+
+  describe("group conversations", () => {
+    it("adds the owner and each member once", async () => {
+      const group = await storage.createGroup(userId, null, [bobId, bobId, userId]);
+      const members = await storage.getGroupMembers(group.id);
+      expect(members.map(member => member.id).sort()).toEqual([userId, bobId].sort());
+      expect(await storage.getGroupMember(group.id, carolId)).toBeUndefined();
+    });
+
+    it("adds and removes members, ignoring repeated adds", async () => {
+      const group = await storage.createGroup(userId, "trip", [bobId]);
+      await storage.addGroupMember(group.id, carolId);
+      await storage.addGroupMember(group.id, carolId);
+      expect((await storage.getGroupMembers(group.id)).map(member => member.id).sort()).toEqual([userId, bobId, carolId].sort());
+
+      await storage.removeGroupMember(group.id, bobId);
+      expect(await storage.getGroupMember(group.id, bobId)).toBeUndefined();
+      expect((await storage.getUserGroups(bobId)).map(g => g.id)).not.toContain(group.id);
+      expect((await storage.getUserGroups(carolId)).map(g => g.id)).toContain(group.id);
+    });
+
+    it("records when the group was last active", async () => {
+      const group = await storage.createGroup(userId, null, [bobId]);
+      const message = await storage.createGroupMessage({ groupId: group.id, authorId: bobId, content: "hi" });
+      expect((await storage.getGroup(group.id))?.lastMessageAt).toEqual(message.createdAt);
+    });
+
+    it("pages through tied timestamps without repeats or gaps", async () => {
+      const group = await storage.createGroup(userId, null, [bobId]);
+      const author = { groupId: group.id, authorId: userId };
+      await storage.createGroupMessage({ ...author, content: "first" });
+      await backend.createGroupMessagesAt("2030-01-01T12:00:00.123456Z", author, 5);
+      await backend.createGroupMessagesAt("2030-01-01T12:00:01.000001Z", author, 1);
+      const ids = (await storage.getGroupMessages(group.id, { limit: 100 })).map(message => message.id);
+      expect(ids).toHaveLength(7);
+
+      const backwards: string[] = [];
+      let page = await storage.getGroupMessages(group.id, { limit: 2 });
+      for (let i = 0; page.length > 0 && i < ids.length; i++) {
+        backwards.unshift(...page.map(message => message.id));
+        page = await storage.getGroupMessages(group.id, { before: page[0].id, limit: 2 });
+      }
+      expect(backwards).toEqual(ids);
+
+      const forwards: string[] = [];
+      let cursor = ids[0];
+      for (let i = 0; i < ids.length; i++) {
+        const next = await storage.getGroupMessages(group.id, { after: cursor, limit: 2 });
+        if (next.length === 0) break;
+        forwards.push(...next.map(message => message.id));
+        cursor = next[next.length - 1].id;
+      }
+      expect(forwards).toEqual(ids.slice(1));
+
+      const around = await storage.getGroupMessages(group.id, { around: ids[3], limit: 5 });
+      expect(around.map(message => message.id)).toEqual(ids.slice(1, 6));
+    });
+  });
+});
@@ -9,13 +9,127 @@ import {
   type InsertMessage,
   type DirectMessage,
   type InsertDirectMessage,
+  type GroupConversation,
+  type GroupMember,
+  type GroupMessage,
+  type InsertGroupMessage,
+  type GroupMessageWithUsers,
   type ServerMember,
+  type ServerMemberWithUser,
+  type Role,
+  type InsertRole,
+  type MemberRole,
+  type ServerBan,
+  type ChannelOverwrite,
   type Friendship,
+  type UserKey,
+  type DeviceKey,
+  type KeyPurpose,
   type MessageWithAuthor,
   type DirectMessageWithUsers,
-  type ServerWithChannels
+  type ServerWithChannels,
+  type MessagePage,
+  type Thread,
+  type InsertThread,
+  type ThreadMember,
+  type Reaction,
+  type ReactionSummary,
+  MESSAGE_PAGE_SIZE,
+  users,
+  servers,
+  channels,
+  messages,
+  directMessages,
+  groupConversations,
+  groupMembers,
+  groupMessages,
+  serverMembers,
+  roles,
+  memberRoles,
+  serverBans,
+  channelOverwrites,
+  threads,
+  threadMembers,
+  reactions,
+  friendships,
+  userKeys,
+  deviceKeys
 } from "@shared/schema";
+import { mentionPattern, tokenize } from "@shared/search";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lt, ne, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { createDb, type Database } from "./db";
+
+export type ServerUpdate = Partial<Pick<InsertServer, "name" | "description" | "icon">>;
+export type ChannelUpdate = Partial<Pick<InsertChannel, "name" | "description" | "position" | "isPrivate">>;
+export type OverwriteValues = Pick<ChannelOverwrite, "targetType" | "targetId" | "allow" | "deny">;
+export type RoleUpdate = Partial<Pick<InsertRole, "name" | "color" | "permissions" | "position">>;
+export type GroupUpdate = Partial<Pick<GroupConversation, "name" | "icon" | "ownerId">>;
+export type PresenceUpdate = Partial<Pick<User, "status" | "preferredStatus" | "lastSeenAt">>;
+
+// Search criteria resolved by the caller; channel messages are only searched in `channelIds`
+export interface MessageSearch {
+  terms: string[];
+  channelIds: string[];
+  directMessageUserId?: string; // include direct messages this user sent or received
+  directMessagePeerId?: string; // narrow direct messages to the conversation with this user
+  authorId?: string;
+  mentions?: string;
+  hasFile: boolean;
+  before?: Date;
+  after?: Date;
+  limit: number;
+  offset: number;
+}
+
+export type MessageSearchHit =
+  | { type: "message"; message: MessageWithAuthor }
+  | { type: "direct-message"; message: DirectMessageWithUsers };
+
+const LATEST_PAGE: MessagePage = { limit: MESSAGE_PAGE_SIZE };
+
+// Groups reaction rows by emoji, keeping the order in which each emoji was first added
+function summarizeReactions(rows: Pick<Reaction, "emoji" | "userId" | "createdAt">[]): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary>();
+  [...rows]
+    .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+    .forEach(row => {
+      const summary = summaries.get(row.emoji) ?? { emoji: row.emoji, count: 0, userIds: [] };
+      summary.count++;
+      summary.userIds.push(row.userId);
+      summaries.set(row.emoji, summary);
+    });
+  return Array.from(summaries.values());
+}
+
+// Channel history order: creation time, with the ID breaking ties so cursors are stable
+function compareMessages(a: Pick<Message, "id" | "createdAt">, b: Pick<Message, "id" | "createdAt">): number {
+  return a.createdAt!.getTime() - b.createdAt!.getTime() || a.id.localeCompare(b.id);
+}
+
+// Rows before or after the cursor row in (created_at, id) order. The cursor's timestamp is read
+// in SQL, since the column keeps microseconds that a JS Date would round away.
+function pastCursor(table: PgTable, createdAt: AnyColumn, id: AnyColumn, cursorId: string, direction: "older" | "newer"): SQL {
+  const cursor = sql`(select ${createdAt}, ${id} from ${table} where ${id} = ${cursorId})`;
+  return direction === "older" ? sql`(${createdAt}, ${id}) < ${cursor}` : sql`(${createdAt}, ${id}) > ${cursor}`;
+}
+
+// Cuts the requested page out of a history sorted with compareMessages
+function sliceHistory<T extends { id: string }>(history: T[], page: MessagePage): T[] {
+  const cursorId = page.before ?? page.after ?? page.around;
+  const index = cursorId ? history.findIndex(m => m.id === cursorId) : history.length;
+  if (index === -1) return [];
+
+  if (page.after) {
+    return history.slice(index + 1, index + 1 + page.limit);
+  }
+  if (page.around) {
+    const olderCount = Math.floor(page.limit / 2);
+    return history.slice(Math.max(0, index - olderCount), index + page.limit - olderCount);
+  }
+  return history.slice(Math.max(0, index - page.limit), index);
+}
 
 export interface IStorage {
   // Users
@@ -23,7 +137,9 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserStatus(id: string, status: string): Promise<void>;
+  updateUserPresence(id: string, update: PresenceUpdate): Promise<void>;
+  resetPresence(): Promise<void>;
+  updateUserPassword(id: string, password: string): Promise<void>;
 
   // Servers
   getServer(id: string): Promise<Server | undefined>;
@@ -31,28 +147,103 @@ export interface IStorage {
   createServer(server: InsertServer): Promise<Server>;
   getUserServers(userId: string): Promise<Server[]>;
   getServerByInviteCode(inviteCode: string): Promise<Server | undefined>;
+  updateServer(id: string, updates: ServerUpdate): Promise<Server | undefined>;
   joinServer(userId: string, serverId: string): Promise<void>;
-  getServerMembers(serverId: string): Promise<(ServerMember & { user: User })[]>;
+  getServerMembers(serverId: string): Promise<ServerMemberWithUser[]>;
+  getServerMember(serverId: string, userId: string): Promise<ServerMember | undefined>;
+  updateMemberRole(serverId: string, userId: string, role: string): Promise<void>;
+  removeServerMember(serverId: string, userId: string): Promise<void>;
+
+  // Roles
+  getServerRoles(serverId: string): Promise<Role[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: string, updates: RoleUpdate): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<void>;
+  getMemberRoles(serverId: string, userId: string): Promise<Role[]>;
+  assignRole(serverId: string, userId: string, roleId: string): Promise<void>;
+  unassignRole(serverId: string, userId: string, roleId: string): Promise<void>;
+
+  // Bans
+  getServerBans(serverId: string): Promise<(ServerBan & { user: User })[]>;
+  getServerBan(serverId: string, userId: string): Promise<ServerBan | undefined>;
+  banUser(serverId: string, userId: string, bannedBy: string, reason?: string): Promise<ServerBan>;
+  unbanUser(serverId: string, userId: string): Promise<void>;
 
   // Channels
   getChannel(id: string): Promise<Channel | undefined>;
   createChannel(channel: InsertChannel): Promise<Channel>;
   getServerChannels(serverId: string): Promise<Channel[]>;
+  updateChannel(id: string, updates: ChannelUpdate): Promise<Channel | undefined>;
+  getChannelOverwrites(channelId: string): Promise<ChannelOverwrite[]>;
+  getServerChannelOverwrites(serverId: string): Promise<ChannelOverwrite[]>;
+  setChannelOverwrite(channelId: string, overwrite: OverwriteValues): Promise<ChannelOverwrite>;
+  deleteChannelOverwrite(channelId: string, targetType: string, targetId: string): Promise<void>;
 
   // Messages
   getMessage(id: string): Promise<Message | undefined>;
+  getMessageByNonce(authorId: string, nonce: string): Promise<Message | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
-  getChannelMessages(channelId: string, limit?: number): Promise<MessageWithAuthor[]>;
+  getChannelMessages(channelId: string, page?: MessagePage): Promise<MessageWithAuthor[]>;
+  updateMessage(id: string, content: string): Promise<Message | undefined>;
+  deleteMessage(id: string): Promise<Message | undefined>;
+  getPinnedMessages(channelId: string): Promise<MessageWithAuthor[]>;
+  pinMessage(id: string, userId: string): Promise<Message | undefined>;
+  unpinMessage(id: string): Promise<Message | undefined>;
+
+  // Threads
+  getThread(id: string): Promise<Thread | undefined>;
+  getThreadByRootMessage(messageId: string): Promise<Thread | undefined>;
+  createThread(thread: InsertThread): Promise<Thread>;
+  getThreadMessages(threadId: string, page?: MessagePage): Promise<MessageWithAuthor[]>;
+  getThreadMembers(threadId: string): Promise<User[]>;
+
+  // Reactions
+  getMessageReactions(messageId: string): Promise<ReactionSummary[]>;
+  addReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+  removeReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+
+  // Search
+  searchMessages(search: MessageSearch): Promise<MessageSearchHit[]>;
 
   // Direct Messages
+  getDirectMessage(id: string): Promise<DirectMessage | undefined>;
   createDirectMessage(message: InsertDirectMessage): Promise<DirectMessage>;
   getDirectMessages(userId1: string, userId2: string, limit?: number): Promise<DirectMessageWithUsers[]>;
   getUserDirectMessages(userId: string): Promise<DirectMessageWithUsers[]>;
 
+  // Group Conversations
+  getGroup(id: string): Promise<GroupConversation | undefined>;
+  createGroup(ownerId: string, name: string | null, memberIds: string[]): Promise<GroupConversation>;
+  getUserGroups(userId: string): Promise<GroupConversation[]>;
+  updateGroup(id: string, updates: GroupUpdate): Promise<GroupConversation | undefined>;
+  getGroupMembers(groupId: string): Promise<User[]>;
+  getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined>;
+  addGroupMember(groupId: string, userId: string): Promise<void>;
+  removeGroupMember(groupId: string, userId: string): Promise<void>;
+  getGroupMessage(id: string): Promise<GroupMessage | undefined>;
+  createGroupMessage(message: InsertGroupMessage): Promise<GroupMessage>;
+  getGroupMessages(groupId: string, page?: MessagePage): Promise<GroupMessageWithUsers[]>;
+
   // Friends
   getFriends(userId: string): Promise<User[]>;
-  addFriend(userId1: string, userId2: string): Promise<void>;
+  getFriendship(userId1: string, userId2: string): Promise<Friendship | undefined>;
+  getFriendRequests(userId: string): Promise<(Friendship & { user: User })[]>;
+  getBlockedUsers(userId: string): Promise<User[]>;
+  getBlockers(userId: string): Promise<User[]>;
+  addFriend(userId1: string, userId2: string): Promise<Friendship>;
   acceptFriend(userId1: string, userId2: string): Promise<void>;
+  removeFriendship(id: string): Promise<void>;
+  isBlocked(blockerId: string, userId: string): Promise<boolean>;
+  blockUser(blockerId: string, userId: string): Promise<void>;
+  unblockUser(blockerId: string, userId: string): Promise<void>;
+
+  // Keys
+  getUserKeys(userId: string): Promise<UserKey[]>;
+  setUserKey(userId: string, purpose: KeyPurpose, publicKey: string): Promise<UserKey>;
+  getDeviceKeys(userId: string): Promise<DeviceKey[]>;
+  addDeviceKey(userId: string, publicKey: string): Promise<DeviceKey>;
+  deleteDeviceKey(id: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -61,8 +252,21 @@ export class MemStorage implements IStorage {
   private channels: Map<string, Channel>;
   private messages: Map<string, Message>;
   private directMessages: Map<string, DirectMessage>;
+  private groups: Map<string, GroupConversation>;
+  private groupMembers: Map<string, GroupMember>;
+  private groupMessages: Map<string, GroupMessage>;
   private serverMembers: Map<string, ServerMember>;
+  private roles: Map<string, Role>;
+  private memberRoles: Map<string, MemberRole>;
+  private serverBans: Map<string, ServerBan>;
+  private channelOverwrites: Map<string, ChannelOverwrite>;
+  private threads: Map<string, Thread>;
+  private threadMembers: Map<string, ThreadMember>;
+  private reactions: Map<string, Reaction>;
   private friendships: Map<string, Friendship>;
+  private userKeys: Map<string, UserKey>;
+  private deviceKeys: Map<string, DeviceKey>;
+  private searchIndex: Map<string, Set<string>>; // word -> IDs of messages and direct messages containing it
 
   constructor() {
     this.users = new Map();
@@ -70,8 +274,21 @@ export class MemStorage implements IStorage {
     this.channels = new Map();
     this.messages = new Map();
     this.directMessages = new Map();
+    this.groups = new Map();
+    this.groupMembers = new Map();
+    this.groupMessages = new Map();
     this.serverMembers = new Map();
+    this.roles = new Map();
+    this.memberRoles = new Map();
+    this.serverBans = new Map();
+    this.channelOverwrites = new Map();
+    this.threads = new Map();
+    this.threadMembers = new Map();
+    this.reactions = new Map();
     this.friendships = new Map();
+    this.userKeys = new Map();
+    this.deviceKeys = new Map();
+    this.searchIndex = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -92,17 +309,37 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       avatar: insertUser.avatar ?? null,
-      status: insertUser.status ?? "online",
+      status: "offline",
+      preferredStatus: "online",
+      lastSeenAt: null,
       createdAt: new Date()
     };
     this.users.set(id, user);
     return user;
   }
 
-  async updateUserStatus(id: string, status: string): Promise<void> {
+  async updateUserPresence(id: string, update: PresenceUpdate): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      this.users.set(id, { ...user, ...update });
+    }
+  }
+
+  // Nobody is connected when the server starts; users it last saw online left at some point
+  // before now, which is as close as their last-seen time can get
+  async resetPresence(): Promise<void> {
+    const now = new Date();
+    this.users.forEach((user, id) => {
+      if (user.status !== "offline") {
+        this.users.set(id, { ...user, status: "offline", lastSeenAt: now });
+      }
+    });
+  }
+
+  async updateUserPassword(id: string, password: string): Promise<void> {
     const user = this.users.get(id);
     if (user) {
-      user.status = status;
+      user.password = password;
       this.users.set(id, user);
     }
   }
@@ -116,13 +353,7 @@ export class MemStorage implements IStorage {
     if (!server) return undefined;
 
     const channels = Array.from(this.channels.values()).filter(c => c.serverId === id);
-    const serverMemberEntries = Array.from(this.serverMembers.values()).filter(sm => sm.serverId === id);
-    const members = await Promise.all(
-      serverMemberEntries.map(async (sm) => {
-        const user = await this.getUser(sm.userId);
-        return { ...sm, user: user! };
-      })
-    );
+    const members = await this.getServerMembers(id);
 
     return { ...server, channels, members };
   }
@@ -172,25 +403,26 @@ export class MemStorage implements IStorage {
   }
 
   async getUserServers(userId: string): Promise<Server[]> {
-    console.log(`[Storage] Getting servers for userId: ${userId}`);
-    const allMemberships = Array.from(this.serverMembers.values());
-    console.log(`[Storage] Total memberships in storage: ${allMemberships.length}`, allMemberships.map(m => ({ id: m.id, userId: m.userId, serverId: m.serverId, role: m.role })));
-    
-    const userMemberships = allMemberships.filter(sm => sm.userId === userId);
-    console.log(`[Storage] User memberships found: ${userMemberships.length}`, userMemberships.map(m => ({ id: m.id, serverId: m.serverId, role: m.role })));
-    
+    const userMemberships = Array.from(this.serverMembers.values()).filter(sm => sm.userId === userId);
     const servers = await Promise.all(
       userMemberships.map(sm => this.getServer(sm.serverId))
     );
-    const filteredServers = servers.filter(Boolean) as Server[];
-    console.log(`[Storage] Returning ${filteredServers.length} servers:`, filteredServers.map(s => ({ id: s.id, name: s.name, ownerId: s.ownerId })));
-    return filteredServers;
+    return servers.filter(Boolean) as Server[];
   }
 
   async getServerByInviteCode(inviteCode: string): Promise<Server | undefined> {
     return Array.from(this.servers.values()).find(server => server.inviteCode === inviteCode);
   }
 
+  async updateServer(id: string, updates: ServerUpdate): Promise<Server | undefined> {
+    const server = this.servers.get(id);
+    if (!server) return undefined;
+
+    const updated = { ...server, ...updates };
+    this.servers.set(id, updated);
+    return updated;
+  }
+
   async joinServer(userId: string, serverId: string): Promise<void> {
     const membershipId = randomUUID();
     const membership: ServerMember = {
@@ -203,17 +435,140 @@ export class MemStorage implements IStorage {
     this.serverMembers.set(membershipId, membership);
   }
 
-  async getServerMembers(serverId: string): Promise<(ServerMember & { user: User })[]> {
+  async getServerMembers(serverId: string): Promise<ServerMemberWithUser[]> {
     const serverMemberEntries = Array.from(this.serverMembers.values()).filter(sm => sm.serverId === serverId);
+    const assignments = Array.from(this.memberRoles.values()).filter(mr => mr.serverId === serverId);
     const members = await Promise.all(
       serverMemberEntries.map(async (sm) => {
         const user = await this.getUser(sm.userId);
-        return { ...sm, user: user! };
+        const roleIds = assignments.filter(mr => mr.userId === sm.userId).map(mr => mr.roleId);
+        return { ...sm, user: user!, roleIds };
       })
     );
     return members;
   }
 
+  async getServerMember(serverId: string, userId: string): Promise<ServerMember | undefined> {
+    return Array.from(this.serverMembers.values()).find(sm => sm.serverId === serverId && sm.userId === userId);
+  }
+
+  async updateMemberRole(serverId: string, userId: string, role: string): Promise<void> {
+    const member = await this.getServerMember(serverId, userId);
+    if (member) {
+      member.role = role;
+      this.serverMembers.set(member.id, member);
+    }
+  }
+
+  async removeServerMember(serverId: string, userId: string): Promise<void> {
+    const member = await this.getServerMember(serverId, userId);
+    if (member) {
+      this.serverMembers.delete(member.id);
+    }
+    Array.from(this.memberRoles.values())
+      .filter(mr => mr.serverId === serverId && mr.userId === userId)
+      .forEach(mr => this.memberRoles.delete(mr.id));
+  }
+
+  async getServerRoles(serverId: string): Promise<Role[]> {
+    return Array.from(this.roles.values())
+      .filter(r => r.serverId === serverId)
+      .sort((a, b) => b.position - a.position);
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    return this.roles.get(id);
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const id = randomUUID();
+    const role: Role = {
+      ...insertRole,
+      id,
+      color: insertRole.color ?? null,
+      permissions: insertRole.permissions ?? 0,
+      position: insertRole.position ?? 0,
+      createdAt: new Date()
+    };
+    this.roles.set(id, role);
+    return role;
+  }
+
+  async updateRole(id: string, updates: RoleUpdate): Promise<Role | undefined> {
+    const role = this.roles.get(id);
+    if (!role) return undefined;
+
+    const updated = { ...role, ...updates };
+    this.roles.set(id, updated);
+    return updated;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    this.roles.delete(id);
+    Array.from(this.memberRoles.values())
+      .filter(mr => mr.roleId === id)
+      .forEach(mr => this.memberRoles.delete(mr.id));
+  }
+
+  async getMemberRoles(serverId: string, userId: string): Promise<Role[]> {
+    return Array.from(this.memberRoles.values())
+      .filter(mr => mr.serverId === serverId && mr.userId === userId)
+      .map(mr => this.roles.get(mr.roleId))
+      .filter(Boolean) as Role[];
+  }
+
+  async assignRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    const existing = Array.from(this.memberRoles.values())
+      .find(mr => mr.serverId === serverId && mr.userId === userId && mr.roleId === roleId);
+    if (existing) return;
+
+    const id = randomUUID();
+    this.memberRoles.set(id, { id, serverId, userId, roleId });
+  }
+
+  async unassignRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    Array.from(this.memberRoles.values())
+      .filter(mr => mr.serverId === serverId && mr.userId === userId && mr.roleId === roleId)
+      .forEach(mr => this.memberRoles.delete(mr.id));
+  }
+
+  async getServerBans(serverId: string): Promise<(ServerBan & { user: User })[]> {
+    const bans = Array.from(this.serverBans.values()).filter(b => b.serverId === serverId);
+    return Promise.all(
+      bans.map(async (ban) => {
+        const user = await this.getUser(ban.userId);
+        return { ...ban, user: user! };
+      })
+    );
+  }
+
+  async getServerBan(serverId: string, userId: string): Promise<ServerBan | undefined> {
+    return Array.from(this.serverBans.values()).find(b => b.serverId === serverId && b.userId === userId);
+  }
+
+  async banUser(serverId: string, userId: string, bannedBy: string, reason?: string): Promise<ServerBan> {
+    await this.removeServerMember(serverId, userId);
+
+    const id = randomUUID();
+    const ban: ServerBan = {
+      id,
+      serverId,
+      userId,
+      bannedBy,
+      reason: reason ?? null,
+      createdAt: new Date()
+    };
+    this.serverBans.set(id, ban);
+    return ban;
+  }
+
+  async unbanUser(serverId: string, userId: string): Promise<void> {
+    const ban = await this.getServerBan(serverId, userId);
+    if (ban) {
+      this.serverBans.delete(ban.id);
+    }
+  }
+
   async getChannel(id: string): Promise<Channel | undefined> {
     return this.channels.get(id);
   }
@@ -225,6 +580,7 @@ export class MemStorage implements IStorage {
       id, 
       description: insertChannel.description ?? null,
       position: insertChannel.position ?? 0,
+      isPrivate: insertChannel.isPrivate ?? false,
       createdAt: new Date()
     };
     this.channels.set(id, channel);
@@ -235,10 +591,47 @@ export class MemStorage implements IStorage {
     return Array.from(this.channels.values()).filter(c => c.serverId === serverId);
   }
 
+  async updateChannel(id: string, updates: ChannelUpdate): Promise<Channel | undefined> {
+    const channel = this.channels.get(id);
+    if (!channel) return undefined;
+
+    const updated = { ...channel, ...updates };
+    this.channels.set(id, updated);
+    return updated;
+  }
+
+  async getChannelOverwrites(channelId: string): Promise<ChannelOverwrite[]> {
+    return Array.from(this.channelOverwrites.values()).filter(o => o.channelId === channelId);
+  }
+
+  async getServerChannelOverwrites(serverId: string): Promise<ChannelOverwrite[]> {
+    return Array.from(this.channelOverwrites.values())
+      .filter(o => this.channels.get(o.channelId)?.serverId === serverId);
+  }
+
+  async setChannelOverwrite(channelId: string, values: OverwriteValues): Promise<ChannelOverwrite> {
+    const existing = Array.from(this.channelOverwrites.values())
+      .find(o => o.channelId === channelId && o.targetType === values.targetType && o.targetId === values.targetId);
+
+    const overwrite: ChannelOverwrite = { id: existing?.id ?? randomUUID(), channelId, ...values };
+    this.channelOverwrites.set(overwrite.id, overwrite);
+    return overwrite;
+  }
+
+  async deleteChannelOverwrite(channelId: string, targetType: string, targetId: string): Promise<void> {
+    Array.from(this.channelOverwrites.values())
+      .filter(o => o.channelId === channelId && o.targetType === targetType && o.targetId === targetId)
+      .forEach(o => this.channelOverwrites.delete(o.id));
+  }
+
   async getMessage(id: string): Promise<Message | undefined> {
     return this.messages.get(id);
   }
 
+  async getMessageByNonce(authorId: string, nonce: string): Promise<Message | undefined> {
+    return Array.from(this.messages.values()).find(m => m.authorId === authorId && m.nonce === nonce);
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = randomUUID();
     const message: Message = { 
@@ -246,26 +639,248 @@ export class MemStorage implements IStorage {
       id, 
       type: insertMessage.type ?? "text",
       attachments: insertMessage.attachments ?? null,
-      createdAt: new Date()
+      createdAt: new Date(),
+      editedAt: null,
+      deletedAt: null,
+      replyToId: insertMessage.replyToId ?? null,
+      threadId: insertMessage.threadId ?? null,
+      pinnedAt: null,
+      pinnedById: null,
+      nonce: insertMessage.nonce ?? null
     };
     this.messages.set(id, message);
+    this.indexContent(id, message.content);
+
+    const thread = message.threadId ? this.threads.get(message.threadId) : undefined;
+    if (thread) {
+      this.threads.set(thread.id, {
+        ...thread,
+        messageCount: thread.messageCount + 1,
+        lastMessageAt: message.createdAt
+      });
+      this.addThreadMember(thread.id, message.authorId);
+    }
     return message;
   }
 
-  async getChannelMessages(channelId: string, limit = 50): Promise<MessageWithAuthor[]> {
-    const messages = Array.from(this.messages.values())
-      .filter(m => m.channelId === channelId)
-      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
-      .slice(-limit);
+  async updateMessage(id: string, content: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
 
-    const messagesWithAuthors = await Promise.all(
-      messages.map(async (message) => {
-        const author = await this.getUser(message.authorId);
-        return { ...message, author: author! };
-      })
-    );
+    const updated = { ...message, content, editedAt: new Date() };
+    this.messages.set(id, updated);
+    this.unindexContent(id, message.content);
+    this.indexContent(id, content);
+    return updated;
+  }
+
+  async deleteMessage(id: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const tombstone = { ...message, content: "", attachments: null, deletedAt: new Date(), pinnedAt: null, pinnedById: null };
+    this.messages.set(id, tombstone);
+    this.unindexContent(id, message.content);
+    Array.from(this.reactions.values())
+      .filter(r => r.messageId === id)
+      .forEach(r => this.reactions.delete(r.id));
+    return tombstone;
+  }
+
+  async getPinnedMessages(channelId: string): Promise<MessageWithAuthor[]> {
+    const pinned = Array.from(this.messages.values())
+      .filter(m => m.channelId === channelId && m.pinnedAt)
+      .sort((a, b) => b.pinnedAt!.getTime() - a.pinnedAt!.getTime());
+    return this.hydrateMessages(pinned);
+  }
+
+  async pinMessage(id: string, userId: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const updated = { ...message, pinnedAt: new Date(), pinnedById: userId };
+    this.messages.set(id, updated);
+    return updated;
+  }
+
+  async unpinMessage(id: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const updated = { ...message, pinnedAt: null, pinnedById: null };
+    this.messages.set(id, updated);
+    return updated;
+  }
+
+  async getChannelMessages(channelId: string, page = LATEST_PAGE): Promise<MessageWithAuthor[]> {
+    const history = Array.from(this.messages.values())
+      .filter(m => m.channelId === channelId && !m.threadId)
+      .sort(compareMessages);
+    return this.pageMessages(history, page);
+  }
+
+  async getThreadMessages(threadId: string, page = LATEST_PAGE): Promise<MessageWithAuthor[]> {
+    const history = Array.from(this.messages.values())
+      .filter(m => m.threadId === threadId)
+      .sort(compareMessages);
+    return this.pageMessages(history, page);
+  }
+
+  private async pageMessages(history: Message[], page: MessagePage): Promise<MessageWithAuthor[]> {
+    return this.hydrateMessages(sliceHistory(history, page));
+  }
+
+  private async hydrateMessages(messages: Message[]): Promise<MessageWithAuthor[]> {
+    return Promise.all(messages.map(async (message) => {
+      const author = await this.getUser(message.authorId);
+      const replyTarget = message.replyToId ? this.messages.get(message.replyToId) : undefined;
+      const replyTo = replyTarget ? {
+        id: replyTarget.id,
+        content: replyTarget.content,
+        authorId: replyTarget.authorId,
+        deletedAt: replyTarget.deletedAt,
+        author: (await this.getUser(replyTarget.authorId))!
+      } : null;
+      return {
+        ...message,
+        author: author!,
+        replyTo,
+        thread: await this.getThreadByRootMessage(message.id) ?? null,
+        reactions: await this.getMessageReactions(message.id)
+      };
+    }));
+  }
+
+  async getThread(id: string): Promise<Thread | undefined> {
+    return this.threads.get(id);
+  }
+
+  async getThreadByRootMessage(messageId: string): Promise<Thread | undefined> {
+    return Array.from(this.threads.values()).find(t => t.rootMessageId === messageId);
+  }
+
+  async createThread(insertThread: InsertThread): Promise<Thread> {
+    const id = randomUUID();
+    const thread: Thread = {
+      ...insertThread,
+      id,
+      messageCount: 0,
+      lastMessageAt: null,
+      createdAt: new Date()
+    };
+    this.threads.set(id, thread);
+    this.addThreadMember(id, thread.creatorId);
+    return thread;
+  }
+
+  async getThreadMembers(threadId: string): Promise<User[]> {
+    return Array.from(this.threadMembers.values())
+      .filter(m => m.threadId === threadId)
+      .map(m => this.users.get(m.userId))
+      .filter((user): user is User => !!user);
+  }
+
+  async getMessageReactions(messageId: string): Promise<ReactionSummary[]> {
+    return summarizeReactions(Array.from(this.reactions.values()).filter(r => r.messageId === messageId));
+  }
+
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    const existing = Array.from(this.reactions.values())
+      .find(r => r.messageId === messageId && r.userId === userId && r.emoji === emoji);
+    if (existing) return;
+
+    const id = randomUUID();
+    this.reactions.set(id, { id, messageId, userId, emoji, createdAt: new Date() });
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    Array.from(this.reactions.values())
+      .filter(r => r.messageId === messageId && r.userId === userId && r.emoji === emoji)
+      .forEach(r => this.reactions.delete(r.id));
+  }
+
+  private addThreadMember(threadId: string, userId: string) {
+    const existing = Array.from(this.threadMembers.values())
+      .find(m => m.threadId === threadId && m.userId === userId);
+    if (existing) return;
+
+    const id = randomUUID();
+    this.threadMembers.set(id, { id, threadId, userId, joinedAt: new Date() });
+  }
+
+  private indexContent(id: string, content: string) {
+    for (const word of Array.from(new Set(tokenize(content)))) {
+      const ids = this.searchIndex.get(word) ?? new Set<string>();
+      ids.add(id);
+      this.searchIndex.set(word, ids);
+    }
+  }
 
-    return messagesWithAuthors;
+  private unindexContent(id: string, content: string) {
+    for (const word of Array.from(new Set(tokenize(content)))) {
+      const ids = this.searchIndex.get(word);
+      ids?.delete(id);
+      if (ids?.size === 0) this.searchIndex.delete(word);
+    }
+  }
+
+  async searchMessages(search: MessageSearch): Promise<MessageSearchHit[]> {
+    // Every term must match; start from the rarest word and narrow down
+    const postings = search.terms
+      .map(term => this.searchIndex.get(term) ?? new Set<string>())
+      .sort((a, b) => a.size - b.size);
+    const candidates = postings.length === 0
+      ? [...Array.from(this.messages.keys()), ...Array.from(this.directMessages.keys())]
+      : Array.from(postings[0]).filter(id => postings.every(ids => ids.has(id)));
+
+    const channelIds = new Set(search.channelIds);
+    const mentions = search.mentions ? mentionPattern(search.mentions) : undefined;
+    const matches = (authorId: string, content: string, attachments: unknown, createdAt: Date) =>
+      (!search.authorId || authorId === search.authorId) &&
+      (!mentions || mentions.test(content)) &&
+      (!search.hasFile || attachments != null) &&
+      (!search.before || createdAt < search.before) &&
+      (!search.after || createdAt >= search.after);
+
+    const found: (Message | DirectMessage)[] = [];
+    for (const id of candidates) {
+      const message = this.messages.get(id);
+      if (message) {
+        if (channelIds.has(message.channelId) && !message.deletedAt && message.type !== "pin" &&
+            matches(message.authorId, message.content, message.attachments, message.createdAt!)) {
+          found.push(message);
+        }
+        continue;
+      }
+
+      const directMessage = this.directMessages.get(id);
+      const userId = search.directMessageUserId;
+      if (!directMessage || !userId) continue;
+      const peerId = directMessage.senderId === userId ? directMessage.recipientId : directMessage.senderId;
+      if (!directMessage.encryption &&
+          (directMessage.senderId === userId || directMessage.recipientId === userId) &&
+          (!search.directMessagePeerId || peerId === search.directMessagePeerId) &&
+          matches(directMessage.senderId, directMessage.content, directMessage.attachments, directMessage.createdAt!)) {
+        found.push(directMessage);
+      }
+    }
+
+    const page = found
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .slice(search.offset, search.offset + search.limit);
+    return Promise.all(page.map(async (message): Promise<MessageSearchHit> => {
+      if ("channelId" in message) {
+        const [hydrated] = await this.hydrateMessages([message]);
+        return { type: "message", message: hydrated };
+      }
+      const sender = await this.getUser(message.senderId);
+      const recipient = await this.getUser(message.recipientId);
+      return { type: "direct-message", message: { ...message, sender: sender!, recipient: recipient! } };
+    }));
+  }
+
+  async getDirectMessage(id: string): Promise<DirectMessage | undefined> {
+    return this.directMessages.get(id);
   }
 
   async createDirectMessage(insertMessage: InsertDirectMessage): Promise<DirectMessage> {
@@ -275,9 +890,12 @@ export class MemStorage implements IStorage {
       id, 
       type: insertMessage.type ?? "text",
       attachments: insertMessage.attachments ?? null,
+      encryption: insertMessage.encryption ?? null,
       createdAt: new Date()
     };
     this.directMessages.set(id, message);
+    // Ciphertext is not searchable
+    if (!message.encryption) this.indexContent(id, message.content);
     return message;
   }
 
@@ -317,6 +935,104 @@ export class MemStorage implements IStorage {
     return messagesWithUsers;
   }
 
+  async getGroup(id: string): Promise<GroupConversation | undefined> {
+    return this.groups.get(id);
+  }
+
+  async createGroup(ownerId: string, name: string | null, memberIds: string[]): Promise<GroupConversation> {
+    const group: GroupConversation = {
+      id: randomUUID(),
+      name,
+      icon: null,
+      ownerId,
+      lastMessageAt: null,
+      createdAt: new Date()
+    };
+    this.groups.set(group.id, group);
+    for (const userId of [ownerId, ...memberIds]) {
+      await this.addGroupMember(group.id, userId);
+    }
+    return group;
+  }
+
+  // Most recently active first
+  async getUserGroups(userId: string): Promise<GroupConversation[]> {
+    const groupIds = new Set(Array.from(this.groupMembers.values())
+      .filter(m => m.userId === userId)
+      .map(m => m.groupId));
+    const activity = (group: GroupConversation) => (group.lastMessageAt ?? group.createdAt!).getTime();
+    return Array.from(this.groups.values())
+      .filter(g => groupIds.has(g.id))
+      .sort((a, b) => activity(b) - activity(a));
+  }
+
+  async updateGroup(id: string, updates: GroupUpdate): Promise<GroupConversation | undefined> {
+    const group = this.groups.get(id);
+    if (!group) return undefined;
+
+    const updated = { ...group, ...updates };
+    this.groups.set(id, updated);
+    return updated;
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    const members = Array.from(this.groupMembers.values())
+      .filter(m => m.groupId === groupId)
+      .sort((a, b) => a.joinedAt!.getTime() - b.joinedAt!.getTime());
+    const users = await Promise.all(members.map(m => this.getUser(m.userId)));
+    return users.filter(Boolean) as User[];
+  }
+
+  async getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined> {
+    return Array.from(this.groupMembers.values()).find(m => m.groupId === groupId && m.userId === userId);
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<void> {
+    if (await this.getGroupMember(groupId, userId)) return;
+
+    const member: GroupMember = { id: randomUUID(), groupId, userId, joinedAt: new Date() };
+    this.groupMembers.set(member.id, member);
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<void> {
+    const member = await this.getGroupMember(groupId, userId);
+    if (member) {
+      this.groupMembers.delete(member.id);
+    }
+  }
+
+  async getGroupMessage(id: string): Promise<GroupMessage | undefined> {
+    return this.groupMessages.get(id);
+  }
+
+  async createGroupMessage(insertMessage: InsertGroupMessage): Promise<GroupMessage> {
+    const message: GroupMessage = {
+      ...insertMessage,
+      id: randomUUID(),
+      type: insertMessage.type ?? "text",
+      targetUserId: insertMessage.targetUserId ?? null,
+      attachments: insertMessage.attachments ?? null,
+      createdAt: new Date()
+    };
+    this.groupMessages.set(message.id, message);
+    const group = this.groups.get(message.groupId);
+    if (group) {
+      this.groups.set(group.id, { ...group, lastMessageAt: message.createdAt });
+    }
+    return message;
+  }
+
+  async getGroupMessages(groupId: string, page = LATEST_PAGE): Promise<GroupMessageWithUsers[]> {
+    const history = Array.from(this.groupMessages.values())
+      .filter(m => m.groupId === groupId)
+      .sort(compareMessages);
+    return Promise.all(sliceHistory(history, page).map(async (message) => ({
+      ...message,
+      author: (await this.getUser(message.authorId))!,
+      target: message.targetUserId ? (await this.getUser(message.targetUserId)) ?? null : null
+    })));
+  }
+
   async getFriends(userId: string): Promise<User[]> {
     const friendships = Array.from(this.friendships.values())
       .filter(f => 
@@ -334,7 +1050,44 @@ export class MemStorage implements IStorage {
     return friends.filter(Boolean) as User[];
   }
 
-  async addFriend(userId1: string, userId2: string): Promise<void> {
+  // The relationship between two users, whichever of them started it
+  async getFriendship(userId1: string, userId2: string): Promise<Friendship | undefined> {
+    return Array.from(this.friendships.values()).find(f =>
+      (f.userId1 === userId1 && f.userId2 === userId2) ||
+      (f.userId1 === userId2 && f.userId2 === userId1)
+    );
+  }
+
+  // Pending requests sent or received by the user, oldest first, each with the other user
+  async getFriendRequests(userId: string): Promise<(Friendship & { user: User })[]> {
+    const pending = Array.from(this.friendships.values())
+      .filter(f => (f.userId1 === userId || f.userId2 === userId) && f.status === "pending")
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+
+    const requests = await Promise.all(pending.map(async (friendship) => {
+      const user = await this.getUser(friendship.userId1 === userId ? friendship.userId2 : friendship.userId1);
+      return user && { ...friendship, user };
+    }));
+    return requests.filter(Boolean) as (Friendship & { user: User })[];
+  }
+
+  // Users this user has blocked; blocks are recorded by the blocker as userId1
+  async getBlockedUsers(userId: string): Promise<User[]> {
+    const blocked = await Promise.all(Array.from(this.friendships.values())
+      .filter(f => f.userId1 === userId && f.status === "blocked")
+      .map(f => this.getUser(f.userId2)));
+    return blocked.filter(Boolean) as User[];
+  }
+
+  // Users who have blocked this user
+  async getBlockers(userId: string): Promise<User[]> {
+    const blockers = await Promise.all(Array.from(this.friendships.values())
+      .filter(f => f.userId2 === userId && f.status === "blocked")
+      .map(f => this.getUser(f.userId1)));
+    return blockers.filter(Boolean) as User[];
+  }
+
+  async addFriend(userId1: string, userId2: string): Promise<Friendship> {
     const id = randomUUID();
     const friendship: Friendship = {
       id,
@@ -344,6 +1097,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date()
     };
     this.friendships.set(id, friendship);
+    return friendship;
   }
 
   async acceptFriend(userId1: string, userId2: string): Promise<void> {
@@ -359,6 +1113,984 @@ export class MemStorage implements IStorage {
       this.friendships.set(friendship.id, friendship);
     }
   }
+
+  async removeFriendship(id: string): Promise<void> {
+    this.friendships.delete(id);
+  }
+
+  async isBlocked(blockerId: string, userId: string): Promise<boolean> {
+    return Array.from(this.friendships.values()).some(f =>
+      f.userId1 === blockerId && f.userId2 === userId && f.status === "blocked"
+    );
+  }
+
+  // A block replaces any friendship or pending request between the two; a block the
+  // other user placed stays, since each side's block is its own row
+  async blockUser(blockerId: string, userId: string): Promise<void> {
+    const between = Array.from(this.friendships.values()).filter(f =>
+      (f.userId1 === blockerId && f.userId2 === userId) ||
+      (f.userId1 === userId && f.userId2 === blockerId)
+    );
+    between.filter(f => f.status !== "blocked").forEach(f => this.friendships.delete(f.id));
+    if (between.some(f => f.userId1 === blockerId && f.status === "blocked")) return;
+
+    const id = randomUUID();
+    this.friendships.set(id, { id, userId1: blockerId, userId2: userId, status: "blocked", createdAt: new Date() });
+  }
+
+  async unblockUser(blockerId: string, userId: string): Promise<void> {
+    Array.from(this.friendships.values())
+      .filter(f => f.userId1 === blockerId && f.userId2 === userId && f.status === "blocked")
+      .forEach(f => this.friendships.delete(f.id));
+  }
+
+  async getUserKeys(userId: string): Promise<UserKey[]> {
+    return Array.from(this.userKeys.values()).filter(key => key.userId === userId);
+  }
+
+  // Replaces the user's key for `purpose`, keeping the row if the key is unchanged
+  async setUserKey(userId: string, purpose: KeyPurpose, publicKey: string): Promise<UserKey> {
+    const existing = Array.from(this.userKeys.values())
+      .find(key => key.userId === userId && key.purpose === purpose);
+    if (existing?.publicKey === publicKey) return existing;
+
+    const key: UserKey = {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      purpose,
+      publicKey,
+      createdAt: new Date()
+    };
+    this.userKeys.set(key.id, key);
+    return key;
+  }
+
+  async getDeviceKeys(userId: string): Promise<DeviceKey[]> {
+    return Array.from(this.deviceKeys.values())
+      .filter(device => device.userId === userId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async addDeviceKey(userId: string, publicKey: string): Promise<DeviceKey> {
+    const device: DeviceKey = { id: randomUUID(), userId, publicKey, createdAt: new Date() };
+    this.deviceKeys.set(device.id, device);
+    return device;
+  }
+
+  async deleteDeviceKey(id: string): Promise<void> {
+    this.deviceKeys.delete(id);
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserPresence(id: string, update: PresenceUpdate): Promise<void> {
+    await this.db.update(users).set(update).where(eq(users.id, id));
+  }
+
+  async resetPresence(): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ status: "offline", lastSeenAt: new Date() })
+      .where(ne(users.status, "offline"));
+  }
+
+  async updateUserPassword(id: string, password: string): Promise<void> {
+    await this.db.update(users).set({ password }).where(eq(users.id, id));
+  }
+
+  async getServer(id: string): Promise<Server | undefined> {
+    const [server] = await this.db.select().from(servers).where(eq(servers.id, id));
+    return server;
+  }
+
+  async getServerWithChannels(id: string): Promise<ServerWithChannels | undefined> {
+    const server = await this.getServer(id);
+    if (!server) return undefined;
+
+    const serverChannels = await this.getServerChannels(id);
+    const members = await this.getServerMembers(id);
+
+    return { ...server, channels: serverChannels, members };
+  }
+
+  async createServer(insertServer: InsertServer): Promise<Server> {
+    const inviteCode = randomUUID().substring(0, 8);
+
+    return this.db.transaction(async (tx) => {
+      const [server] = await tx.insert(servers).values({ ...insertServer, inviteCode }).returning();
+
+      // Add owner as member
+      await tx.insert(serverMembers).values({
+        userId: insertServer.ownerId,
+        serverId: server.id,
+        role: "owner"
+      });
+
+      // Create default channels
+      await tx.insert(channels).values([
+        { name: "general", type: "text", serverId: server.id, position: 0 },
+        { name: "General Voice", type: "voice", serverId: server.id, position: 1 }
+      ]);
+
+      return server;
+    });
+  }
+
+  async getUserServers(userId: string): Promise<Server[]> {
+    const rows = await this.db
+      .select({ server: servers })
+      .from(serverMembers)
+      .innerJoin(servers, eq(serverMembers.serverId, servers.id))
+      .where(eq(serverMembers.userId, userId));
+    return rows.map(row => row.server);
+  }
+
+  async getServerByInviteCode(inviteCode: string): Promise<Server | undefined> {
+    const [server] = await this.db.select().from(servers).where(eq(servers.inviteCode, inviteCode));
+    return server;
+  }
+
+  async updateServer(id: string, updates: ServerUpdate): Promise<Server | undefined> {
+    const [server] = await this.db.update(servers).set(updates).where(eq(servers.id, id)).returning();
+    return server;
+  }
+
+  async joinServer(userId: string, serverId: string): Promise<void> {
+    await this.db.insert(serverMembers).values({ userId, serverId, role: "member" });
+  }
+
+  async getServerMembers(serverId: string): Promise<ServerMemberWithUser[]> {
+    const rows = await this.db
+      .select({ member: serverMembers, user: users })
+      .from(serverMembers)
+      .innerJoin(users, eq(serverMembers.userId, users.id))
+      .where(eq(serverMembers.serverId, serverId));
+    const assignments = await this.db.select().from(memberRoles).where(eq(memberRoles.serverId, serverId));
+
+    return rows.map(row => ({
+      ...row.member,
+      user: row.user,
+      roleIds: assignments.filter(mr => mr.userId === row.member.userId).map(mr => mr.roleId)
+    }));
+  }
+
+  async getServerMember(serverId: string, userId: string): Promise<ServerMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(serverMembers)
+      .where(and(eq(serverMembers.serverId, serverId), eq(serverMembers.userId, userId)));
+    return member;
+  }
+
+  async updateMemberRole(serverId: string, userId: string, role: string): Promise<void> {
+    await this.db
+      .update(serverMembers)
+      .set({ role })
+      .where(and(eq(serverMembers.serverId, serverId), eq(serverMembers.userId, userId)));
+  }
+
+  async removeServerMember(serverId: string, userId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(memberRoles)
+        .where(and(eq(memberRoles.serverId, serverId), eq(memberRoles.userId, userId)));
+      await tx
+        .delete(serverMembers)
+        .where(and(eq(serverMembers.serverId, serverId), eq(serverMembers.userId, userId)));
+    });
+  }
+
+  async getServerRoles(serverId: string): Promise<Role[]> {
+    return this.db
+      .select()
+      .from(roles)
+      .where(eq(roles.serverId, serverId))
+      .orderBy(desc(roles.position));
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    const [role] = await this.db.select().from(roles).where(eq(roles.id, id));
+    return role;
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const [role] = await this.db.insert(roles).values(insertRole).returning();
+    return role;
+  }
+
+  async updateRole(id: string, updates: RoleUpdate): Promise<Role | undefined> {
+    const [role] = await this.db.update(roles).set(updates).where(eq(roles.id, id)).returning();
+    return role;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(memberRoles).where(eq(memberRoles.roleId, id));
+      await tx.delete(roles).where(eq(roles.id, id));
+    });
+  }
+
+  async getMemberRoles(serverId: string, userId: string): Promise<Role[]> {
+    const assignments = await this.db
+      .select({ roleId: memberRoles.roleId })
+      .from(memberRoles)
+      .where(and(eq(memberRoles.serverId, serverId), eq(memberRoles.userId, userId)));
+    if (assignments.length === 0) return [];
+
+    return this.db.select().from(roles).where(inArray(roles.id, assignments.map(a => a.roleId)));
+  }
+
+  async assignRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    const [existing] = await this.db
+      .select()
+      .from(memberRoles)
+      .where(and(eq(memberRoles.serverId, serverId), eq(memberRoles.userId, userId), eq(memberRoles.roleId, roleId)));
+    if (existing) return;
+
+    await this.db.insert(memberRoles).values({ serverId, userId, roleId });
+  }
+
+  async unassignRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    await this.db
+      .delete(memberRoles)
+      .where(and(eq(memberRoles.serverId, serverId), eq(memberRoles.userId, userId), eq(memberRoles.roleId, roleId)));
+  }
+
+  async getServerBans(serverId: string): Promise<(ServerBan & { user: User })[]> {
+    const rows = await this.db
+      .select({ ban: serverBans, user: users })
+      .from(serverBans)
+      .innerJoin(users, eq(serverBans.userId, users.id))
+      .where(eq(serverBans.serverId, serverId));
+    return rows.map(row => ({ ...row.ban, user: row.user }));
+  }
+
+  async getServerBan(serverId: string, userId: string): Promise<ServerBan | undefined> {
+    const [ban] = await this.db
+      .select()
+      .from(serverBans)
+      .where(and(eq(serverBans.serverId, serverId), eq(serverBans.userId, userId)));
+    return ban;
+  }
+
+  async banUser(serverId: string, userId: string, bannedBy: string, reason?: string): Promise<ServerBan> {
+    await this.removeServerMember(serverId, userId);
+    const [ban] = await this.db
+      .insert(serverBans)
+      .values({ serverId, userId, bannedBy, reason: reason ?? null })
+      .returning();
+    return ban;
+  }
+
+  async unbanUser(serverId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(serverBans)
+      .where(and(eq(serverBans.serverId, serverId), eq(serverBans.userId, userId)));
+  }
+
+  async getChannel(id: string): Promise<Channel | undefined> {
+    const [channel] = await this.db.select().from(channels).where(eq(channels.id, id));
+    return channel;
+  }
+
+  async createChannel(insertChannel: InsertChannel): Promise<Channel> {
+    const [channel] = await this.db.insert(channels).values(insertChannel).returning();
+    return channel;
+  }
+
+  async getServerChannels(serverId: string): Promise<Channel[]> {
+    return this.db
+      .select()
+      .from(channels)
+      .where(eq(channels.serverId, serverId))
+      .orderBy(asc(channels.position), asc(channels.createdAt));
+  }
+
+  async updateChannel(id: string, updates: ChannelUpdate): Promise<Channel | undefined> {
+    const [channel] = await this.db.update(channels).set(updates).where(eq(channels.id, id)).returning();
+    return channel;
+  }
+
+  async getChannelOverwrites(channelId: string): Promise<ChannelOverwrite[]> {
+    return this.db.select().from(channelOverwrites).where(eq(channelOverwrites.channelId, channelId));
+  }
+
+  async getServerChannelOverwrites(serverId: string): Promise<ChannelOverwrite[]> {
+    const rows = await this.db
+      .select({ overwrite: channelOverwrites })
+      .from(channelOverwrites)
+      .innerJoin(channels, eq(channelOverwrites.channelId, channels.id))
+      .where(eq(channels.serverId, serverId));
+    return rows.map(row => row.overwrite);
+  }
+
+  async setChannelOverwrite(channelId: string, values: OverwriteValues): Promise<ChannelOverwrite> {
+    const target = and(
+      eq(channelOverwrites.channelId, channelId),
+      eq(channelOverwrites.targetType, values.targetType),
+      eq(channelOverwrites.targetId, values.targetId)
+    );
+    const [existing] = await this.db.select().from(channelOverwrites).where(target);
+    if (existing) {
+      const [updated] = await this.db
+        .update(channelOverwrites)
+        .set({ allow: values.allow, deny: values.deny })
+        .where(eq(channelOverwrites.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [overwrite] = await this.db.insert(channelOverwrites).values({ channelId, ...values }).returning();
+    return overwrite;
+  }
+
+  async deleteChannelOverwrite(channelId: string, targetType: string, targetId: string): Promise<void> {
+    await this.db
+      .delete(channelOverwrites)
+      .where(and(
+        eq(channelOverwrites.channelId, channelId),
+        eq(channelOverwrites.targetType, targetType),
+        eq(channelOverwrites.targetId, targetId)
+      ));
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessageByNonce(authorId: string, nonce: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.authorId, authorId), eq(messages.nonce, nonce)));
+    return message;
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    if (!insertMessage.threadId) {
+      const [message] = await this.db.insert(messages).values(insertMessage).returning();
+      return message;
+    }
+
+    const threadId = insertMessage.threadId;
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.insert(messages).values(insertMessage).returning();
+      await tx
+        .update(threads)
+        .set({ messageCount: sql`${threads.messageCount} + 1`, lastMessageAt: message.createdAt })
+        .where(eq(threads.id, threadId));
+
+      const [member] = await tx
+        .select()
+        .from(threadMembers)
+        .where(and(eq(threadMembers.threadId, threadId), eq(threadMembers.userId, message.authorId)));
+      if (!member) {
+        await tx.insert(threadMembers).values({ threadId, userId: message.authorId });
+      }
+      return message;
+    });
+  }
+
+  async getPinnedMessages(channelId: string): Promise<MessageWithAuthor[]> {
+    const rows = await this.db
+      .select({ message: messages, author: users })
+      .from(messages)
+      .innerJoin(users, eq(messages.authorId, users.id))
+      .where(and(eq(messages.channelId, channelId), isNotNull(messages.pinnedAt)))
+      .orderBy(desc(messages.pinnedAt));
+    return this.withReferences(rows.map(row => ({ ...row.message, author: row.author })));
+  }
+
+  async pinMessage(id: string, userId: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ pinnedAt: new Date(), pinnedById: userId })
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  async unpinMessage(id: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ pinnedAt: null, pinnedById: null })
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  async getChannelMessages(channelId: string, page = LATEST_PAGE): Promise<MessageWithAuthor[]> {
+    return this.pageMessages(
+      and(eq(messages.channelId, channelId), isNull(messages.threadId))!,
+      m => m.channelId === channelId && !m.threadId,
+      page
+    );
+  }
+
+  async getThreadMessages(threadId: string, page = LATEST_PAGE): Promise<MessageWithAuthor[]> {
+    return this.pageMessages(eq(messages.threadId, threadId), m => m.threadId === threadId, page);
+  }
+
+  // Pages through the messages matching `scope`; `inScope` checks the cursor against the same scope
+  private async pageMessages(scope: SQL, inScope: (message: Message) => boolean, page: MessagePage): Promise<MessageWithAuthor[]> {
+    const cursorId = page.before ?? page.after ?? page.around;
+    const cursor = cursorId ? await this.getMessage(cursorId) : undefined;
+    if (cursorId && (!cursor || !inScope(cursor))) return [];
+
+    const select = () => this.db
+      .select({ message: messages, author: users })
+      .from(messages)
+      .innerJoin(users, eq(messages.authorId, users.id));
+
+    const older = async (limit: number) => {
+      const rows = await select()
+        .where(cursor ? and(scope, pastCursor(messages, messages.createdAt, messages.id, cursor.id, "older")) : scope)
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(limit);
+      return rows.reverse();
+    };
+    const newer = (limit: number) => select()
+      .where(and(scope, pastCursor(messages, messages.createdAt, messages.id, cursor!.id, "newer")))
+      .orderBy(asc(messages.createdAt), asc(messages.id))
+      .limit(limit);
+
+    let rows;
+    if (page.after) {
+      rows = await newer(page.limit);
+    } else if (page.around) {
+      const olderCount = Math.floor(page.limit / 2);
+      const [before, anchor, after] = await Promise.all([
+        older(olderCount),
+        select().where(eq(messages.id, cursor!.id)),
+        newer(page.limit - olderCount - 1),
+      ]);
+      rows = [...before, ...anchor, ...after];
+    } else {
+      rows = await older(page.limit);
+    }
+
+    return this.withReferences(rows.map(row => ({ ...row.message, author: row.author })));
+  }
+
+  // Attaches reply previews and spawned threads to a page of messages
+  private async withReferences(page: (Message & { author: User })[]): Promise<MessageWithAuthor[]> {
+    const replyIds = Array.from(new Set(page.map(m => m.replyToId).filter((id): id is string => !!id)));
+    const replyRows = replyIds.length === 0 ? [] : await this.db
+      .select({ message: messages, author: users })
+      .from(messages)
+      .innerJoin(users, eq(messages.authorId, users.id))
+      .where(inArray(messages.id, replyIds));
+    const threadRows = page.length === 0 ? [] : await this.db
+      .select()
+      .from(threads)
+      .where(inArray(threads.rootMessageId, page.map(m => m.id)));
+    const reactionRows = page.length === 0 ? [] : await this.db
+      .select()
+      .from(reactions)
+      .where(inArray(reactions.messageId, page.map(m => m.id)));
+
+    return page.map(message => {
+      const reply = replyRows.find(row => row.message.id === message.replyToId);
+      return {
+        ...message,
+        replyTo: reply ? {
+          id: reply.message.id,
+          content: reply.message.content,
+          authorId: reply.message.authorId,
+          deletedAt: reply.message.deletedAt,
+          author: reply.author
+        } : null,
+        thread: threadRows.find(thread => thread.rootMessageId === message.id) ?? null,
+        reactions: summarizeReactions(reactionRows.filter(r => r.messageId === message.id))
+      };
+    });
+  }
+
+  async getThread(id: string): Promise<Thread | undefined> {
+    const [thread] = await this.db.select().from(threads).where(eq(threads.id, id));
+    return thread;
+  }
+
+  async getThreadByRootMessage(messageId: string): Promise<Thread | undefined> {
+    const [thread] = await this.db.select().from(threads).where(eq(threads.rootMessageId, messageId));
+    return thread;
+  }
+
+  async createThread(insertThread: InsertThread): Promise<Thread> {
+    return this.db.transaction(async (tx) => {
+      const [thread] = await tx.insert(threads).values(insertThread).returning();
+      await tx.insert(threadMembers).values({ threadId: thread.id, userId: thread.creatorId });
+      return thread;
+    });
+  }
+
+  async getMessageReactions(messageId: string): Promise<ReactionSummary[]> {
+    const rows = await this.db.select().from(reactions).where(eq(reactions.messageId, messageId));
+    return summarizeReactions(rows);
+  }
+
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await this.db.insert(reactions).values({ messageId, userId, emoji }).onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await this.db
+      .delete(reactions)
+      .where(and(eq(reactions.messageId, messageId), eq(reactions.userId, userId), eq(reactions.emoji, emoji)));
+  }
+
+  async getThreadMembers(threadId: string): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(threadMembers)
+      .innerJoin(users, eq(threadMembers.userId, users.id))
+      .where(eq(threadMembers.threadId, threadId))
+      .orderBy(asc(threadMembers.joinedAt));
+    return rows.map(row => row.user);
+  }
+
+  async updateMessage(id: string, content: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .update(messages)
+      .set({ content, editedAt: new Date() })
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  async deleteMessage(id: string): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx
+        .update(messages)
+        .set({ content: "", attachments: null, deletedAt: new Date(), pinnedAt: null, pinnedById: null })
+        .where(eq(messages.id, id))
+        .returning();
+      await tx.delete(reactions).where(eq(reactions.messageId, id));
+      return message;
+    });
+  }
+
+  async searchMessages(search: MessageSearch): Promise<MessageSearchHit[]> {
+    // Each source is cut to the requested window before the two are merged
+    const window = search.offset + search.limit;
+    const mentions = search.mentions ? mentionPattern(search.mentions) : undefined;
+    const filters = (columns: { content: AnyColumn; authorId: AnyColumn; attachments: AnyColumn; createdAt: AnyColumn }) => [
+      search.terms.length > 0
+        ? sql`to_tsvector('simple', ${columns.content}) @@ plainto_tsquery('simple', ${search.terms.join(" ")})`
+        : undefined,
+      search.authorId ? eq(columns.authorId, search.authorId) : undefined,
+      mentions ? sql`${columns.content} ~* ${mentions.source}` : undefined,
+      search.hasFile ? isNotNull(columns.attachments) : undefined,
+      search.before ? lt(columns.createdAt, search.before) : undefined,
+      search.after ? gte(columns.createdAt, search.after) : undefined,
+    ];
+
+    const channelRows = search.channelIds.length === 0 ? [] : await this.db
+      .select({ message: messages, author: users })
+      .from(messages)
+      .innerJoin(users, eq(messages.authorId, users.id))
+      .where(and(
+        inArray(messages.channelId, search.channelIds),
+        isNull(messages.deletedAt),
+        ne(messages.type, "pin"),
+        ...filters({
+          content: messages.content,
+          authorId: messages.authorId,
+          attachments: messages.attachments,
+          createdAt: messages.createdAt
+        })
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(window);
+
+    const userId = search.directMessageUserId;
+    const peerId = search.directMessagePeerId;
+    const directRows = !userId ? [] : await this.db
+      .select()
+      .from(directMessages)
+      .where(and(
+        peerId
+          ? or(
+              and(eq(directMessages.senderId, userId), eq(directMessages.recipientId, peerId)),
+              and(eq(directMessages.senderId, peerId), eq(directMessages.recipientId, userId))
+            )
+          : or(eq(directMessages.senderId, userId), eq(directMessages.recipientId, userId)),
+        isNull(directMessages.encryption),
+        ...filters({
+          content: directMessages.content,
+          authorId: directMessages.senderId,
+          attachments: directMessages.attachments,
+          createdAt: directMessages.createdAt
+        })
+      ))
+      .orderBy(desc(directMessages.createdAt))
+      .limit(window);
+
+    const channelHits = await this.withReferences(channelRows.map(row => ({ ...row.message, author: row.author })));
+    const directHits = await this.withDirectMessageUsers(directRows);
+    return [
+      ...channelHits.map((message): MessageSearchHit => ({ type: "message", message })),
+      ...directHits.map((message): MessageSearchHit => ({ type: "direct-message", message })),
+    ]
+      .sort((a, b) => b.message.createdAt!.getTime() - a.message.createdAt!.getTime())
+      .slice(search.offset, window);
+  }
+
+  async getDirectMessage(id: string): Promise<DirectMessage | undefined> {
+    const [message] = await this.db.select().from(directMessages).where(eq(directMessages.id, id));
+    return message;
+  }
+
+  async createDirectMessage(insertMessage: InsertDirectMessage): Promise<DirectMessage> {
+    const [message] = await this.db.insert(directMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async getDirectMessages(userId1: string, userId2: string, limit = 50): Promise<DirectMessageWithUsers[]> {
+    const rows = await this.db
+      .select()
+      .from(directMessages)
+      .where(or(
+        and(eq(directMessages.senderId, userId1), eq(directMessages.recipientId, userId2)),
+        and(eq(directMessages.senderId, userId2), eq(directMessages.recipientId, userId1))
+      ))
+      .orderBy(desc(directMessages.createdAt))
+      .limit(limit);
+
+    return this.withDirectMessageUsers(rows.reverse());
+  }
+
+  async getUserDirectMessages(userId: string): Promise<DirectMessageWithUsers[]> {
+    const rows = await this.db
+      .select()
+      .from(directMessages)
+      .where(or(eq(directMessages.senderId, userId), eq(directMessages.recipientId, userId)))
+      .orderBy(desc(directMessages.createdAt));
+
+    return this.withDirectMessageUsers(rows);
+  }
+
+  private async withDirectMessageUsers(rows: DirectMessage[]): Promise<DirectMessageWithUsers[]> {
+    const userCache = new Map<string, User | undefined>();
+    const lookup = async (id: string) => {
+      if (!userCache.has(id)) {
+        userCache.set(id, await this.getUser(id));
+      }
+      return userCache.get(id)!;
+    };
+
+    const messagesWithUsers: DirectMessageWithUsers[] = [];
+    for (const message of rows) {
+      messagesWithUsers.push({
+        ...message,
+        sender: await lookup(message.senderId),
+        recipient: await lookup(message.recipientId)
+      });
+    }
+    return messagesWithUsers;
+  }
+
+  async getGroup(id: string): Promise<GroupConversation | undefined> {
+    const [group] = await this.db.select().from(groupConversations).where(eq(groupConversations.id, id));
+    return group;
+  }
+
+  async createGroup(ownerId: string, name: string | null, memberIds: string[]): Promise<GroupConversation> {
+    return this.db.transaction(async (tx) => {
+      const [group] = await tx.insert(groupConversations).values({ ownerId, name }).returning();
+      const userIds = Array.from(new Set([ownerId, ...memberIds]));
+      await tx.insert(groupMembers).values(userIds.map(userId => ({ groupId: group.id, userId })));
+      return group;
+    });
+  }
+
+  // Most recently active first
+  async getUserGroups(userId: string): Promise<GroupConversation[]> {
+    const rows = await this.db
+      .select({ group: groupConversations })
+      .from(groupMembers)
+      .innerJoin(groupConversations, eq(groupMembers.groupId, groupConversations.id))
+      .where(eq(groupMembers.userId, userId))
+      .orderBy(desc(sql`coalesce(${groupConversations.lastMessageAt}, ${groupConversations.createdAt})`));
+    return rows.map(row => row.group);
+  }
+
+  async updateGroup(id: string, updates: GroupUpdate): Promise<GroupConversation | undefined> {
+    const [group] = await this.db
+      .update(groupConversations)
+      .set(updates)
+      .where(eq(groupConversations.id, id))
+      .returning();
+    return group;
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(groupMembers)
+      .innerJoin(users, eq(groupMembers.userId, users.id))
+      .where(eq(groupMembers.groupId, groupId))
+      .orderBy(asc(groupMembers.joinedAt), asc(groupMembers.id));
+    return rows.map(row => row.user);
+  }
+
+  async getGroupMember(groupId: string, userId: string): Promise<GroupMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+    return member;
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.db.insert(groupMembers).values({ groupId, userId }).onConflictDoNothing();
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+  }
+
+  async getGroupMessage(id: string): Promise<GroupMessage | undefined> {
+    const [message] = await this.db.select().from(groupMessages).where(eq(groupMessages.id, id));
+    return message;
+  }
+
+  async createGroupMessage(insertMessage: InsertGroupMessage): Promise<GroupMessage> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.insert(groupMessages).values(insertMessage).returning();
+      await tx
+        .update(groupConversations)
+        .set({ lastMessageAt: message.createdAt })
+        .where(eq(groupConversations.id, message.groupId));
+      return message;
+    });
+  }
+
+  async getGroupMessages(groupId: string, page = LATEST_PAGE): Promise<GroupMessageWithUsers[]> {
+    const scope = eq(groupMessages.groupId, groupId);
+    const cursorId = page.before ?? page.after ?? page.around;
+    const cursor = cursorId ? await this.getGroupMessage(cursorId) : undefined;
+    if (cursorId && cursor?.groupId !== groupId) return [];
+
+    const select = () => this.db.select().from(groupMessages);
+    const older = async (limit: number) => {
+      const rows = await select()
+        .where(cursor ? and(scope, pastCursor(groupMessages, groupMessages.createdAt, groupMessages.id, cursor.id, "older")) : scope)
+        .orderBy(desc(groupMessages.createdAt), desc(groupMessages.id))
+        .limit(limit);
+      return rows.reverse();
+    };
+    const newer = (limit: number) => select()
+      .where(and(scope, pastCursor(groupMessages, groupMessages.createdAt, groupMessages.id, cursor!.id, "newer")))
+      .orderBy(asc(groupMessages.createdAt), asc(groupMessages.id))
+      .limit(limit);
+
+    let rows: GroupMessage[];
+    if (page.after) {
+      rows = await newer(page.limit);
+    } else if (page.around) {
+      const olderCount = Math.floor(page.limit / 2);
+      const [before, after] = await Promise.all([older(olderCount), newer(page.limit - olderCount - 1)]);
+      rows = [...before, cursor!, ...after];
+    } else {
+      rows = await older(page.limit);
+    }
+
+    const userIds = Array.from(new Set(rows.flatMap(m => m.targetUserId ? [m.authorId, m.targetUserId] : [m.authorId])));
+    const people = userIds.length === 0 ? [] : await this.db.select().from(users).where(inArray(users.id, userIds));
+    return rows.map(message => ({
+      ...message,
+      author: people.find(u => u.id === message.authorId)!,
+      target: people.find(u => u.id === message.targetUserId) ?? null
+    }));
+  }
+
+  async getFriends(userId: string): Promise<User[]> {
+    const rows = await this.db
+      .select()
+      .from(friendships)
+      .where(and(
+        or(eq(friendships.userId1, userId), eq(friendships.userId2, userId)),
+        eq(friendships.status, "accepted")
+      ));
+
+    const friends = await Promise.all(
+      rows.map(friendship => {
+        const friendId = friendship.userId1 === userId ? friendship.userId2 : friendship.userId1;
+        return this.getUser(friendId);
+      })
+    );
+
+    return friends.filter(Boolean) as User[];
+  }
+
+  async getFriendship(userId1: string, userId2: string): Promise<Friendship | undefined> {
+    const [friendship] = await this.db
+      .select()
+      .from(friendships)
+      .where(or(
+        and(eq(friendships.userId1, userId1), eq(friendships.userId2, userId2)),
+        and(eq(friendships.userId1, userId2), eq(friendships.userId2, userId1))
+      ));
+    return friendship;
+  }
+
+  async getFriendRequests(userId: string): Promise<(Friendship & { user: User })[]> {
+    const rows = await this.db
+      .select({ friendship: friendships, user: users })
+      .from(friendships)
+      .innerJoin(users, sql`${users.id} = case when ${friendships.userId1} = ${userId} then ${friendships.userId2} else ${friendships.userId1} end`)
+      .where(and(
+        or(eq(friendships.userId1, userId), eq(friendships.userId2, userId)),
+        eq(friendships.status, "pending")
+      ))
+      .orderBy(asc(friendships.createdAt));
+    return rows.map(row => ({ ...row.friendship, user: row.user }));
+  }
+
+  async getBlockedUsers(userId: string): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(friendships)
+      .innerJoin(users, eq(friendships.userId2, users.id))
+      .where(and(eq(friendships.userId1, userId), eq(friendships.status, "blocked")));
+    return rows.map(row => row.user);
+  }
+
+  async getBlockers(userId: string): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users })
+      .from(friendships)
+      .innerJoin(users, eq(friendships.userId1, users.id))
+      .where(and(eq(friendships.userId2, userId), eq(friendships.status, "blocked")));
+    return rows.map(row => row.user);
+  }
+
+  async addFriend(userId1: string, userId2: string): Promise<Friendship> {
+    const [friendship] = await this.db.insert(friendships).values({ userId1, userId2, status: "pending" }).returning();
+    return friendship;
+  }
+
+  async acceptFriend(userId1: string, userId2: string): Promise<void> {
+    await this.db
+      .update(friendships)
+      .set({ status: "accepted" })
+      .where(and(
+        or(
+          and(eq(friendships.userId1, userId1), eq(friendships.userId2, userId2)),
+          and(eq(friendships.userId1, userId2), eq(friendships.userId2, userId1))
+        ),
+        eq(friendships.status, "pending")
+      ));
+  }
+
+  async removeFriendship(id: string): Promise<void> {
+    await this.db.delete(friendships).where(eq(friendships.id, id));
+  }
+
+  async isBlocked(blockerId: string, userId: string): Promise<boolean> {
+    const [block] = await this.db
+      .select({ id: friendships.id })
+      .from(friendships)
+      .where(and(eq(friendships.userId1, blockerId), eq(friendships.userId2, userId), eq(friendships.status, "blocked")));
+    return !!block;
+  }
+
+  async blockUser(blockerId: string, userId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(friendships).where(and(
+        or(
+          and(eq(friendships.userId1, blockerId), eq(friendships.userId2, userId)),
+          and(eq(friendships.userId1, userId), eq(friendships.userId2, blockerId))
+        ),
+        ne(friendships.status, "blocked")
+      ));
+      const [existing] = await tx
+        .select({ id: friendships.id })
+        .from(friendships)
+        .where(and(eq(friendships.userId1, blockerId), eq(friendships.userId2, userId), eq(friendships.status, "blocked")));
+      if (!existing) {
+        await tx.insert(friendships).values({ userId1: blockerId, userId2: userId, status: "blocked" });
+      }
+    });
+  }
+
+  async unblockUser(blockerId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(friendships)
+      .where(and(eq(friendships.userId1, blockerId), eq(friendships.userId2, userId), eq(friendships.status, "blocked")));
+  }
+
+  async getUserKeys(userId: string): Promise<UserKey[]> {
+    return this.db.select().from(userKeys).where(eq(userKeys.userId, userId));
+  }
+
+  async setUserKey(userId: string, purpose: KeyPurpose, publicKey: string): Promise<UserKey> {
+    const [existing] = await this.db
+      .select()
+      .from(userKeys)
+      .where(and(eq(userKeys.userId, userId), eq(userKeys.purpose, purpose)));
+    if (existing?.publicKey === publicKey) return existing;
+
+    const [key] = await this.db
+      .insert(userKeys)
+      .values({ userId, purpose, publicKey })
+      .onConflictDoUpdate({
+        target: [userKeys.userId, userKeys.purpose],
+        set: { publicKey, createdAt: new Date() },
+      })
+      .returning();
+    return key;
+  }
+
+  async getDeviceKeys(userId: string): Promise<DeviceKey[]> {
+    return this.db
+      .select()
+      .from(deviceKeys)
+      .where(eq(deviceKeys.userId, userId))
+      .orderBy(asc(deviceKeys.createdAt));
+  }
+
+  async addDeviceKey(userId: string, publicKey: string): Promise<DeviceKey> {
+    const [device] = await this.db.insert(deviceKeys).values({ userId, publicKey }).returning();
+    return device;
+  }
+
+  async deleteDeviceKey(id: string): Promise<void> {
+    await this.db.delete(deviceKeys).where(eq(deviceKeys.id, id));
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned; otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  P2P_PROTOCOL_VERSION,
+  SYNC_BATCH_SIZE,
+  createP2PEnvelope,
+  parseP2PEnvelope,
+  signingInput,
+  toRelayedMessage,
+} from "./p2p";
+
+const message = {
+  id: "m1",
+  channelId: "c1",
+  authorId: "u1",
+  content: "hello",
+  type: "text",
+  attachments: null,
+  createdAt: new Date("2024-05-01T12:00:00Z"),
+  editedAt: null,
+  deletedAt: null,
+  replyToId: null,
+  threadId: null,
+  pinnedAt: null,
+  pinnedById: null,
+  nonce: null,
+};
+
+// What a peer receives: the envelope as it crossed the data channel
+function wire(envelope: object): string {
+  return JSON.stringify(envelope);
+}
+
+describe("parseP2PEnvelope", () => {
+  it("accepts a well-formed envelope and returns the bytes its signature covers", () => {
+    const envelope = createP2PEnvelope("file.accept", { transferId: crypto.randomUUID(), fromChunk: 0 }, "u1");
+    const frame = parseP2PEnvelope(wire(envelope));
+    expect(frame?.envelope).toEqual(envelope);
+    expect(frame?.signed).toEqual(signingInput(envelope));
+  });
+
+  it("drops frames that are not JSON envelopes", () => {
+    expect(parseP2PEnvelope("not json")).toBeUndefined();
+    expect(parseP2PEnvelope("null")).toBeUndefined();
+    expect(parseP2PEnvelope(wire({ kind: "file.reject" }))).toBeUndefined();
+  });
+
+  it("drops other protocol versions and unknown kinds", () => {
+    const envelope = createP2PEnvelope("file.reject", { transferId: crypto.randomUUID() }, "u1");
+    expect(parseP2PEnvelope(wire({ ...envelope, v: P2P_PROTOCOL_VERSION - 1 }))).toBeUndefined();
+    expect(parseP2PEnvelope(wire({ ...envelope, kind: "chat.typing" }))).toBeUndefined();
+    expect(parseP2PEnvelope(wire({ ...envelope, kind: "toString" }))).toBeUndefined();
+  });
+
+  it("drops payloads that do not match their kind", () => {
+    const envelope = createP2PEnvelope("file.accept", { transferId: crypto.randomUUID(), fromChunk: 0 }, "u1");
+    expect(parseP2PEnvelope(wire({ ...envelope, payload: { transferId: "nope", fromChunk: 0 } }))).toBeUndefined();
+    expect(parseP2PEnvelope(wire({ ...envelope, payload: { ...envelope.payload, fromChunk: -1 } }))).toBeUndefined();
+  });
+
+  it("signs the payload as it arrived, not as it was parsed", () => {
+    const envelope = createP2PEnvelope("chat.message", toRelayedMessage(message), "u1", "c1");
+    const raw = JSON.parse(wire(envelope));
+    const frame = parseP2PEnvelope(wire(raw));
+    expect(frame?.signed).toEqual(signingInput(raw));
+    expect(frame?.envelope.payload).toEqual(toRelayedMessage(message));
+  });
+
+  it("drops relayed messages carrying fields a peer may not set", () => {
+    const envelope = JSON.parse(wire(createP2PEnvelope("chat.message", toRelayedMessage(message), "u1", "c1")));
+    envelope.payload.author = { id: "u2", username: "someone-else" };
+    expect(parseP2PEnvelope(wire(envelope))).toBeUndefined();
+  });
+
+  it("caps sync batches", () => {
+    const messages = Array.from({ length: SYNC_BATCH_SIZE + 1 }, (_, i) => toRelayedMessage({ ...message, id: `m${i}` }));
+    const envelope = createP2PEnvelope("sync.messages", { messages }, "u1", "c1");
+    expect(parseP2PEnvelope(wire(envelope))).toBeUndefined();
+  });
+});
+
+describe("toRelayedMessage", () => {
+  it("keeps only the message's own fields", () => {
+    const relayed = toRelayedMessage({ ...message, author: { username: "alice" }, reactions: [], unverified: true });
+    expect(relayed).toEqual(message);
+  });
+});
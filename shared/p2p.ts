@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { attachmentSchema } from "./schema";
+
+// Every JSON frame sent over a peer data channel is wrapped in a versioned envelope.
+// Frames with a different version, an unknown kind or a payload that does not match
+// its kind are dropped by the receiver. Envelopes are signed with the sender's Ed25519
+// key, published through /api/users/:id/keys.
+export const P2P_PROTOCOL_VERSION = 3;
+
+// Peers reconcile the last week of a channel's history in hour-long buckets
+export const SYNC_BUCKET_MS = 60 * 60 * 1000;
+export const SYNC_WINDOW_MS = 7 * 24 * SYNC_BUCKET_MS;
+// Messages per sync frame, keeping frames well under the data channel's message size limit
+export const SYNC_BATCH_SIZE = 10;
+
+const relayedDateSchema = z.string().datetime().transform(value => new Date(value));
+
+// A channel message as peers pass it around; messages still waiting for the server
+// to confirm them carry their nonce as their ID. Only the message's own fields travel:
+// the receiver looks up the author and the quoted reply itself rather than trusting a peer.
+const relayedMessageSchema = z.object({
+  id: z.string(),
+  channelId: z.string(),
+  authorId: z.string(),
+  content: z.string(),
+  type: z.string(),
+  attachments: z.array(attachmentSchema).nullish(),
+  createdAt: relayedDateSchema,
+  editedAt: relayedDateSchema.nullish(),
+  deletedAt: relayedDateSchema.nullish(),
+  replyToId: z.string().nullish(),
+  threadId: z.string().nullish(),
+  pinnedAt: relayedDateSchema.nullish(),
+  pinnedById: z.string().nullish(),
+  nonce: z.string().nullish(),
+}).strict();
+
+const transferIdSchema = z.string().uuid();
+const bucketStartSchema = z.number().int().min(0);
+
+export const p2pPayloadSchemas = {
+  "chat.message": relayedMessageSchema,
+  "sync.summary": z.object({
+    buckets: z.array(z.object({
+      start: bucketStartSchema,
+      count: z.number().int().min(0),
+      hash: z.string().regex(/^[0-9a-f]{64}$/),
+    })).max(SYNC_WINDOW_MS / SYNC_BUCKET_MS + 1),
+  }),
+  "sync.request": z.object({ starts: z.array(bucketStartSchema).max(SYNC_WINDOW_MS / SYNC_BUCKET_MS + 1) }),
+  "sync.messages": z.object({ messages: z.array(relayedMessageSchema).max(SYNC_BATCH_SIZE) }),
+  "file.offer": z.object({
+    transferId: transferIdSchema,
+    name: z.string().min(1).max(255),
+    size: z.number().int().min(0),
+    contentType: z.string().max(255),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  }),
+  "file.accept": z.object({ transferId: transferIdSchema, fromChunk: z.number().int().min(0) }),
+  "file.resume": z.object({ transferId: transferIdSchema, fromChunk: z.number().int().min(0) }),
+  "file.reject": z.object({ transferId: transferIdSchema }),
+  "file.cancel": z.object({ transferId: transferIdSchema }),
+  "file.verified": z.object({ transferId: transferIdSchema, ok: z.boolean() }),
+};
+
+export type RelayedMessage = z.infer<typeof relayedMessageSchema>;
+export type P2PKind = keyof typeof p2pPayloadSchemas;
+export type P2PPayload<K extends P2PKind> = z.infer<(typeof p2pPayloadSchemas)[K]>;
+
+export interface P2PEnvelope<K extends P2PKind = P2PKind> {
+  v: typeof P2P_PROTOCOL_VERSION;
+  kind: K;
+  id: string;
+  from: string; // sending user's ID
+  channelId: string | null; // text channel the frame belongs to; null for peer-level frames
+  timestamp: number;
+  payload: P2PPayload<K>;
+  sig: string | null; // base64 signature over signingInput(); null when the sender cannot sign
+}
+
+// A validated frame, with the bytes its signature covers
+export interface ParsedP2PFrame {
+  envelope: P2PEnvelope;
+  signed: Uint8Array;
+}
+
+const envelopeSchema = z.object({
+  v: z.literal(P2P_PROTOCOL_VERSION),
+  kind: z.string(),
+  id: z.string().uuid(),
+  from: z.string(),
+  channelId: z.string().nullable(),
+  timestamp: z.number().int(),
+  payload: z.unknown(),
+  sig: z.string().max(128).nullable(),
+});
+
+function isP2PKind(kind: string): kind is P2PKind {
+  return Object.prototype.hasOwnProperty.call(p2pPayloadSchemas, kind);
+}
+
+// Creates an unsigned envelope; the sender fills in `sig` if it can sign
+export function createP2PEnvelope<K extends P2PKind>(
+  kind: K,
+  payload: P2PPayload<K>,
+  from: string,
+  channelId: string | null = null
+): P2PEnvelope<K> {
+  return {
+    v: P2P_PROTOCOL_VERSION,
+    kind,
+    id: crypto.randomUUID(),
+    from,
+    channelId,
+    timestamp: Date.now(),
+    payload,
+    sig: null,
+  };
+}
+
+// Everything but the signature, in a fixed order. The receiver computes this from the
+// payload as it arrived, before validation can drop or reorder any of its fields.
+export function signingInput(envelope: z.infer<typeof envelopeSchema>): Uint8Array {
+  const { v, kind, id, from, channelId, timestamp, payload } = envelope;
+  return new TextEncoder().encode(JSON.stringify([v, kind, id, from, channelId, timestamp, payload]));
+}
+
+// Keeps only the fields peers accept, dropping the author, reactions and other details
+// the receiver fills in for itself
+export function toRelayedMessage(message: { id: string; channelId: string; authorId: string; content: string }): RelayedMessage {
+  return relayedMessageSchema.strip().parse(JSON.parse(JSON.stringify(message)));
+}
+
+// Validates a raw text frame; returns undefined for anything malformed
+export function parseP2PEnvelope(data: string): ParsedP2PFrame | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    return undefined;
+  }
+
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success || !isP2PKind(envelope.data.kind)) return undefined;
+
+  const payload = p2pPayloadSchemas[envelope.data.kind].safeParse(envelope.data.payload);
+  if (!payload.success) return undefined;
+
+  return {
+    envelope: { ...envelope.data, kind: envelope.data.kind, payload: payload.data } as P2PEnvelope,
+    signed: signingInput(envelope.data),
+  };
+}
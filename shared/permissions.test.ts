@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_PERMISSIONS,
+  BUILTIN_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  builtinRoleRank,
+  computeChannelPermissions,
+  computeServerPermissions,
+  fromPermissionBits,
+  hasPermissionBit,
+  toPermissionBits,
+  type OverwriteBits,
+} from "./permissions";
+
+describe("permission bits", () => {
+  it("round-trips permission names through bits", () => {
+    const bits = toPermissionBits(["sendMessages", "kickMembers"]);
+    expect(bits).toBe(PERMISSIONS.sendMessages | PERMISSIONS.kickMembers);
+    expect(fromPermissionBits(bits)).toEqual(["kickMembers", "sendMessages"]);
+    expect(hasPermissionBit(bits, "kickMembers")).toBe(true);
+    expect(hasPermissionBit(bits, "banMembers")).toBe(false);
+  });
+
+  it("ranks built-in roles from owner down, with unknown roles lowest", () => {
+    expect(builtinRoleRank("owner")).toBeGreaterThan(builtinRoleRank("admin"));
+    expect(builtinRoleRank("admin")).toBeGreaterThan(builtinRoleRank("moderator"));
+    expect(builtinRoleRank("moderator")).toBeGreaterThan(builtinRoleRank("member"));
+    expect(builtinRoleRank("member")).toBeGreaterThan(builtinRoleRank("guest"));
+  });
+});
+
+describe("computeServerPermissions", () => {
+  it("gives owners everything", () => {
+    expect(computeServerPermissions("owner", [])).toBe(ALL_PERMISSIONS);
+  });
+
+  it("adds custom role bits to the built-in role", () => {
+    const bits = computeServerPermissions("member", [PERMISSIONS.manageChannels]);
+    expect(bits).toBe(BUILTIN_ROLE_PERMISSIONS.member | PERMISSIONS.manageChannels);
+  });
+
+  it("treats unknown built-in roles as members", () => {
+    expect(computeServerPermissions("guest", [])).toBe(BUILTIN_ROLE_PERMISSIONS.member);
+  });
+
+  it("expands administrator from any role into every permission", () => {
+    expect(computeServerPermissions("member", [PERMISSIONS.administrator])).toBe(ALL_PERMISSIONS);
+  });
+});
+
+describe("computeChannelPermissions", () => {
+  const member = { userId: "u1", roleIds: ["r1"] };
+  const memberBits = BUILTIN_ROLE_PERMISSIONS.member;
+  const overwrite = (targetType: string, targetId: string, allow: number, deny: number): OverwriteBits =>
+    ({ targetType, targetId, allow, deny });
+
+  it("passes server permissions through when nothing overrides them", () => {
+    expect(computeChannelPermissions(memberBits, { isPrivate: false }, [], member)).toBe(memberBits);
+  });
+
+  it("hides private channels unless an overwrite lets the member in", () => {
+    expect(computeChannelPermissions(memberBits, { isPrivate: true }, [], member)).toBe(0);
+
+    const bits = computeChannelPermissions(memberBits, { isPrivate: true }, [
+      overwrite("role", "r1", PERMISSIONS.viewChannel, 0),
+    ], member);
+    expect(hasPermissionBit(bits, "viewChannel")).toBe(true);
+    expect(hasPermissionBit(bits, "connect")).toBe(false);
+  });
+
+  it("applies @everyone, then roles, then the member's own overwrite", () => {
+    const bits = computeChannelPermissions(memberBits, { isPrivate: false }, [
+      overwrite("everyone", "", 0, PERMISSIONS.sendMessages | PERMISSIONS.speak),
+      overwrite("role", "r1", PERMISSIONS.sendMessages, 0),
+      overwrite("member", "u1", 0, PERMISSIONS.sendMessages),
+    ], member);
+    expect(hasPermissionBit(bits, "sendMessages")).toBe(false);
+    expect(hasPermissionBit(bits, "speak")).toBe(false);
+    expect(hasPermissionBit(bits, "viewChannel")).toBe(true);
+  });
+
+  it("ignores overwrites for roles and members it does not match", () => {
+    const bits = computeChannelPermissions(memberBits, { isPrivate: false }, [
+      overwrite("role", "r2", 0, PERMISSIONS.sendMessages),
+      overwrite("member", "u2", 0, PERMISSIONS.sendMessages),
+    ], member);
+    expect(bits).toBe(memberBits);
+  });
+
+  it("removes everything once the channel cannot be seen", () => {
+    expect(computeChannelPermissions(memberBits, { isPrivate: false }, [
+      overwrite("everyone", "", 0, PERMISSIONS.viewChannel),
+    ], member)).toBe(0);
+  });
+
+  it("lets administrators past every overwrite", () => {
+    expect(computeChannelPermissions(ALL_PERMISSIONS, { isPrivate: true }, [
+      overwrite("member", "u1", 0, PERMISSIONS.viewChannel),
+    ], member)).toBe(ALL_PERMISSIONS);
+  });
+});
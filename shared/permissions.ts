@@ -0,0 +1,144 @@
+// Permission flags are stored as a bitfield on roles (and, later, channel overwrites)
+export const PERMISSIONS = {
+  administrator: 1 << 0,
+  manageServer: 1 << 1,
+  manageRoles: 1 << 2,
+  manageChannels: 1 << 3,
+  kickMembers: 1 << 4,
+  banMembers: 1 << 5,
+  createInvite: 1 << 6,
+  viewChannel: 1 << 7,
+  sendMessages: 1 << 8,
+  manageMessages: 1 << 9,
+  mentionEveryone: 1 << 10,
+  attachFiles: 1 << 11,
+  addReactions: 1 << 12,
+  connect: 1 << 13,
+  speak: 1 << 14,
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+export const ALL_PERMISSIONS = PERMISSION_NAMES.reduce((bits, name) => bits | PERMISSIONS[name], 0);
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  administrator: "Administrator",
+  manageServer: "Manage Server",
+  manageRoles: "Manage Roles",
+  manageChannels: "Manage Channels",
+  kickMembers: "Kick Members",
+  banMembers: "Ban Members",
+  createInvite: "Create Invite",
+  viewChannel: "View Channels",
+  sendMessages: "Send Messages",
+  manageMessages: "Manage Messages",
+  mentionEveryone: "Mention @everyone",
+  attachFiles: "Attach Files",
+  addReactions: "Add Reactions",
+  connect: "Connect to Voice",
+  speak: "Speak in Voice",
+};
+
+// Built-in roles stored on serverMembers.role, highest first
+export const BUILTIN_ROLES = ["owner", "admin", "moderator", "member"] as const;
+export type BuiltinRole = typeof BUILTIN_ROLES[number];
+
+const MEMBER_PERMISSIONS =
+  PERMISSIONS.viewChannel |
+  PERMISSIONS.sendMessages |
+  PERMISSIONS.createInvite |
+  PERMISSIONS.attachFiles |
+  PERMISSIONS.addReactions |
+  PERMISSIONS.connect |
+  PERMISSIONS.speak;
+
+export const BUILTIN_ROLE_PERMISSIONS: Record<BuiltinRole, number> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  moderator:
+    MEMBER_PERMISSIONS |
+    PERMISSIONS.manageMessages |
+    PERMISSIONS.kickMembers |
+    PERMISSIONS.banMembers |
+    PERMISSIONS.mentionEveryone,
+  member: MEMBER_PERMISSIONS,
+};
+
+export function builtinRoleRank(role: string): number {
+  const index = BUILTIN_ROLES.indexOf(role as BuiltinRole);
+  return index === -1 ? 0 : BUILTIN_ROLES.length - index;
+}
+
+export function toPermissionBits(names: Permission[]): number {
+  return names.reduce((bits, name) => bits | PERMISSIONS[name], 0);
+}
+
+export function fromPermissionBits(bits: number): Permission[] {
+  return PERMISSION_NAMES.filter(name => (bits & PERMISSIONS[name]) !== 0);
+}
+
+// Effective server-level permissions for a member's built-in role plus any custom roles
+export function computeServerPermissions(builtinRole: string, customRoleBits: number[]): number {
+  if (builtinRole === "owner") return ALL_PERMISSIONS;
+
+  let bits = BUILTIN_ROLE_PERMISSIONS[builtinRole as BuiltinRole] ?? BUILTIN_ROLE_PERMISSIONS.member;
+  customRoleBits.forEach(roleBits => {
+    bits |= roleBits;
+  });
+
+  return (bits & PERMISSIONS.administrator) !== 0 ? ALL_PERMISSIONS : bits;
+}
+
+export function hasPermissionBit(bits: number, permission: Permission): boolean {
+  return (bits & PERMISSIONS[permission]) !== 0;
+}
+
+// Permissions that channel overwrites are expected to toggle
+export const CHANNEL_PERMISSIONS: Permission[] = ["viewChannel", "sendMessages", "connect", "speak"];
+
+export interface OverwriteBits {
+  targetType: string;
+  targetId: string;
+  allow: number;
+  deny: number;
+}
+
+// Applies channel overwrites on top of server permissions: @everyone, then roles, then the member
+export function computeChannelPermissions(
+  serverBits: number,
+  channel: { isPrivate: boolean },
+  overwrites: OverwriteBits[],
+  member: { userId: string; roleIds: string[] },
+): number {
+  if ((serverBits & PERMISSIONS.administrator) !== 0) return ALL_PERMISSIONS;
+
+  let bits = serverBits;
+  if (channel.isPrivate) {
+    bits &= ~(PERMISSIONS.viewChannel | PERMISSIONS.connect);
+  }
+
+  const everyone = overwrites.find(o => o.targetType === "everyone");
+  if (everyone) {
+    bits = (bits & ~everyone.deny) | everyone.allow;
+  }
+
+  let roleAllow = 0;
+  let roleDeny = 0;
+  overwrites
+    .filter(o => o.targetType === "role" && member.roleIds.includes(o.targetId))
+    .forEach(o => {
+      roleAllow |= o.allow;
+      roleDeny |= o.deny;
+    });
+  bits = (bits & ~roleDeny) | roleAllow;
+
+  const own = overwrites.find(o => o.targetType === "member" && o.targetId === member.userId);
+  if (own) {
+    bits = (bits & ~own.deny) | own.allow;
+  }
+
+  // Nothing in a channel is usable without seeing it
+  return (bits & PERMISSIONS.viewChannel) !== 0 ? bits : 0;
+}
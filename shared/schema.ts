@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, boolean, integer, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PERMISSION_NAMES, type Permission } from "./permissions";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,7 +10,9 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   avatar: text("avatar"),
-  status: text("status").notNull().default("online"), // online, away, busy, offline
+  status: text("status").notNull().default("offline"), // online, away, busy, offline; derived from the user's live connections
+  preferredStatus: text("preferred_status").notNull().default("online"), // what the user picked; shown only while they are connected
+  lastSeenAt: timestamp("last_seen_at"), // when the status last changed, so for offline users when they left
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -30,6 +33,7 @@ export const channels = pgTable("channels", {
   type: text("type").notNull(), // text, voice
   serverId: varchar("server_id").notNull().references(() => servers.id),
   position: integer("position").default(0),
+  isPrivate: boolean("is_private").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -41,21 +45,114 @@ export const serverMembers = pgTable("server_members", {
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serverId: varchar("server_id").notNull().references(() => servers.id),
+  name: text("name").notNull(),
+  color: text("color"),
+  permissions: integer("permissions").notNull().default(0), // bitfield, see shared/permissions.ts
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const memberRoles = pgTable("member_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serverId: varchar("server_id").notNull().references(() => servers.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  roleId: varchar("role_id").notNull().references(() => roles.id),
+});
+
+export const channelOverwrites = pgTable("channel_overwrites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channelId: varchar("channel_id").notNull().references(() => channels.id),
+  targetType: text("target_type").notNull(), // everyone, role, member
+  targetId: varchar("target_id").notNull(), // role id, user id, or "everyone"
+  allow: integer("allow").notNull().default(0),
+  deny: integer("deny").notNull().default(0),
+});
+
+export const serverBans = pgTable("server_bans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serverId: varchar("server_id").notNull().references(() => servers.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  bannedBy: varchar("banned_by").notNull().references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   content: text("content").notNull(),
   authorId: varchar("author_id").notNull().references(() => users.id),
   channelId: varchar("channel_id").notNull().references(() => channels.id),
-  type: text("type").notNull().default("text"), // text, file, call
-  attachments: json("attachments"),
+  type: text("type").notNull().default("text"), // text, file, call, pin (system notice; replyToId points at the pinned message)
+  attachments: json("attachments").$type<Attachment[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // soft-delete tombstone; content is cleared
+  replyToId: varchar("reply_to_id").references((): AnyPgColumn => messages.id),
+  threadId: varchar("thread_id").references((): AnyPgColumn => threads.id), // set on messages posted inside a thread
+  pinnedAt: timestamp("pinned_at"),
+  pinnedById: varchar("pinned_by_id").references(() => users.id),
+  nonce: varchar("nonce"), // client-generated; a retried send with the same nonce returns the original message
+}, (table) => [
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+  uniqueIndex("messages_author_nonce_idx").on(table.authorId, table.nonce),
+]);
+
+export const threads = pgTable("threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channelId: varchar("channel_id").notNull().references(() => channels.id),
+  rootMessageId: varchar("root_message_id").notNull().unique().references(() => messages.id),
+  name: text("name").notNull(),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  messageCount: integer("message_count").notNull().default(0),
+  lastMessageAt: timestamp("last_message_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const threadMembers = pgTable("thread_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: varchar("thread_id").notNull().references(() => threads.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  joinedAt: timestamp("joined_at").defaultNow(),
+});
+
+export const reactions = pgTable("reactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reactions_message_user_emoji_idx").on(table.messageId, table.userId, table.emoji),
+]);
+
 export const friendships = pgTable("friendships", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId1: varchar("user_id_1").notNull().references(() => users.id),
   userId2: varchar("user_id_2").notNull().references(() => users.id),
-  status: text("status").notNull().default("pending"), // pending, accepted, blocked
+  status: text("status").notNull().default("pending"), // pending, accepted, blocked; a pending request is from userId1 to userId2
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Public keys users publish so peers can check what they sign; one key per purpose
+export const userKeys = pgTable("user_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").notNull(), // signing (Ed25519, for P2P frames)
+  publicKey: text("public_key").notNull(), // base64 of the raw key
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("user_keys_user_purpose_idx").on(table.userId, table.purpose),
+]);
+
+// Each device that can read a user's encrypted direct messages publishes the public half
+// of its ECDH key pair here; the private half never leaves the device
+export const deviceKeys = pgTable("device_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  publicKey: text("public_key").notNull(), // base64 of the raw P-256 key
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -65,13 +162,76 @@ export const directMessages = pgTable("direct_messages", {
   senderId: varchar("sender_id").notNull().references(() => users.id),
   recipientId: varchar("recipient_id").notNull().references(() => users.id),
   type: text("type").notNull().default("text"), // text, file, call
-  attachments: json("attachments"),
+  attachments: json("attachments").$type<Attachment[]>(),
+  encryption: json("encryption").$type<DirectMessageEncryption>(), // set when content is ciphertext
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("direct_messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+]);
+
+// Direct conversations with more than one other person. Any member can add people, rename
+// the group or change its icon; only the owner can remove others, and anyone can leave.
+export const groupConversations = pgTable("group_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name"), // unnamed groups are shown by their members' names
+  icon: json("icon").$type<Attachment>(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const groupMembers = pgTable("group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groupConversations.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("group_members_group_user_idx").on(table.groupId, table.userId),
+]);
+
+export const groupMessages = pgTable("group_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  content: text("content").notNull(),
+  groupId: varchar("group_id").notNull().references(() => groupConversations.id),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  type: text("type").notNull().default("text"), // text, file, or a system notice from GROUP_NOTICE_TYPES
+  targetUserId: varchar("target_user_id").references(() => users.id), // the member a membership notice is about
+  attachments: json("attachments").$type<Attachment[]>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Stored on the message; the file itself lives in the blob store under the attachment ID
+export const attachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  size: z.number().int(),
+  contentType: z.string(),
+  width: z.number().int().nullable(), // images only
+  height: z.number().int().nullable(),
+});
+
+// An end-to-end encrypted direct message holds AES-GCM ciphertext as its content. The
+// message key is wrapped once for every device of either participant, each time under
+// a key agreed between the sending device and that device.
+export const MAX_DEVICES_PER_USER = 10;
+const base64Of = (bytes: number) => z.string().length(Math.ceil(bytes / 3) * 4).regex(/^[A-Za-z0-9+/]+={0,2}$/);
+export const directMessageEncryptionSchema = z.object({
+  v: z.literal(1),
+  senderDeviceId: z.string().min(1),
+  iv: base64Of(12),
+  keys: z.array(z.object({
+    deviceId: z.string().min(1),
+    iv: base64Of(12),
+    wrappedKey: base64Of(48), // 32-byte key plus the 16-byte GCM tag
+  })).min(1).max(MAX_DEVICES_PER_USER * 2),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  status: true,
+  preferredStatus: true,
+  lastSeenAt: true,
   createdAt: true,
 });
 
@@ -86,39 +246,228 @@ export const insertChannelSchema = createInsertSchema(channels).omit({
   createdAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertGroupMessageSchema = createInsertSchema(groupMessages, {
+  attachments: attachmentSchema.array().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRoleSchema = createInsertSchema(roles).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertDirectMessageSchema = createInsertSchema(directMessages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  attachments: attachmentSchema.array().nullish(),
+  nonce: z.string().uuid().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  editedAt: true,
+  deletedAt: true,
+  pinnedAt: true,
+  pinnedById: true,
+});
+
+export const insertThreadSchema = createInsertSchema(threads).omit({
+  id: true,
+  createdAt: true,
+  messageCount: true,
+  lastMessageAt: true,
+});
+
+export const threadInputSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const updateMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Distinct emoji a single message can collect
+export const MAX_REACTIONS_PER_MESSAGE = 20;
+
+// Pinned messages a single channel can hold
+export const MAX_PINS_PER_CHANNEL = 50;
+
+// Uploaded files; only types that are safe to serve back are accepted
+export const MAX_ATTACHMENT_SIZE = 8 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "video/mp4",
+  "video/webm",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "audio/webm",
+  "application/pdf",
+  "application/zip",
+  "text/plain",
+];
+
+// A single emoji, including skin tone modifiers and ZWJ sequences
+const EMOJI_PATTERN = new RegExp("^(?=.*[\\p{Extended_Pictographic}\\p{Regional_Indicator}])[\\p{Extended_Pictographic}\\p{Emoji_Component}\\u200d\\ufe0f]+$", "u");
+export const reactionEmojiSchema = z.string().min(1).max(32).regex(EMOJI_PATTERN);
+
+// Message history is paged by message ID cursors; at most one cursor per request
+export const messagePageSchema = z.object({
+  before: z.string().min(1).optional(),
+  after: z.string().min(1).optional(),
+  around: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(MESSAGE_PAGE_SIZE),
+}).refine(page => [page.before, page.after, page.around].filter(Boolean).length <= 1, {
+  message: "Only one of before, after or around may be given",
+});
+
+export const searchParamsSchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  serverId: z.string().min(1).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Keys are published as base64 of their raw form; Ed25519 public keys are 32 bytes
+export const KEY_PURPOSES = ["signing"] as const;
+export const publishKeySchema = z.object({
+  purpose: z.enum(KEY_PURPOSES),
+  publicKey: z.string().regex(/^[A-Za-z0-9+/]{43}=$/, "Expected a base64 encoded 32-byte key"),
+});
+
+export const registerDeviceSchema = z.object({
+  publicKey: z.string().regex(/^[A-Za-z0-9+/]{87}=$/, "Expected a base64 encoded uncompressed P-256 key"),
+});
+
+export const insertDirectMessageSchema = createInsertSchema(directMessages, {
+  attachments: attachmentSchema.array().nullish(),
+  encryption: directMessageEncryptionSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Members of a group including its owner
+export const MAX_GROUP_MEMBERS = 10;
+
+// Posted by the server when a group's membership, name or icon changes
+export const GROUP_NOTICE_TYPES = ["member-add", "member-remove", "member-leave", "rename", "icon"] as const;
+
+export const groupInputSchema = z.object({
+  name: z.string().trim().min(1).max(100).nullish(),
+  memberIds: z.array(z.string().min(1)).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+export const updateGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100).nullable(),
+});
+
+// Friend requests name the other user either by ID or by username
+export const friendRequestSchema = z.object({
+  userId: z.string().min(1).optional(),
+  username: z.string().trim().min(1).optional(),
+}).refine(request => !!request.userId !== !!request.username, {
+  message: "Give either a user ID or a username",
+});
+
+export const roleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullable().optional(),
+  permissions: z.array(z.enum(PERMISSION_NAMES as [Permission, ...Permission[]])).default([]),
+  position: z.number().int().min(0).optional(),
+});
+
+export const overwriteInputSchema = z.object({
+  allow: z.array(z.enum(PERMISSION_NAMES as [Permission, ...Permission[]])).default([]),
+  deny: z.array(z.enum(PERMISSION_NAMES as [Permission, ...Permission[]])).default([]),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(1),
   password: z.string().min(1),
 });
 
+export const PRESENCE_STATUSES = ["online", "away", "busy", "offline"] as const;
+
+// Picking "offline" keeps a connected user invisible
+export const updateStatusSchema = z.object({
+  status: z.enum(PRESENCE_STATUSES),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PresenceStatus = typeof PRESENCE_STATUSES[number];
 export type InsertServer = z.infer<typeof insertServerSchema>;
 export type Server = typeof servers.$inferSelect;
 export type InsertChannel = z.infer<typeof insertChannelSchema>;
 export type Channel = typeof channels.$inferSelect;
+export type Attachment = z.infer<typeof attachmentSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertDirectMessage = z.infer<typeof insertDirectMessageSchema>;
 export type DirectMessage = typeof directMessages.$inferSelect;
+export type GroupConversation = typeof groupConversations.$inferSelect;
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type InsertGroupMessage = z.infer<typeof insertGroupMessageSchema>;
+export type GroupMessage = typeof groupMessages.$inferSelect;
+export type GroupNoticeType = typeof GROUP_NOTICE_TYPES[number];
+export type GroupInput = z.infer<typeof groupInputSchema>;
 export type ServerMember = typeof serverMembers.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type Role = typeof roles.$inferSelect;
+export type MemberRole = typeof memberRoles.$inferSelect;
+export type ServerBan = typeof serverBans.$inferSelect;
+export type ChannelOverwrite = typeof channelOverwrites.$inferSelect;
+export type OverwriteTargetType = "everyone" | "role" | "member";
 export type Friendship = typeof friendships.$inferSelect;
+export type UserKey = typeof userKeys.$inferSelect;
+export type DeviceKey = typeof deviceKeys.$inferSelect;
+export type DirectMessageEncryption = z.infer<typeof directMessageEncryptionSchema>;
+export type KeyPurpose = typeof KEY_PURPOSES[number];
 export type Login = z.infer<typeof loginSchema>;
+export type RoleInput = z.infer<typeof roleInputSchema>;
+export type OverwriteInput = z.infer<typeof overwriteInputSchema>;
+export type MessagePage = z.infer<typeof messagePageSchema>;
+export type InsertThread = z.infer<typeof insertThreadSchema>;
+export type Thread = typeof threads.$inferSelect;
+export type ThreadMember = typeof threadMembers.$inferSelect;
+export type Reaction = typeof reactions.$inferSelect;
+export type MessageCursor = Pick<MessagePage, "before" | "after" | "around">;
 
 // Additional types for client
+// Quoted preview of the message being replied to; content is empty once it is deleted
+export interface ReplyPreview extends Pick<Message, 'id' | 'content' | 'authorId' | 'deletedAt'> {
+  author: User;
+}
+
+// Reactions on a message grouped by emoji, in the order each emoji was first used
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+// Downloads go through the message so the server can check the viewer may see it
+export function attachmentUrl(scope: "messages" | "direct-messages" | "group-messages", messageId: string, attachment: Attachment): string {
+  return `/api/${scope}/${messageId}/attachments/${attachment.id}/${encodeURIComponent(attachment.name)}`;
+}
+
 export interface MessageWithAuthor extends Message {
   author: User;
+  replyTo?: ReplyPreview | null;
+  thread?: Thread | null; // the thread spawned from this message, if any
+  reactions?: ReactionSummary[];
+  unverified?: boolean; // set client-side on peer copies whose signature could not be checked
+}
+
+export interface ThreadWithDetails extends Thread {
+  rootMessage: MessageWithAuthor | null;
+  participants: User[];
 }
 
 export interface DirectMessageWithUsers extends DirectMessage {
@@ -126,16 +475,149 @@ export interface DirectMessageWithUsers extends DirectMessage {
   recipient: User;
 }
 
+export interface GroupMessageWithUsers extends GroupMessage {
+  author: User;
+  target: User | null;
+}
+
+export interface ServerMemberWithUser extends ServerMember {
+  user: User;
+  roleIds: string[];
+}
+
 export interface ServerWithChannels extends Server {
   channels: Channel[];
-  members: (ServerMember & { user: User })[];
+  members: ServerMemberWithUser[];
 }
 
 export interface WebRTCSignal {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'join-channel' | 'leave-channel' | 'peer-joined' | 'peer-left';
+  type: 'offer' | 'answer' | 'ice-candidate' | 'join-channel' | 'leave-channel' | 'peer-joined' | 'peer-left' | 'join-denied';
   from?: string;
   to?: string;
   channelId?: string;
   userId?: string;
   data?: any;
 }
+
+// Users as they are exposed over the API, without credentials
+export type PublicUser = Pick<User, 'id' | 'username' | 'email' | 'avatar' | 'status' | 'lastSeenAt'>;
+
+export interface UserKeys {
+  user: PublicUser;
+  keys: Pick<UserKey, 'purpose' | 'publicKey' | 'createdAt'>[];
+}
+
+// Everything needed to encrypt direct messages to a user
+export interface KeyBundle {
+  user: PublicUser;
+  devices: Pick<DeviceKey, 'id' | 'publicKey' | 'createdAt'>[];
+}
+
+export interface FriendRequest {
+  user: PublicUser; // whoever is on the other side of the request
+  createdAt: Date | null;
+}
+
+export interface FriendRequests {
+  incoming: FriendRequest[];
+  outgoing: FriendRequest[];
+}
+
+export interface RealtimeMessage extends Message {
+  author: PublicUser;
+  replyTo?: (Omit<ReplyPreview, 'author'> & { author: PublicUser }) | null;
+  thread?: Thread | null;
+  reactions?: ReactionSummary[];
+}
+
+export interface RealtimeDirectMessage extends DirectMessage {
+  sender: PublicUser;
+  recipient: PublicUser;
+}
+
+// Someone the user has exchanged direct messages with, and the latest of those messages
+export interface DirectConversation {
+  user: PublicUser;
+  lastMessage: RealtimeDirectMessage;
+}
+
+export interface GroupWithMembers extends GroupConversation {
+  members: PublicUser[]; // in the order they joined
+}
+
+export interface RealtimeGroupMessage extends GroupMessage {
+  author: PublicUser;
+  target: PublicUser | null;
+}
+
+// The icon is served through the group so only members can fetch it; the attachment ID busts caches
+export function groupIconUrl(group: Pick<GroupConversation, "id" | "icon">): string | undefined {
+  return group.icon ? `/api/groups/${group.id}/icon?v=${group.icon.id}` : undefined;
+}
+
+export type SearchResult =
+  | { type: 'message'; message: RealtimeMessage; channel: Channel }
+  | { type: 'direct-message'; message: RealtimeDirectMessage };
+
+// Client frames on /ws that choose which message streams the socket receives
+export interface SubscriptionFrame {
+  type: 'subscribe' | 'unsubscribe';
+  channelIds?: string[];
+  directMessages?: boolean;
+}
+
+// Client frame on /ws reporting whether the user has gone idle in that tab or is active again
+export interface ActivityFrame {
+  type: 'activity';
+  idle: boolean;
+}
+
+const subscriptionFrameFields = {
+  channelIds: z.array(z.string()).optional(),
+  directMessages: z.boolean().optional(),
+};
+const channelSignalFields = {
+  channelId: z.string().min(1),
+  userId: z.string().optional(),
+};
+const peerSignalFields = {
+  from: z.string().optional(),
+  to: z.string().min(1),
+  data: z.unknown(),
+};
+
+// Everything a client may send on /ws; anything else closes the socket
+export const clientFrameSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), ...subscriptionFrameFields }),
+  z.object({ type: z.literal("unsubscribe"), ...subscriptionFrameFields }),
+  z.object({ type: z.literal("activity"), idle: z.boolean() }),
+  z.object({ type: z.literal("join-channel"), ...channelSignalFields }),
+  z.object({ type: z.literal("leave-channel"), ...channelSignalFields }),
+  z.object({ type: z.literal("offer"), ...peerSignalFields }),
+  z.object({ type: z.literal("answer"), ...peerSignalFields }),
+  z.object({ type: z.literal("ice-candidate"), ...peerSignalFields }),
+]);
+
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+
+// Server-pushed events sent over /ws alongside signaling frames
+export type RealtimeEvent =
+  | { type: 'message.created'; message: RealtimeMessage }
+  | { type: 'message.updated'; message: RealtimeMessage }
+  | { type: 'message.deleted'; message: RealtimeMessage }
+  | { type: 'thread.updated'; thread: Thread }
+  | { type: 'reaction.updated'; message: Pick<Message, 'id' | 'channelId' | 'threadId'>; reactions: ReactionSummary[] }
+  | { type: 'direct-message.created'; message: RealtimeDirectMessage }
+  | { type: 'group.message.created'; message: RealtimeGroupMessage }
+  | { type: 'group.updated'; group: GroupWithMembers } // also sent to members who were just removed
+  | { type: 'friend-request.created'; request: FriendRequest }
+  | { type: 'friendship.updated'; userId: string } // a request or friendship with this user was accepted, declined or ended
+  | { type: 'presence.update'; userId: string; status: PresenceStatus; lastSeenAt: Date | null }
+  | { type: 'subscription.denied'; channelId: string };
+
+// Application close codes used on the /ws socket (4000-4999 is reserved for apps)
+export const SOCKET_CLOSE_CODES = {
+  invalidFrame: 4400,
+  unauthorized: 4401,
+  forbidden: 4403,
+} as const;
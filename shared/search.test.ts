@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { mentionPattern, parseSearchQuery } from "./search";
+
+describe("parseSearchQuery", () => {
+  it("splits free text into unique lowercased terms", () => {
+    expect(parseSearchQuery("Deploy the deploy-script")).toEqual({
+      query: { terms: ["deploy", "the", "script"], hasFile: false },
+    });
+  });
+
+  it("reads every filter alongside the text", () => {
+    const result = parseSearchQuery("release from:@alice in:#general has:FILE mentions:bob");
+    expect(result).toEqual({
+      query: { terms: ["release"], from: "alice", in: "general", hasFile: true, mentions: "bob" },
+    });
+  });
+
+  it("treats filter names case-insensitively", () => {
+    expect(parseSearchQuery("FROM:alice")).toEqual({ query: { terms: [], from: "alice", hasFile: false } });
+  });
+
+  it("bounds dates by whole days, with after: excluding the named day", () => {
+    const result = parseSearchQuery("before:2024-02-01 after:2024-01-31");
+    expect(result).toEqual({
+      query: {
+        terms: [],
+        hasFile: false,
+        before: new Date("2024-02-01T00:00:00Z"),
+        after: new Date("2024-02-01T00:00:00Z"),
+      },
+    });
+  });
+
+  it("rejects malformed dates, naming the filter and value", () => {
+    expect(parseSearchQuery("after:yesterday")).toEqual({
+      error: "Invalid date for after:yesterday (expected YYYY-MM-DD)",
+    });
+    expect(parseSearchQuery("before:2024-1-5")).toEqual({
+      error: "Invalid date for before:2024-1-5 (expected YYYY-MM-DD)",
+    });
+  });
+
+  it("only supports has:file", () => {
+    expect(parseSearchQuery("has:link")).toEqual({ error: "Unsupported filter: has:link" });
+  });
+
+  it("rejects queries with neither terms nor filters", () => {
+    expect(parseSearchQuery("   ")).toEqual({ error: "Search query is empty" });
+    expect(parseSearchQuery("!!! ???")).toEqual({ error: "Search query is empty" });
+  });
+
+  it("leaves words that only look like filters as text", () => {
+    expect(parseSearchQuery("to:alice")).toEqual({ query: { terms: ["to", "alice"], hasFile: false } });
+  });
+});
+
+describe("mentionPattern", () => {
+  it("matches a whole mention anywhere in the text, ignoring case", () => {
+    const pattern = mentionPattern("alice");
+    expect(pattern.test("hey @alice")).toBe(true);
+    expect(pattern.test("@Alice, look")).toBe(true);
+  });
+
+  it("does not match a longer name that starts with the username", () => {
+    const pattern = mentionPattern("alice");
+    expect(pattern.test("@alice_b")).toBe(false);
+    expect(pattern.test("@alice-smith")).toBe(false);
+    expect(pattern.test("@alice2")).toBe(false);
+    expect(pattern.test("alice")).toBe(false);
+  });
+
+  it("escapes regular expression characters in usernames", () => {
+    const pattern = mentionPattern("a.b+c");
+    expect(pattern.test("@a.b+c hi")).toBe(true);
+    expect(pattern.test("@axbbc")).toBe(false);
+  });
+});
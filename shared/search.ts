@@ -0,0 +1,80 @@
+// Search queries mix free text with filters, e.g. `deploy from:alice in:general has:file after:2024-01-31`
+export interface ParsedSearchQuery {
+  terms: string[];
+  from?: string; // username
+  in?: string; // channel name, or @username for a direct message conversation
+  hasFile: boolean;
+  before?: Date; // exclusive upper bound: the start of the named day
+  after?: Date; // inclusive lower bound: the start of the day after the named one
+  mentions?: string; // username
+}
+
+export const SEARCH_RESULT_LIMIT = 25;
+
+const WORD_SEPARATOR = new RegExp("[^\\p{L}\\p{N}]+", "u");
+const WORD_RUN = new RegExp("([\\p{L}\\p{N}]+)", "u");
+const FILTER_PATTERN = /^(from|in|has|before|after|mentions):(.+)$/i;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lowercased words of a text; both indexed content and query terms go through it
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(WORD_SEPARATOR).filter(Boolean);
+}
+
+// Splits text into alternating separator and word runs (words at odd indexes) so matches can be marked in place
+export function splitWords(text: string): string[] {
+  return text.split(WORD_RUN);
+}
+
+function parseDay(value: string): Date | undefined {
+  if (!DAY_PATTERN.test(value)) return undefined;
+  const day = new Date(`${value}T00:00:00Z`);
+  return isNaN(day.getTime()) ? undefined : day;
+}
+
+export function parseSearchQuery(input: string): { query: ParsedSearchQuery } | { error: string } {
+  const query: ParsedSearchQuery = { terms: [], hasFile: false };
+  const text: string[] = [];
+
+  for (const word of input.trim().split(/\s+/).filter(Boolean)) {
+    const filter = word.match(FILTER_PATTERN);
+    if (!filter) {
+      text.push(word);
+      continue;
+    }
+
+    const key = filter[1].toLowerCase();
+    const value = filter[2];
+    if (key === "from" || key === "mentions") {
+      query[key] = value.replace(/^@/, "");
+    } else if (key === "in") {
+      query.in = value.replace(/^#/, "");
+    } else if (key === "has") {
+      if (value.toLowerCase() !== "file") {
+        return { error: `Unsupported filter: has:${value}` };
+      }
+      query.hasFile = true;
+    } else {
+      const day = parseDay(value);
+      if (!day) {
+        return { error: `Invalid date for ${key}:${value} (expected YYYY-MM-DD)` };
+      }
+      // `after:` excludes the named day itself
+      query[key as "before" | "after"] = key === "after" ? new Date(day.getTime() + DAY_MS) : day;
+    }
+  }
+
+  query.terms = Array.from(new Set(tokenize(text.join(" "))));
+  const hasFilter = query.from || query.in || query.hasFile || query.before || query.after || query.mentions;
+  if (query.terms.length === 0 && !hasFilter) {
+    return { error: "Search query is empty" };
+  }
+  return { query };
+}
+
+// Matches `@username` as a whole mention, not a prefix of a longer name
+export function mentionPattern(username: string): RegExp {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`@${escaped}(?![\\w-])`, "i");
+}